@@ -0,0 +1,114 @@
+// Compares the in-memory search and filtering with and without the catalog index (see CatalogIndex),
+// on generated catalogs of 2k, 20k and 100k products. Run with `npm run bench`.
+import { performance } from 'perf_hooks';
+import { Product } from '../src/app/core/models/product.model';
+import { FilterExpression } from '../src/app/core/models/filter-expression.model';
+import { SearchOptions } from '../src/app/core/models/search-options.model';
+import { CatalogIndex } from '../src/app/products/utils/catalog-index';
+import { buildExpressionPredicate } from '../src/app/products/utils/filter-expression';
+import { computeFacets } from '../src/app/products/utils/facets';
+import { matchesSearch } from '../src/app/products/utils/product-search';
+
+interface BenchmarkQuery {
+  label: string;
+  searchTerm: string;
+  filters: FilterExpression;
+  options: SearchOptions;
+}
+
+const SIZES = [2_000, 20_000, 100_000];
+const RUNS = 7;
+
+const ADJECTIVES = ['Wireless', 'Smart', 'Portable', 'Compact', 'Classic', 'Ultra', 'Eco', 'Pro', 'Mini', 'Deluxe', 'Vintage', 'Rugged'];
+const NOUNS = ['Headphones', 'Phone', 'Laptop', 'Kettle', 'Shoes', 'Jacket', 'Watch', 'Camera', 'Speaker', 'Backpack', 'Blender', 'Lamp', 'Desk', 'Chair', 'Monitor'];
+const CATEGORIES = ['Electronics', 'Fashion', 'Kitchen', 'Sports', 'Home', 'Office', 'Outdoors', 'Toys', 'Beauty', 'Garden', 'Books', 'Music'];
+const WORDS = ['durable', 'lightweight', 'waterproof', 'rechargeable', 'stainless', 'steel', 'cotton', 'leather', 'battery', 'bluetooth', 'noise', 'cancelling',
+  'ergonomic', 'adjustable', 'foldable', 'premium', 'travel', 'outdoor', 'kitchen', 'office', 'gift', 'warranty', 'design', 'sound', 'comfort', 'energy', 'saving'];
+
+/** A small deterministic pseudo-random generator (mulberry32), so that every run benchmarks the same catalog. */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function generateCatalog(size: number): Product[] {
+  const random = createRandom(size);
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+  return Array.from({ length: size }, (_, i) => ({
+    id: i + 1,
+    name: `${pick(ADJECTIVES)} ${pick(NOUNS)} ${String.fromCharCode(65 + (i % 26))}${i % 997}`,
+    category: pick(CATEGORIES),
+    price: Math.round(random() * 200_000) / 100,
+    description: Array.from({ length: 8 }, () => pick(WORDS)).join(' ')
+  }));
+}
+
+const multiselect = (options: string[]): FilterExpression => ({
+  key: 'category',
+  value: { type: 'multiselect', value: null, range: null, greater: null, smaller: null, multiselect: Object.fromEntries(options.map(option => [option, true])), logic: 'or' }
+});
+
+const priceRange = (min: number, max: number): FilterExpression => ({
+  key: 'price',
+  value: { type: 'range', value: null, range: { min, max }, greater: null, smaller: null, multiselect: null }
+});
+
+const EXACT: SearchOptions = { mode: 'exact', threshold: 0 };
+const FUZZY: SearchOptions = { mode: 'fuzzy', threshold: 0.25 };
+
+const QUERIES: BenchmarkQuery[] = [
+  { label: 'exact "phone"', searchTerm: 'phone', filters: { logic: 'and', filters: [] }, options: EXACT },
+  { label: 'fuzzy "hedphones"', searchTerm: 'hedphones', filters: { logic: 'and', filters: [] }, options: FUZZY },
+  { label: 'categories + price', searchTerm: '', filters: { logic: 'and', filters: [multiselect(['Electronics', 'Kitchen']), priceRange(100, 500)] }, options: FUZZY },
+  { label: 'fuzzy "wireles" + filters', searchTerm: 'wireles', filters: { logic: 'and', filters: [multiselect(['Electronics']), priceRange(50, 1500)] }, options: FUZZY }
+];
+
+/** The previous implementation: every query scans the whole catalog. */
+function scanQuery(products: Product[], query: BenchmarkQuery): number {
+  const predicate = buildExpressionPredicate(query.filters);
+  const matching = products
+    .filter(product => !predicate || predicate(product))
+    .filter(product => matchesSearch(product, query.searchTerm, query.options));
+  computeFacets(products, query.searchTerm, query.filters, ['category'], query.options);
+  return matching.length;
+}
+
+function indexQuery(index: CatalogIndex, query: BenchmarkQuery): number {
+  const matching = index.select(query.searchTerm, query.filters, query.options);
+  index.facets(query.searchTerm, query.filters, ['category'], query.options);
+  return matching.length;
+}
+
+/** Runs a function a few times and returns the median duration, in milliseconds. */
+function median(run: () => unknown): number {
+  const durations = Array.from({ length: RUNS }, () => {
+    const start = performance.now();
+    run();
+    return performance.now() - start;
+  }).sort((a, b) => a - b);
+  return durations[Math.floor(RUNS / 2)];
+}
+
+const format = (ms: number) => `${ms.toFixed(2)} ms`;
+
+for (const size of SIZES) {
+  const products = generateCatalog(size);
+  const buildStart = performance.now();
+  const index = new CatalogIndex(products);
+  console.log(`\n${size.toLocaleString('en-US')} products (index built in ${format(performance.now() - buildStart)})`);
+
+  console.table(QUERIES.map(query => {
+    const matches = indexQuery(index, query);
+    if (matches !== scanQuery(products, query)) {
+      throw new Error(`The index and the scan disagree on ${query.label}`);
+    }
+    const scan = median(() => scanQuery(products, query));
+    const indexed = median(() => indexQuery(index, query));
+    return { query: query.label, matches, scan: format(scan), index: format(indexed), speedup: `${(scan / indexed).toFixed(1)}x` };
+  }));
+}
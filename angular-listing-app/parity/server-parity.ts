@@ -0,0 +1,196 @@
+// Runs the shared filtering scenarios (see mocks/filtering-scenarios.ts) through the routes, controller and
+// query builders of the API (server/), and compares the pages, the facet counts and the cursor walks with the
+// client-side strategy. The catalog is stored like the API stores it, with its search tokens, sort keys and
+// vocabulary, and the queries and pipelines the controller builds are evaluated in memory by mingo instead of
+// MongoDB, so that no database is needed. Run with `npm run parity`: it exits with an error when a scenario diverges.
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { resolve } from 'path';
+import express from 'express';
+import { Aggregator } from 'mingo/aggregator';
+import { Context } from 'mingo/core';
+import { Query } from 'mingo/query';
+import * as accumulatorOperators from 'mingo/operators/accumulator';
+import * as expressionOperators from 'mingo/operators/expression';
+import * as pipelineOperators from 'mingo/operators/pipeline';
+import * as projectionOperators from 'mingo/operators/projection';
+import * as queryOperators from 'mingo/operators/query';
+import { Product } from '../src/app/core/models/product.model';
+import { SearchOptions } from '../src/app/core/models/search-options.model';
+import { FilterRequestPayload } from '../src/app/products/interfaces/filter-payload';
+import { FilterResponse } from '../src/app/products/interfaces/filter-response';
+import { InMemoryCatalog } from '../src/app/products/utils/in-memory-catalog';
+import { toFilterPayload } from '../src/app/products/utils/filter-expression';
+import { EXACT_SEARCH } from '../src/app/products/utils/product-search';
+import { PRODUCTS } from '../src/app/mocks/products.mock';
+import { FILTERING_SCENARIOS, FilteringScenario, describeDivergences, productIds } from '../src/app/mocks/filtering-scenarios';
+import { environment } from '../src/environment/environment';
+
+type Document = Record<string, unknown>;
+
+interface EmulatedModel {
+  countDocuments(query: Document): Promise<number>;
+  estimatedDocumentCount(): Promise<number>;
+  aggregate(pipeline: Document[]): Promise<Document[]>;
+  find(query: Document): { lean(): Promise<Document[]> };
+}
+
+const SERVER_DIR = resolve(__dirname, '../../../../server');
+const requireServer = (path: string) => require(resolve(SERVER_DIR, path));
+
+const mongoose = requireServer('node_modules/mongoose');
+const ProductModel = requireServer('models/Product');
+const SearchWordModel = requireServer('models/SearchWord');
+const { toSearchTokens } = requireServer('utils/searchTokens');
+const { toSortKeys } = requireServer('utils/sortKeys');
+
+const SEARCH_MODES: SearchOptions[] = [environment.search, EXACT_SEARCH];
+const FACETS: Array<keyof Product> = ['category'];
+// Small pages, so that the cursor walks cross many page boundaries
+const WALK_PAGE_SIZE = 7;
+// More pages than the catalog fills, so that cursors that do not move the page end the walk
+const MAX_WALK_PAGES = Math.ceil(PRODUCTS.length / WALK_PAGE_SIZE) + 1;
+
+// MongoDB converts ObjectIds to their hexadecimal string, mingo only converts primitive values
+const $toString: typeof expressionOperators.$toString = (obj, expr, options) => {
+  const value: unknown = typeof expr === 'string' && expr.startsWith('$') ? obj[expr.slice(1)] : undefined;
+  return value instanceof mongoose.Types.ObjectId ? String(value) : expressionOperators.$toString(obj, expr, options);
+};
+
+const CONTEXT = Context.init({
+  accumulator: accumulatorOperators,
+  expression: { ...expressionOperators, $toString },
+  pipeline: pipelineOperators,
+  projection: projectionOperators,
+  query: queryOperators
+});
+
+/** Stands in for the collection of a model, answering the queries the controller runs from the given documents. */
+function emulateCollection(model: EmulatedModel, documents: Document[]): void {
+  model.countDocuments = async query => new Query(query, { context: CONTEXT }).find(documents).all().length;
+  model.estimatedDocumentCount = async () => documents.length;
+  model.aggregate = async pipeline => new Aggregator(pipeline, { context: CONTEXT }).run(documents) as Document[];
+  model.find = query => ({ lean: async () => new Query(query, { context: CONTEXT }).find(documents).all() as Document[] });
+}
+
+/** Freezes a stored document, so that a stage changing the documents it reads fails instead of corrupting the catalog. */
+function freeze(document: Document): Document {
+  Object.values(document).filter(value => typeof value === 'object' && value?.constructor === Object).forEach(value => Object.freeze(value));
+  return Object.freeze(document);
+}
+
+// The mock products as the API stores them, with ObjectIds ordered like their numeric ids
+const objectIdOf = (id: Product['id']) => new mongoose.Types.ObjectId(Number(id).toString(16).padStart(24, '0'));
+const mockIds = new Map(PRODUCTS.map(({ id }) => [objectIdOf(id).toHexString(), id]));
+const storedProducts = PRODUCTS.map(({ id, ...values }) => {
+  const product = new ProductModel({ ...values, _id: objectIdOf(id) }).toObject();
+  return freeze({ ...product, searchTokens: toSearchTokens(product), sortKeys: toSortKeys(product) });
+});
+const vocabulary = new Map<string, Document>();
+storedProducts.forEach(product => Object.entries(product['searchTokens'] as Record<string, string[]>).forEach(([field, words]) =>
+  words.forEach(word => vocabulary.set(`${field}:${word}`, freeze({ field, word })))));
+emulateCollection(ProductModel, storedProducts);
+emulateCollection(SearchWordModel, [...vocabulary.values()]);
+
+/** Starts the product routes of the API on a free port, like server.js mounts them. */
+function startApi(): Promise<Server> {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', requireServer('routes/productRoutes'));
+  return new Promise(resolveServer => {
+    const server = app.listen(0, () => resolveServer(server));
+  });
+}
+
+async function filterOnServer(server: Server, payload: FilterRequestPayload): Promise<FilterResponse> {
+  const { port } = server.address() as AddressInfo;
+  const response = await fetch(`http://localhost:${port}/api/products/filter`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
+  if (!response.ok) {
+    const { message }: { message: string } = await response.json();
+    throw new Error(`The API answered ${response.status}: ${message}`);
+  }
+  const body: FilterResponse = await response.json();
+  return { ...body, products: body.products.map(product => ({ ...product, id: mockIds.get(String(product.id)) ?? product.id })) };
+}
+
+/** Walks the pages of a scenario by following the cursors, forwards then backwards, and lists the ids met each way. */
+async function walkOnServer(server: Server, request: FilterRequestPayload): Promise<[string[], string[]]> {
+  const forwards: string[] = [];
+  let response = await filterOnServer(server, request);
+  forwards.push(...productIds(response.products));
+  for (let pages = 1; response.nextCursor && pages < MAX_WALK_PAGES; pages++) {
+    response = await filterOnServer(server, { ...request, cursor: response.nextCursor });
+    forwards.push(...productIds(response.products));
+  }
+  const backwards: string[] = productIds(response.products);
+  for (let pages = 1; response.previousCursor && pages < MAX_WALK_PAGES; pages++) {
+    response = await filterOnServer(server, { ...request, cursor: response.previousCursor });
+    backwards.unshift(...productIds(response.products));
+  }
+  return [forwards, backwards];
+}
+
+async function checkScenario(server: Server, scenario: FilteringScenario, searchOptions: SearchOptions): Promise<string[]> {
+  const catalog = new InMemoryCatalog(searchOptions);
+  catalog.loadProducts(PRODUCTS);
+  const request: FilterRequestPayload = {
+    searchTerm: scenario.searchTerm,
+    filters: toFilterPayload(scenario.filters),
+    currentPage: scenario.pageNumber,
+    pageSize: scenario.pageSize,
+    sort: scenario.sort,
+    facets: FACETS,
+    searchOptions,
+    cursor: null
+  };
+
+  const expected = catalog.applyFiltersAndSearch(scenario.searchTerm, scenario.filters, scenario.pageNumber, scenario.pageSize, scenario.sort, FACETS);
+  const actual = await filterOnServer(server, request);
+  const divergences = describeDivergences(expected, actual);
+  if (JSON.stringify(actual.facets) !== JSON.stringify(expected.facets)) {
+    divergences.push(`facets are ${JSON.stringify(actual.facets)} instead of ${JSON.stringify(expected.facets)}`);
+  }
+
+  const allIds = productIds(catalog.applyFiltersAndSearch(scenario.searchTerm, scenario.filters, 1, PRODUCTS.length, scenario.sort).products);
+  const [forwards, backwards] = await walkOnServer(server, { ...request, currentPage: 1, pageSize: WALK_PAGE_SIZE, facets: [] });
+  if (forwards.join() !== allIds.join()) {
+    divergences.push(`following the next cursors gives ${forwards.join(', ')} instead of ${allIds.join(', ')}`);
+  }
+  if (backwards.join() !== allIds.join()) {
+    divergences.push(`following the previous cursors gives ${backwards.join(', ')} instead of ${allIds.join(', ')}`);
+  }
+  return divergences;
+}
+
+async function main(): Promise<void> {
+  const server = await startApi();
+  let failures = 0;
+  try {
+    for (const searchOptions of SEARCH_MODES) {
+      for (const scenario of FILTERING_SCENARIOS) {
+        const divergences = await checkScenario(server, scenario, searchOptions);
+        const label = `${scenario.name} (${searchOptions.mode} search)`;
+        if (divergences.length > 0) {
+          failures++;
+          console.log(`✗ ${label}\n  ${divergences.join('\n  ')}`);
+        } else {
+          console.log(`✓ ${label}`);
+        }
+      }
+    }
+  } finally {
+    server.close();
+  }
+  if (failures > 0) {
+    throw new Error(`${failures} scenarios diverge between the API and the client-side strategy`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
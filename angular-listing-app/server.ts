@@ -19,10 +19,11 @@ export function app(): express.Express {
 
   // Example Express Rest API endpoints
   // server.get('/api/**', (req, res) => { });
-  // Serve static files from /browser
+  // Serve static files from /browser. Directory indexes are not served statically so that
+  // the listing is rendered by the Angular engine from the URL, including its query parameters.
   server.get('**', express.static(browserDistFolder, {
     maxAge: '1y',
-    index: 'index.html',
+    index: false,
   }));
 
   // All regular routes use the Angular engine
@@ -1,13 +1,13 @@
 import { Component } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ProductListComponent } from './products/components/product-list/product-list.component';
+import { RouterOutlet } from '@angular/router';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, ProductListComponent],
+  imports: [CommonModule, RouterOutlet],
   template: `
-    <app-product-list></app-product-list>
+    <router-outlet></router-outlet>
   `,
 })
 export class AppComponent {
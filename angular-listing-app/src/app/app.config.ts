@@ -2,9 +2,12 @@ import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
 import { provideRouter } from '@angular/router';
 
 import { routes } from './app.routes';
-import { provideClientHydration } from '@angular/platform-browser';
-import { provideHttpClient, withFetch } from '@angular/common/http';
+import { provideClientHydration, withHttpTransferCacheOptions } from '@angular/platform-browser';
+import { provideHttpClient, withFetch, withInterceptors } from '@angular/common/http';
+import { environment } from '../environment/environment';
+import { provideProductDataSource } from './core/data-sources/provide-product-data-source';
+import { mockBackendInterceptor } from './core/interceptors/mock-backend.interceptor';
 
 export const appConfig: ApplicationConfig = {
-  providers: [provideZoneChangeDetection({ eventCoalescing: true }), provideRouter(routes), provideClientHydration(), provideHttpClient(withFetch())],
+  providers: [provideZoneChangeDetection({ eventCoalescing: true }), provideRouter(routes), provideClientHydration(withHttpTransferCacheOptions({ includePostRequests: true })), provideHttpClient(withFetch(), withInterceptors(environment.mockBackend ? [mockBackendInterceptor] : [])), provideProductDataSource(environment.dataSource.type)],
 };
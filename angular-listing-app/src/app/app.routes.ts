@@ -1,3 +1,12 @@
 import { Routes } from '@angular/router';
+import { ProductListComponent } from './products/components/product-list/product-list.component';
+import { ProductDetailComponent } from './products/components/product-detail/product-detail.component';
+import { ProductAdminComponent } from './products/components/product-admin/product-admin.component';
 
-export const routes: Routes = [];
+export const routes: Routes = [
+  // The listing state (search, filters, sort, pagination) lives in the query parameters
+  { path: '', component: ProductListComponent },
+  { path: 'products/:id', component: ProductDetailComponent },
+  { path: 'admin', component: ProductAdminComponent },
+  { path: '**', redirectTo: '' }
+];
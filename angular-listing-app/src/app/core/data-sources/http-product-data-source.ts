@@ -0,0 +1,76 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, map } from 'rxjs';
+import { Product } from '../models/product.model';
+import { BulkUpsertResult, ProductChangeSet, ProductDraft, ProductUpsert } from '../models/product-draft.model';
+import { environment } from '../../../environment/environment';
+import { FilterRequestPayload } from '../../products/interfaces/filter-payload';
+import { FilterResponse } from '../../products/interfaces/filter-response';
+import { SuggestResponse } from '../../products/interfaces/suggest-response';
+import { ProductChanges } from '../../products/interfaces/product-changes';
+import { CatalogMetadata } from '../../products/interfaces/catalog-metadata';
+import { retryWithBackoff } from '../utils/http-retry';
+import { ProductDataSource } from './product-data-source';
+
+/**
+ * Reads the products from the API at `environment.apiUrl`.
+ * Requests failing for a transient reason (network failure, overloaded server) are retried
+ * with an exponential backoff before the error reaches the subscriber. Changes to the catalog
+ * are not retried, since a request failing on its way back may have been applied.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+class HttpProductDataSource implements ProductDataSource {
+    private apiUrl = environment.apiUrl;
+
+    constructor(private http: HttpClient) { }
+
+    getProducts(): Observable<Product[]> {
+        return this.http.get<Product[]>(this.apiUrl + '/products').pipe(retryWithBackoff());
+    }
+
+    getProduct(id: Product['id'] | string): Observable<Product> {
+        return this.http.get<Product>(this.apiUrl + '/products/' + encodeURIComponent(id)).pipe(retryWithBackoff());
+    }
+
+    getProductsCount(): Observable<number> {
+        return this.http.get<number>(this.apiUrl + '/products/count').pipe(retryWithBackoff());
+    }
+
+    getCatalogMetadata(): Observable<CatalogMetadata> {
+        return this.http.get<CatalogMetadata>(this.apiUrl + '/products/metadata').pipe(retryWithBackoff());
+    }
+
+    getFilteredProducts(payload: FilterRequestPayload): Observable<FilterResponse> {
+        return this.http.post<FilterResponse>(this.apiUrl + '/products/filter', payload).pipe(retryWithBackoff());
+    }
+
+    getSuggestions(term: string, limit: number): Observable<SuggestResponse> {
+        const params = new HttpParams().set('q', term).set('limit', limit);
+        return this.http.get<SuggestResponse>(this.apiUrl + '/products/suggest', { params }).pipe(retryWithBackoff());
+    }
+
+    getProductChanges(since: string | null): Observable<ProductChanges> {
+        const params = since ? new HttpParams().set('since', since) : undefined;
+        return this.http.get<ProductChanges>(this.apiUrl + '/products/changes', { params }).pipe(retryWithBackoff());
+    }
+
+    createProduct(draft: ProductDraft): Observable<Product> {
+        return this.http.post<Product>(this.apiUrl + '/products', draft);
+    }
+
+    updateProduct(id: Product['id'], changes: ProductChangeSet): Observable<Product> {
+        return this.http.put<Product>(this.apiUrl + '/products/' + encodeURIComponent(id), changes);
+    }
+
+    deleteProduct(id: Product['id']): Observable<void> {
+        return this.http.delete(this.apiUrl + '/products/' + encodeURIComponent(id)).pipe(map(() => undefined));
+    }
+
+    upsertProducts(products: ProductUpsert[]): Observable<BulkUpsertResult> {
+        return this.http.post<BulkUpsertResult>(this.apiUrl + '/products/bulk', { products });
+    }
+}
+
+export { HttpProductDataSource };
@@ -0,0 +1,86 @@
+import { Injectable } from '@angular/core';
+import { Observable, map, mergeMap, of, throwError } from 'rxjs';
+import { Product } from '../models/product.model';
+import { BulkUpsertResult, ProductChangeSet, ProductDraft, ProductUpsert } from '../models/product-draft.model';
+import { FilterRequestPayload } from '../../products/interfaces/filter-payload';
+import { FilterResponse } from '../../products/interfaces/filter-response';
+import { SuggestResponse } from '../../products/interfaces/suggest-response';
+import { ProductChanges } from '../../products/interfaces/product-changes';
+import { CatalogMetadata } from '../../products/interfaces/catalog-metadata';
+import { PRODUCTS } from '../../mocks/products.mock';
+import { MockProductBackend } from '../../mocks/mock-product-backend';
+import { ProductDataSource } from './product-data-source';
+
+/**
+ * Serves the mock catalog (`mocks/products.mock.ts`) from memory, with no HTTP request,
+ * filtering it like the API does (see `MockProductBackend`).
+ */
+@Injectable({
+    providedIn: 'root'
+})
+class InMemoryProductDataSource implements ProductDataSource {
+    private backend = new MockProductBackend(PRODUCTS);
+
+    getProducts(): Observable<Product[]> {
+        return this.loadBackend().pipe(map(backend => backend.getProducts()));
+    }
+
+    getProduct(id: Product['id'] | string): Observable<Product> {
+        return this.loadBackend().pipe(
+            mergeMap(backend => {
+                const product = backend.getProduct(id);
+                return product ? of(product) : throwError(() => new Error(`Product ${id} not found`));
+            })
+        );
+    }
+
+    getProductsCount(): Observable<number> {
+        return this.loadBackend().pipe(map(backend => backend.getProductsCount()));
+    }
+
+    getCatalogMetadata(): Observable<CatalogMetadata> {
+        return this.loadBackend().pipe(map(backend => backend.getMetadata()));
+    }
+
+    getFilteredProducts(payload: FilterRequestPayload): Observable<FilterResponse> {
+        return this.loadBackend().pipe(map(backend => backend.filterProducts(payload)));
+    }
+
+    getSuggestions(term: string, limit: number): Observable<SuggestResponse> {
+        return this.loadBackend().pipe(map(backend => backend.suggest(term, limit)));
+    }
+
+    getProductChanges(since: string | null): Observable<ProductChanges> {
+        return this.loadBackend().pipe(map(backend => backend.getChanges(since)));
+    }
+
+    createProduct(draft: ProductDraft): Observable<Product> {
+        return this.loadBackend().pipe(map(backend => backend.createProduct(draft)));
+    }
+
+    updateProduct(id: Product['id'], changes: ProductChangeSet): Observable<Product> {
+        return this.loadBackend().pipe(
+            mergeMap(backend => {
+                const product = backend.updateProduct(id, changes);
+                return product ? of(product) : throwError(() => new Error(`Product ${id} not found`));
+            })
+        );
+    }
+
+    deleteProduct(id: Product['id']): Observable<void> {
+        return this.loadBackend().pipe(map(backend => backend.deleteProduct(id)));
+    }
+
+    upsertProducts(products: ProductUpsert[]): Observable<BulkUpsertResult> {
+        return this.loadBackend().pipe(map(backend => backend.upsertProducts(products)));
+    }
+
+    /**
+     * Provides the backend emulating the API over the catalog.
+     */
+    protected loadBackend(): Observable<MockProductBackend> {
+        return of(this.backend);
+    }
+}
+
+export { InMemoryProductDataSource };
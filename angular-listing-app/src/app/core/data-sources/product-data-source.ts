@@ -0,0 +1,107 @@
+import { InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { Product } from '../models/product.model';
+import { BulkUpsertResult, ProductChangeSet, ProductDraft, ProductUpsert } from '../models/product-draft.model';
+import { FilterRequestPayload } from '../../products/interfaces/filter-payload';
+import { FilterResponse } from '../../products/interfaces/filter-response';
+import { SuggestResponse } from '../../products/interfaces/suggest-response';
+import { ProductChanges } from '../../products/interfaces/product-changes';
+import { CatalogMetadata } from '../../products/interfaces/catalog-metadata';
+import { HttpProductDataSource } from './http-product-data-source';
+
+/**
+ * Where the products come from: the API (`http`), the mock catalog held in memory (`memory`),
+ * or a static JSON file listing the products (`json`).
+ */
+export type ProductDataSourceType = 'http' | 'memory' | 'json';
+
+/**
+ * A source of products, mirroring the product endpoints of the API.
+ * `ProductService` reads the products from the source provided for `PRODUCT_DATA_SOURCE`.
+ */
+export interface ProductDataSource {
+    /**
+     * Retrieves the whole catalog.
+     * @returns An observable emitting the products.
+     */
+    getProducts(): Observable<Product[]>;
+
+    /**
+     * Retrieves a single product.
+     * @param id - The product id.
+     * @returns An observable emitting the product, or erroring when no product has this id.
+     */
+    getProduct(id: Product['id'] | string): Observable<Product>;
+
+    /**
+     * Retrieves the number of products of the catalog.
+     * @returns An observable emitting the count.
+     */
+    getProductsCount(): Observable<number>;
+
+    /**
+     * Describes the catalog without listing its products.
+     * @returns An observable emitting the number of products, the categories and the price distribution.
+     */
+    getCatalogMetadata(): Observable<CatalogMetadata>;
+
+    /**
+     * Filters, searches, sorts and paginates the catalog.
+     * @param payload - The request payload.
+     * @returns An observable emitting the page of matching products.
+     */
+    getFilteredProducts(payload: FilterRequestPayload): Observable<FilterResponse>;
+
+    /**
+     * Retrieves the product names and categories containing a search term.
+     * @param term - The search term typed so far.
+     * @param limit - The maximum number of product names.
+     * @returns An observable emitting the names and categories.
+     */
+    getSuggestions(term: string, limit: number): Observable<SuggestResponse>;
+
+    /**
+     * Retrieves the products changed since a catalog version.
+     * @param since - The version of the local copy of the catalog, `null` to get the whole catalog.
+     * @returns An observable emitting the changes and the new version.
+     */
+    getProductChanges(since: string | null): Observable<ProductChanges>;
+
+    /**
+     * Creates a product.
+     * @param draft - The attributes of the product.
+     * @returns An observable emitting the created product, with its id.
+     */
+    createProduct(draft: ProductDraft): Observable<Product>;
+
+    /**
+     * Updates some attributes of a product.
+     * @param id - The product id.
+     * @param changes - The changed attributes.
+     * @returns An observable emitting the updated product, or erroring when no product has this id.
+     */
+    updateProduct(id: Product['id'], changes: ProductChangeSet): Observable<Product>;
+
+    /**
+     * Deletes a product.
+     * @param id - The product id.
+     * @returns An observable completing once the product is deleted.
+     */
+    deleteProduct(id: Product['id']): Observable<void>;
+
+    /**
+     * Creates or updates products in one request, for catalog imports.
+     * @param products - The products to write, at most 500.
+     * @returns An observable emitting the number of products created and updated, and the rejected ones.
+     */
+    upsertProducts(products: ProductUpsert[]): Observable<BulkUpsertResult>;
+}
+
+/**
+ * The source `ProductService` reads the products from. Defaults to the API, see `provideProductDataSource`
+ * to select another one.
+ */
+export const PRODUCT_DATA_SOURCE = new InjectionToken<ProductDataSource>('PRODUCT_DATA_SOURCE', {
+    providedIn: 'root',
+    factory: () => inject(HttpProductDataSource)
+});
@@ -0,0 +1,26 @@
+import { Provider, Type } from '@angular/core';
+import { PRODUCT_DATA_SOURCE, ProductDataSource, ProductDataSourceType } from './product-data-source';
+import { HttpProductDataSource } from './http-product-data-source';
+import { InMemoryProductDataSource } from './in-memory-product-data-source';
+import { StaticJsonProductDataSource } from './static-json-product-data-source';
+
+const DATA_SOURCES: Record<ProductDataSourceType, Type<ProductDataSource>> = {
+    http: HttpProductDataSource,
+    memory: InMemoryProductDataSource,
+    json: StaticJsonProductDataSource
+};
+
+/**
+ * Selects the source `ProductService` reads the products from.
+ *
+ * @example
+ * ```typescript
+ * providers: [provideProductDataSource('memory')]
+ * ```
+ *
+ * @param type - The data source.
+ * @returns The provider of `PRODUCT_DATA_SOURCE`.
+ */
+export function provideProductDataSource(type: ProductDataSourceType): Provider {
+    return { provide: PRODUCT_DATA_SOURCE, useExisting: DATA_SOURCES[type] };
+}
@@ -0,0 +1,33 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, map, shareReplay } from 'rxjs';
+import { Product } from '../models/product.model';
+import { environment } from '../../../environment/environment';
+import { MockProductBackend } from '../../mocks/mock-product-backend';
+import { InMemoryProductDataSource } from './in-memory-product-data-source';
+
+/**
+ * Serves a catalog read from a static JSON file listing the products (`environment.dataSource.url`),
+ * e.g. an export of the database. The file is downloaded once, then filtered in memory like the API does.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+class StaticJsonProductDataSource extends InMemoryProductDataSource {
+    private backendRequest: Observable<MockProductBackend>;
+
+    constructor(private http: HttpClient) {
+        super();
+        this.backendRequest = this.http.get<Product[]>(environment.dataSource.url).pipe(
+            map(products => new MockProductBackend(products)),
+            // A failed download is not kept, so that the next request tries again
+            shareReplay(1)
+        );
+    }
+
+    protected override loadBackend(): Observable<MockProductBackend> {
+        return this.backendRequest;
+    }
+}
+
+export { StaticJsonProductDataSource };
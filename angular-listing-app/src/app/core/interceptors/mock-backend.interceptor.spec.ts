@@ -0,0 +1,60 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { mockBackendInterceptor } from './mock-backend.interceptor';
+import { environment } from '../../../environment/environment';
+import { PRODUCTS } from '../../mocks/products.mock';
+import { FilterResponse } from '../../products/interfaces/filter-response';
+
+describe('mockBackendInterceptor', () => {
+  let http: HttpClient;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([mockBackendInterceptor]))]
+    });
+    http = TestBed.inject(HttpClient);
+  });
+
+  it('should serve the mock catalog and its count', async () => {
+    expect(await firstValueFrom(http.get(environment.apiUrl + '/products'))).toEqual(PRODUCTS);
+    expect(await firstValueFrom(http.get(environment.apiUrl + '/products/count'))).toBe(PRODUCTS.length);
+  });
+
+  it('should serve a single product, or a 404 when it does not exist', async () => {
+    expect(await firstValueFrom(http.get(environment.apiUrl + '/products/' + PRODUCTS[0].id))).toEqual(PRODUCTS[0]);
+    await expectAsync(firstValueFrom(http.get(environment.apiUrl + '/products/missing')))
+      .toBeRejectedWith(jasmine.objectContaining({ status: 404 }));
+  });
+
+  it('should filter, search and paginate the mock catalog', async () => {
+    const response = await firstValueFrom(http.post<FilterResponse>(environment.apiUrl + '/products/filter', {
+      searchTerm: 'shoes',
+      currentPage: 1,
+      pageSize: 5,
+      filters: { logic: 'and', filters: [{ key: 'category', values: ['Fashion'], type: 'multiselect', logic: 'or' }] }
+    }));
+
+    expect(response.products.length).toBeGreaterThan(0);
+    expect(response.products.every(product => product.category === 'Fashion')).toBeTrue();
+    expect(response.totalItems).toBe(response.products.length);
+  });
+
+  it('should keep the changes to the catalog for the application that made them only', async () => {
+    const { id, ...draft } = PRODUCTS[0];
+    await firstValueFrom(http.post(environment.apiUrl + '/products', { ...draft, name: 'Added product' }));
+    expect(await firstValueFrom(http.get(environment.apiUrl + '/products/count'))).toBe(PRODUCTS.length + 1);
+
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([mockBackendInterceptor]))]
+    });
+
+    expect(await firstValueFrom(TestBed.inject(HttpClient).get(environment.apiUrl + '/products/count'))).toBe(PRODUCTS.length);
+  });
+
+  it('should answer malformed payloads with a 400', async () => {
+    await expectAsync(firstValueFrom(http.post(environment.apiUrl + '/products/filter', { filters: { logic: 'and', filters: [null] } })))
+      .toBeRejectedWith(jasmine.objectContaining({ status: 400 }));
+  });
+});
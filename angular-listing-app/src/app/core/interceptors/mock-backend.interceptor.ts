@@ -0,0 +1,100 @@
+import { InjectionToken, inject } from '@angular/core';
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { environment } from '../../../environment/environment';
+import { PRODUCTS } from '../../mocks/products.mock';
+import { MockProductBackend } from '../../mocks/mock-product-backend';
+import { FilterRequestPayload } from '../../products/interfaces/filter-payload';
+import { ProductChangeSet, ProductDraft, ProductUpsert } from '../models/product-draft.model';
+
+/**
+ * The backend answering the requests intercepted by `mockBackendInterceptor`, created with the mock catalog
+ * by each application (e.g. each server-side rendered request, or each test), so that the changes made to
+ * the catalog are kept for the session without leaking into other ones.
+ */
+export const MOCK_PRODUCT_BACKEND = new InjectionToken<MockProductBackend>('MOCK_PRODUCT_BACKEND', {
+  providedIn: 'root',
+  factory: () => new MockProductBackend(PRODUCTS)
+});
+
+/**
+ * Matches `GET`, `PUT` and `DELETE /products/:id`, capturing the method and the id.
+ */
+const PRODUCT_ENDPOINT = /^(GET|PUT|DELETE) \/products\/([^/?]+)$/;
+
+/**
+ * Answers the requests to the product endpoints of the API from the mock catalog (`mocks/products.mock.ts`),
+ * so that the application, with any filtering strategy, runs with no backend during development and tests.
+ * `GET /products`, `/products/:id`, `/products/count`, `/products/metadata`, `/products/suggest`, `/products/changes`,
+ * `POST /products/filter`, and the `POST /products`, `POST /products/bulk`, `PUT` and `DELETE /products/:id` changes, kept for the session,
+ * are emulated by `MockProductBackend` (see `MOCK_PRODUCT_BACKEND`); other requests are sent as usual. Payloads are serialized to JSON and
+ * back, so that values JSON cannot carry (`NaN`, `undefined`) reach the mock as they would reach the API.
+ * Malformed payloads are answered with a `400`, like the API does.
+ *
+ * @example
+ * ```typescript
+ * provideHttpClient(withInterceptors([mockBackendInterceptor]))
+ * ```
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (request, next) => {
+  if (!request.url.startsWith(environment.apiUrl + '/')) {
+    return next(request);
+  }
+  try {
+    return respond(request, inject(MOCK_PRODUCT_BACKEND)) ?? next(request);
+  } catch (error) {
+    return throwError(() => new HttpErrorResponse({
+      status: 400,
+      statusText: 'Bad Request',
+      url: request.url,
+      error: { message: error instanceof Error ? error.message : 'Invalid request' }
+    }));
+  }
+};
+
+/**
+ * Emulates an endpoint of the API.
+ *
+ * @param request - The request.
+ * @param mock - The backend emulating the API.
+ * @returns An observable emitting the response, or `null` when the endpoint is not emulated.
+ */
+function respond(request: HttpRequest<unknown>, mock: MockProductBackend): Observable<HttpResponse<unknown>> | null {
+  const endpoint = `${request.method} ${request.url.slice(environment.apiUrl.length)}`;
+  const ok = (body: unknown, status = 200) => of(new HttpResponse({ status, statusText: status === 201 ? 'Created' : 'OK', url: request.url, body }));
+  const payload = () => JSON.parse(JSON.stringify(request.body ?? null));
+  switch (endpoint) {
+    case 'GET /products':
+      return ok(mock.getProducts());
+    case 'GET /products/count':
+      return ok(mock.getProductsCount());
+    case 'GET /products/metadata':
+      return ok(mock.getMetadata());
+    case 'GET /products/suggest':
+      return ok(mock.suggest(request.params.get('q')?.trim() ?? '', Number(request.params.get('limit'))));
+    case 'GET /products/changes':
+      return ok(mock.getChanges(request.params.get('since')));
+    case 'POST /products/filter':
+      return ok(mock.filterProducts(payload() as FilterRequestPayload));
+    case 'POST /products':
+      return ok(mock.createProduct(payload() as ProductDraft), 201);
+    case 'POST /products/bulk':
+      return ok(mock.upsertProducts((payload() as { products: ProductUpsert[] } | null)?.products ?? []));
+  }
+  const [, method, encodedId] = endpoint.match(PRODUCT_ENDPOINT) ?? [];
+  if (encodedId === undefined) {
+    return null;
+  }
+  const id = decodeURIComponent(encodedId);
+  if (method === 'DELETE') {
+    mock.deleteProduct(id);
+    return ok({ message: 'Product deleted' });
+  }
+  const product = method === 'PUT' ? mock.updateProduct(id, payload() as ProductChangeSet) : mock.getProduct(id);
+  return product ? ok(product) : throwError(() => new HttpErrorResponse({
+    status: 404,
+    statusText: 'Not Found',
+    url: request.url,
+    error: { error: 'Product not found' }
+  }));
+}
@@ -0,0 +1,19 @@
+import { FilterGroupLogic } from "./filter-logic.model";
+import { ProductFilter } from "./product-filter.model";
+
+/**
+ * A group of filter expressions combined with a logical operator.
+ * 
+ * @interface FilterGroup
+ * @property {FilterGroupLogic} logic - How the members are combined (`and`, `or`, or `not` to negate their conjunction).
+ * @property {FilterExpression[]} filters - The members of the group, either filters or nested groups.
+ */
+export interface FilterGroup {
+    logic: FilterGroupLogic;
+    filters: FilterExpression[];
+}
+
+/**
+ * A node of a filter expression tree: either a single product filter (leaf) or a group.
+ */
+export type FilterExpression = FilterGroup | ProductFilter;
@@ -0,0 +1,11 @@
+/**
+ * Logic used to combine the values of a single filter:
+ * `or` matches when any of the values matches, `and` only when all of them match.
+ */
+export type FilterLogic = 'and' | 'or';
+
+/**
+ * Logic used to combine the members of a filter group.
+ * `not` negates the conjunction of the group members.
+ */
+export type FilterGroupLogic = FilterLogic | 'not';
@@ -1,3 +1,4 @@
+import { FilterLogic } from "./filter-logic.model";
 import { FilterType } from "./filter-type.model";
 import { PriceRange } from "./price-range.model";
 /**
@@ -10,6 +11,7 @@ import { PriceRange } from "./price-range.model";
  * @property {number | null} greater - A number indicating the greater-than condition, can be null.
  * @property {number | null} smaller - A number indicating the smaller-than condition, can be null.
  * @property {{ [key: string]: boolean } | null} multiselect - A map for multiselect options, can be null.
+ * @property {FilterLogic} [logic] - Whether any (`or`, default) or all (`and`) of the selected values must match.
  */
 export interface Filter{
     type: FilterType;
@@ -18,4 +20,5 @@ export interface Filter{
     greater: number | null;
     smaller: number | null;
     multiselect: { [key: string]: boolean } | null;
+    logic?: FilterLogic;
 }
\ No newline at end of file
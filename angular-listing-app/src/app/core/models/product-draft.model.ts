@@ -0,0 +1,27 @@
+import { Product } from './product.model';
+
+/**
+ * The attributes of a product being created, before the server assigns its id.
+ */
+export type ProductDraft = Omit<Product, 'id'>;
+
+/**
+ * The attributes of a product being edited: only the changed ones are sent to the server.
+ */
+export type ProductChangeSet = Partial<ProductDraft>;
+
+/**
+ * A product written by a bulk import: with an id it updates that product, otherwise the product
+ * of the same name, ignoring case, or it is created.
+ */
+export type ProductUpsert = ProductDraft & { id?: Product['id'] | string };
+
+/**
+ * The outcome of a bulk import request. A rejected product is identified by its index in the request and,
+ * when an earlier product of the request writes the same product, `duplicateOf` gives the index of that one.
+ */
+export interface BulkUpsertResult {
+  created: number;
+  updated: number;
+  failed: { index: number; message: string; duplicateOf?: number }[];
+}
@@ -0,0 +1,14 @@
+import { Filter } from "./filter.model";
+import { Product } from "./product.model";
+
+/**
+ * Binds a filter to the product attribute it is evaluated against.
+ * 
+ * @interface ProductFilter
+ * @property {keyof Product} key - The product attribute the filter applies to (e.g. `category`, `price`).
+ * @property {Filter} value - The filter definition to evaluate against that attribute.
+ */
+export interface ProductFilter {
+    key: keyof Product;
+    value: Filter;
+}
@@ -7,6 +7,7 @@
  * @property {string} category - The category to which the product belongs.
  * @property {number} price - The price of the product.
  * @property {string} description - A brief description of the product.
+ * @property {string[]} tags - The labels of the product, e.g. `wireless`; unlike the category, a product has any number of them.
  */
 export interface Product {
     id: number;
@@ -15,5 +16,6 @@ export interface Product {
     price: number;
     description: string;
     imgUrl?: string;
+    tags?: string[];
   }
   
\ No newline at end of file
@@ -0,0 +1,19 @@
+/**
+ * How the search term is matched against products:
+ * `exact` looks for the whole term as a case-insensitive substring,
+ * `fuzzy` matches each word of the term while tolerating typos and accents.
+ */
+export type SearchMode = 'exact' | 'fuzzy';
+
+/**
+ * Options controlling how products are searched.
+ * 
+ * @interface SearchOptions
+ * @property {SearchMode} mode - The matching mode.
+ * @property {number} threshold - In fuzzy mode, the number of typos tolerated per character of a
+ * search word (e.g. `0.25` tolerates one typo in words of 4 to 7 characters, two in words of 8 to 11).
+ */
+export interface SearchOptions {
+    mode: SearchMode;
+    threshold: number;
+}
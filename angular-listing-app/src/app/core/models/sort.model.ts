@@ -0,0 +1,37 @@
+import { Product } from "./product.model";
+
+/**
+ * Direction in which a sort key orders products.
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * A product attribute to sort on, or `relevance` to rank by how well products match the search term.
+ */
+export type SortField = keyof Product | 'relevance';
+
+/**
+ * A single key of a (possibly multi-key) sort.
+ * 
+ * @interface SortKey
+ * @property {SortField} field - The attribute to sort on.
+ * @property {SortDirection} direction - The sort direction.
+ */
+export interface SortKey {
+    field: SortField;
+    direction: SortDirection;
+}
+
+/**
+ * A named sort offered to the user.
+ * 
+ * @interface SortOption
+ * @property {string} id - A stable identifier for the option.
+ * @property {string} label - The label displayed to the user.
+ * @property {SortKey[]} keys - The sort keys, in priority order.
+ */
+export interface SortOption {
+    id: string;
+    label: string;
+    keys: SortKey[];
+}
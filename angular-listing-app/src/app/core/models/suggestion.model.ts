@@ -0,0 +1,18 @@
+/**
+ * Where a search suggestion comes from: a product name, a category, or a query the user searched before.
+ */
+export type SuggestionType = 'product' | 'category' | 'recent';
+
+/**
+ * Represents a suggestion displayed below the search bar while typing.
+ * 
+ * @interface Suggestion
+ * @property {SuggestionType} type - Where the suggestion comes from.
+ * @property {string} label - The text displayed in the dropdown.
+ * @property {string} query - The search query applied when the suggestion is picked.
+ */
+export interface Suggestion {
+    type: SuggestionType;
+    label: string;
+    query: string;
+}
@@ -1,14 +1,18 @@
-import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, of } from 'rxjs';
+import { Inject, Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
 import { Product } from '../models/product.model';
-import { PRODUCTS } from '../../mocks/products.mock';
-import { environment } from '../../../environment/environment';
+import { BulkUpsertResult, ProductChangeSet, ProductDraft, ProductUpsert } from '../models/product-draft.model';
 import { FilterRequestPayload } from '../../products/interfaces/filter-payload';
+import { FilterResponse } from '../../products/interfaces/filter-response';
+import { SuggestResponse } from '../../products/interfaces/suggest-response';
+import { ProductChanges } from '../../products/interfaces/product-changes';
+import { CatalogMetadata } from '../../products/interfaces/catalog-metadata';
+import { PRODUCT_DATA_SOURCE, ProductDataSource } from '../data-sources/product-data-source';
 
 /**
  * @fileoverview ProductService is responsible for fetching product data.
- * It can either return mock data or make real API calls to fetch products.
+ * It reads the products from the data source provided for `PRODUCT_DATA_SOURCE`: the API by default,
+ * or mock data held in memory or read from a static JSON file (see `provideProductDataSource`).
  * 
  * @example
  * // Using ProductService to get products
@@ -28,26 +32,25 @@ import { FilterRequestPayload } from '../../products/interfaces/filter-payload';
     providedIn: 'root'
 })
 class ProductService {
-    private apiUrl = environment.apiUrl;
-    constructor(private http: HttpClient) { }
+    constructor(@Inject(PRODUCT_DATA_SOURCE) private dataSource: ProductDataSource) { }
 
-    // For mock data
     /**
      * Retrieves a list of products.
      *
      * @returns {Observable<Product[]>} An observable that emits an array of products.
      */
-    // public getProducts(): Observable<Product[]> {
-    //     return of(PRODUCTS);
-    // }
+    getProducts(): Observable<Product[]> {
+        return this.dataSource.getProducts();
+    }
 
     /**
-     * Retrieves a list of products.
+     * Retrieves a single product, e.g. for its detail page.
      *
-     * @returns {Observable<Product[]>} An observable that emits an array of products.
+     * @param {Product['id'] | string} id The product id, e.g. read from the URL.
+     * @returns {Observable<Product>} An observable that emits the product, or errors when no product has this id.
      */
-    getProducts(): Observable<Product[]> {
-      return this.http.get<Product[]>(this.apiUrl +  '/products');
+    getProduct(id: Product['id'] | string): Observable<Product> {
+        return this.dataSource.getProduct(id);
     }
 
     /**
@@ -56,17 +59,88 @@ class ProductService {
      * @returns {Observable<number>} An observable that emits the count of products.
      */
     getProductsCount(): Observable<number> {
-        return this.http.get<number>(this.apiUrl + '/products/count');
+        return this.dataSource.getProductsCount();
+    }
+
+    /**
+     * Retrieves the number of products, the categories and the price distribution, without the products.
+     *
+     * @returns {Observable<CatalogMetadata>} An observable that emits the catalog metadata.
+     */
+    getCatalogMetadata(): Observable<CatalogMetadata> {
+        return this.dataSource.getCatalogMetadata();
+    }
+
+    /**
+     * Retrieves the products created, updated or deleted since a catalog version.
+     *
+     * @param {string | null} since The version of the local copy of the catalog, `null` to get the whole catalog.
+     * @returns {Observable<ProductChanges>} An observable that emits the changes and the new catalog version.
+     */
+    getProductChanges(since: string | null): Observable<ProductChanges> {
+        return this.dataSource.getProductChanges(since);
     }
 
     /**
      * Retrieves a list of filtered products.
      *
      * @param {FilterRequestPayload} payload The payload object.
-     * @returns {Observable<{products: Product[], totalItems: number}>} An observable that emits an object containing the products and total items.
+     * @returns {Observable<FilterResponse>} An observable that emits an object containing the products and total items.
+     */
+    getFilteredProducts(payload: FilterRequestPayload): Observable<FilterResponse> {
+        return this.dataSource.getFilteredProducts(payload);
+    }
+
+    /**
+     * Retrieves the product names and categories matching a search term.
+     *
+     * @param {string} term The search term typed so far.
+     * @param {number} limit The maximum number of product names.
+     * @returns {Observable<SuggestResponse>} An observable that emits the matching names and categories.
+     */
+    getSuggestions(term: string, limit: number): Observable<SuggestResponse> {
+        return this.dataSource.getSuggestions(term, limit);
+    }
+
+    /**
+     * Creates a product.
+     *
+     * @param {ProductDraft} draft The attributes of the product.
+     * @returns {Observable<Product>} An observable that emits the created product, with the id assigned by the server.
+     */
+    createProduct(draft: ProductDraft): Observable<Product> {
+        return this.dataSource.createProduct(draft);
+    }
+
+    /**
+     * Updates some attributes of a product.
+     *
+     * @param {Product['id']} id The product id.
+     * @param {ProductChangeSet} changes The changed attributes.
+     * @returns {Observable<Product>} An observable that emits the updated product.
+     */
+    updateProduct(id: Product['id'], changes: ProductChangeSet): Observable<Product> {
+        return this.dataSource.updateProduct(id, changes);
+    }
+
+    /**
+     * Deletes a product.
+     *
+     * @param {Product['id']} id The product id.
+     * @returns {Observable<void>} An observable that completes once the product is deleted.
+     */
+    deleteProduct(id: Product['id']): Observable<void> {
+        return this.dataSource.deleteProduct(id);
+    }
+
+    /**
+     * Creates or updates products in one request, for catalog imports.
+     *
+     * @param {ProductUpsert[]} products The products to write, at most 500.
+     * @returns {Observable<BulkUpsertResult>} An observable that emits the number of products created and updated, and the rejected ones.
      */
-    getFilteredProducts(payload: FilterRequestPayload): Observable<{products: Product[], totalItems: number}> {
-        return this.http.post<{products: Product[], totalItems: number}>(this.apiUrl + '/products/filter', payload);
+    upsertProducts(products: ProductUpsert[]): Observable<BulkUpsertResult> {
+        return this.dataSource.upsertProducts(products);
     }
 }
 
@@ -0,0 +1,62 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+/**
+ * @fileoverview RecentSearchesService remembers the queries the user searched,
+ * so that they can be suggested again.
+ * 
+ * @class
+ * @description The queries are kept in the local storage, most recent first and without duplicates.
+ * Nothing is stored during server-side rendering, or when the storage is unavailable.
+ * 
+ * @injectable
+ * @providedIn 'root'
+ */
+@Injectable({
+    providedIn: 'root'
+})
+class RecentSearchesService {
+    private static readonly STORAGE_KEY = 'recentSearches';
+    private static readonly MAX_QUERIES = 10;
+
+    constructor(@Inject(PLATFORM_ID) private platformId: object) { }
+
+    /**
+     * Retrieves the recent queries.
+     *
+     * @returns {string[]} The recent queries, most recent first.
+     */
+    getAll(): string[] {
+        if (!isPlatformBrowser(this.platformId)) {
+            return [];
+        }
+        try {
+            const queries: unknown = JSON.parse(localStorage.getItem(RecentSearchesService.STORAGE_KEY) ?? '[]');
+            return Array.isArray(queries) ? queries.filter((query): query is string => typeof query === 'string') : [];
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Records a searched query, moving it first if it was already recorded.
+     * Blank queries are ignored.
+     *
+     * @param {string} query The searched query.
+     */
+    add(query: string): void {
+        const trimmed = query.trim();
+        if (!trimmed || !isPlatformBrowser(this.platformId)) {
+            return;
+        }
+        const queries = [trimmed, ...this.getAll().filter(recent => recent !== trimmed)]
+            .slice(0, RecentSearchesService.MAX_QUERIES);
+        try {
+            localStorage.setItem(RecentSearchesService.STORAGE_KEY, JSON.stringify(queries));
+        } catch {
+            // The storage is full or disabled, recent queries are simply not remembered
+        }
+    }
+}
+
+export { RecentSearchesService };
@@ -0,0 +1,50 @@
+import { defer, of, throwError } from 'rxjs';
+import { backoffDelay, isTransientError, retryWithBackoff } from './http-retry';
+
+describe('http retry', () => {
+  it('should only consider network failures, timeouts and temporary server failures transient', () => {
+    expect(isTransientError({ status: 0 })).toBeTrue();
+    expect(isTransientError({ status: 503 })).toBeTrue();
+    expect(isTransientError({ status: 429 })).toBeTrue();
+    expect(isTransientError({ status: 400 })).toBeFalse();
+    expect(isTransientError({ status: 404 })).toBeFalse();
+    expect(isTransientError(new Error('boom'))).toBeFalse();
+    expect(isTransientError(null)).toBeFalse();
+  });
+
+  it('should double the delay with every retry', () => {
+    expect([1, 2, 3].map(retryCount => backoffDelay(retryCount, 100))).toEqual([100, 200, 400]);
+  });
+
+  it('should retry transient failures until the request succeeds', (done) => {
+    let attempts = 0;
+    const request = defer(() => ++attempts < 3 ? throwError(() => ({ status: 503 })) : of('products'));
+
+    request.pipe(retryWithBackoff(3, 1)).subscribe(value => {
+      expect(value).toBe('products');
+      expect(attempts).toBe(3);
+      done();
+    });
+  });
+
+  it('should pass on other failures and the failure of the last attempt', (done) => {
+    let attempts = 0;
+    const badRequest = defer(() => { attempts++; return throwError(() => ({ status: 400 })); });
+
+    badRequest.pipe(retryWithBackoff(3, 1)).subscribe({
+      error: error => {
+        expect(error.status).toBe(400);
+        expect(attempts).toBe(1);
+
+        attempts = 0;
+        const unavailable = defer(() => { attempts++; return throwError(() => ({ status: 0 })); });
+        unavailable.pipe(retryWithBackoff(2, 1)).subscribe({
+          error: () => {
+            expect(attempts).toBe(3);
+            done();
+          }
+        });
+      }
+    });
+  });
+});
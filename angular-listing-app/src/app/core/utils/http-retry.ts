@@ -0,0 +1,49 @@
+import type { HttpErrorResponse } from '@angular/common/http';
+import { MonoTypeOperatorFunction, retry, throwError, timer } from 'rxjs';
+
+/** The number of times a failed request is retried. */
+export const MAX_RETRIES = 3;
+
+/** The delay before the first retry, in milliseconds. It doubles with every retry. */
+export const RETRY_BASE_DELAY = 500;
+
+/** HTTP statuses worth retrying: timeouts, rate limiting and temporary server failures. */
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Checks whether a request failed for a reason that may go away by itself, such as a network
+ * failure (status `0`) or an overloaded server. Client errors like a malformed filter are not transient.
+ *
+ * @param error - The error the request failed with.
+ * @returns `true` when retrying the request may succeed.
+ */
+export function isTransientError(error: unknown): boolean {
+  const status = (error as Partial<Pick<HttpErrorResponse, 'status'>> | null)?.status;
+  return typeof status === 'number' && (status === 0 || TRANSIENT_STATUSES.has(status));
+}
+
+/**
+ * Computes the delay before a retry: `baseDelay`, then twice as long for every further retry.
+ *
+ * @param retryCount - The number of the retry, starting at 1.
+ * @param baseDelay - The delay before the first retry, in milliseconds.
+ * @returns The delay, in milliseconds.
+ */
+export function backoffDelay(retryCount: number, baseDelay = RETRY_BASE_DELAY): number {
+  return baseDelay * 2 ** (retryCount - 1);
+}
+
+/**
+ * Resubscribes to a failed request with an exponential backoff when the failure is transient.
+ * Other errors, and the error of the last attempt, are passed on to the subscriber.
+ *
+ * @param maxRetries - The number of retries.
+ * @param baseDelay - The delay before the first retry, in milliseconds.
+ * @returns The operator.
+ */
+export function retryWithBackoff<T>(maxRetries = MAX_RETRIES, baseDelay = RETRY_BASE_DELAY): MonoTypeOperatorFunction<T> {
+  return retry<T>({
+    count: maxRetries,
+    delay: (error, retryCount) => isTransientError(error) ? timer(backoffDelay(retryCount, baseDelay)) : throwError(() => error)
+  });
+}
@@ -0,0 +1,48 @@
+import { LruCache } from './lru-cache';
+
+describe('LruCache', () => {
+  let time: number;
+  let cache: LruCache<string>;
+
+  beforeEach(() => {
+    time = 0;
+    cache = new LruCache<string>(2, 1000, () => time);
+  });
+
+  it('should evict the least recently used value when full', () => {
+    cache.set('a', 'A');
+    cache.set('b', 'B');
+    expect(cache.get('a')).toBe('A');
+
+    cache.set('c', 'C');
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe('A');
+    expect(cache.get('c')).toBe('C');
+    expect(cache.size).toBe(2);
+  });
+
+  it('should expire values after the TTL, even when rewritten keys are read again', () => {
+    cache.set('a', 'A');
+    time = 600;
+    cache.set('a', 'A2');
+    time = 1200;
+    expect(cache.get('a')).toBe('A2');
+
+    time = 1600;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should remove values by key', () => {
+    cache.set('page:1', 'A');
+    cache.set('page:2', 'B');
+
+    cache.deleteWhere(key => key.endsWith('2'));
+    expect(cache.get('page:1')).toBe('A');
+    expect(cache.get('page:2')).toBeUndefined();
+
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+});
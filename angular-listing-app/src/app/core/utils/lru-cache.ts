@@ -0,0 +1,74 @@
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * An in-memory cache keeping the `maxEntries` most recently used values for `ttl` milliseconds.
+ * Reading a value makes it the most recently used; the least recently used value is evicted
+ * when the cache is full.
+ */
+export class LruCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+
+  /**
+   * @param maxEntries - The maximum number of values kept.
+   * @param ttl - How long a value is kept, in milliseconds.
+   * @param now - The clock, replaceable in tests.
+   */
+  constructor(private maxEntries: number, private ttl: number, private now: () => number = Date.now) { }
+
+  /** The number of values in the cache, including expired values not read since they expired. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Reads a value and marks it as the most recently used.
+   *
+   * @param key - The key of the value.
+   * @returns The value, or `undefined` when it is missing or expired.
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Stores a value, evicting the least recently used value when the cache is full.
+   *
+   * @param key - The key of the value.
+   * @param value - The value.
+   */
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + this.ttl });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Removes the values whose key matches a predicate.
+   *
+   * @param predicate - Selects the keys to remove.
+   */
+  deleteWhere(predicate: (key: string) => boolean): void {
+    [...this.entries.keys()].filter(predicate).forEach(key => this.entries.delete(key));
+  }
+
+  /**
+   * Removes every value.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
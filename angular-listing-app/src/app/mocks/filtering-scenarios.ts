@@ -0,0 +1,112 @@
+import { Filter } from '../core/models/filter.model';
+import { FilterLogic } from '../core/models/filter-logic.model';
+import { FilterExpression } from '../core/models/filter-expression.model';
+import { Product } from '../core/models/product.model';
+import { SortKey } from '../core/models/sort.model';
+import { FilterResponse } from '../products/interfaces/filter-response';
+
+/**
+ * A listing query that every filtering strategy must answer with the same page of products.
+ */
+export interface FilteringScenario {
+  name: string;
+  searchTerm: string;
+  filters: FilterExpression;
+  pageNumber: number;
+  pageSize: number;
+  sort: SortKey[];
+}
+
+const NO_FILTER: Filter = { type: 'value', value: null, range: null, greater: null, smaller: null, multiselect: null };
+
+const categories = (options: string[]): FilterExpression =>
+  ({ key: 'category', value: { ...NO_FILTER, type: 'multiselect', multiselect: Object.fromEntries(options.map(option => [option, true])), logic: 'or' } });
+const tags = (options: string[], logic: FilterLogic): FilterExpression =>
+  ({ key: 'tags', value: { ...NO_FILTER, type: 'multiselect', multiselect: Object.fromEntries(options.map(option => [option, true])), logic } });
+const priceRange = (min: number | null, max: number | null): FilterExpression =>
+  ({ key: 'price', value: { ...NO_FILTER, type: 'range', range: { min, max } } });
+const priceAbove = (greater: number): FilterExpression => ({ key: 'price', value: { ...NO_FILTER, type: 'greater', greater } });
+const priceBelow = (smaller: number): FilterExpression => ({ key: 'price', value: { ...NO_FILTER, type: 'smaller', smaller } });
+const nameContains = (value: string): FilterExpression => ({ key: 'name', value: { ...NO_FILTER, value } });
+const all = (...filters: FilterExpression[]): FilterExpression => ({ logic: 'and', filters });
+
+const scenario = (name: string, query: Partial<Omit<FilteringScenario, 'name'>>): FilteringScenario =>
+  ({ name, searchTerm: '', filters: all(), pageNumber: 1, pageSize: 10, sort: [], ...query });
+
+/**
+ * Search terms, filter combinations, sorts and page edges run against every filtering strategy over
+ * the mock catalog (`mocks/products.mock.ts`), to check that they return the same products.
+ */
+export const FILTERING_SCENARIOS: FilteringScenario[] = [
+  scenario('the first page of the whole catalog', {}),
+  scenario('a middle page', { pageNumber: 3, pageSize: 7 }),
+  scenario('the last, partial page', { pageNumber: 5, pageSize: 20 }),
+  scenario('a page past the end', { pageNumber: 12, pageSize: 10 }),
+  scenario('a page larger than the catalog', { pageSize: 500 }),
+  scenario('a search term', { searchTerm: 'phone' }),
+  scenario('a search term with a typo', { searchTerm: 'hedphones' }),
+  scenario('a search term in another case, with spaces', { searchTerm: '  ELECTRONICS ' }),
+  scenario('several search words', { searchTerm: 'running shoes' }),
+  scenario('a search term matching nothing', { searchTerm: 'zzzzzz' }),
+  scenario('any of several categories', { filters: all(categories(['Fashion', 'Electronics'])) }),
+  scenario('any of several tags', { filters: all(tags(['smart', 'fitness'], 'or')) }),
+  scenario('all of several tags', { filters: all(tags(['smart', 'wireless'], 'and')) }),
+  scenario('a price range', { filters: all(priceRange(50, 300)) }),
+  scenario('a price range with only a minimum', { filters: all(priceRange(500, null)) }),
+  scenario('a price range with only a maximum', { filters: all(priceRange(null, 50)) }),
+  scenario('a price range with an invalid bound', { filters: all(priceRange(Number.NaN, 100)) }),
+  scenario('an empty price range', { filters: all(priceRange(300, 100)) }),
+  scenario('prices above and below bounds', { filters: { logic: 'or', filters: [priceAbove(900), priceBelow(20)] } }),
+  scenario('a value on a text attribute', { filters: all(nameContains('shoe')) }),
+  scenario('a negated group', { filters: { logic: 'not', filters: [categories(['Fashion']), priceBelow(100)] } }),
+  scenario('nested groups', { filters: all({ logic: 'or', filters: [categories(['Home Appliances']), nameContains('watch')] }, { logic: 'not', filters: [priceAbove(500)] }) }),
+  scenario('a sort by descending price', { sort: [{ field: 'price', direction: 'desc' }], pageNumber: 2 }),
+  scenario('a sort by name', { sort: [{ field: 'name', direction: 'asc' }], pageSize: 25 }),
+  scenario('a sort on several keys', { sort: [{ field: 'category', direction: 'asc' }, { field: 'price', direction: 'asc' }], pageNumber: 2, pageSize: 15 }),
+  scenario('a sort by relevance', { searchTerm: 'smart', sort: [{ field: 'relevance', direction: 'desc' }] }),
+  scenario('a search, filters, sort and page together', {
+    searchTerm: 'e',
+    filters: all(categories(['Electronics', 'Home Appliances']), priceRange(20, null)),
+    sort: [{ field: 'price', direction: 'asc' }],
+    pageNumber: 2,
+    pageSize: 5
+  })
+];
+
+/**
+ * Lists how a response differs from the expected one: in the total number of matching products,
+ * in the products of the page, or in their order.
+ *
+ * @param expected - The response of the reference strategy.
+ * @param actual - The response of the strategy checked.
+ * @returns The divergences, empty when both responses hold the same products in the same order.
+ */
+export function describeDivergences(expected: FilterResponse, actual: FilterResponse): string[] {
+  const divergences: string[] = [];
+  if (expected.totalItems !== actual.totalItems) {
+    divergences.push(`totalItems is ${actual.totalItems} instead of ${expected.totalItems}`);
+  }
+
+  const expectedIds = expected.products.map(product => String(product.id));
+  const actualIds = actual.products.map(product => String(product.id));
+  const missing = expectedIds.filter(id => !actualIds.includes(id));
+  const unexpected = actualIds.filter(id => !expectedIds.includes(id));
+  if (missing.length > 0) {
+    divergences.push(`missing products ${missing.join(', ')}`);
+  }
+  if (unexpected.length > 0) {
+    divergences.push(`unexpected products ${unexpected.join(', ')}`);
+  }
+  if (missing.length === 0 && unexpected.length === 0) {
+    const position = expectedIds.findIndex((id, index) => actualIds[index] !== id);
+    if (position >= 0) {
+      divergences.push(`order differs from position ${position + 1}: ${actualIds.join(', ')} instead of ${expectedIds.join(', ')}`);
+    }
+  }
+  return divergences;
+}
+
+/**
+ * Lists the ids of products, to compare the pages of several strategies.
+ */
+export const productIds = (products: Product[]): string[] => products.map(product => String(product.id));
@@ -0,0 +1,133 @@
+import { MOCK_CATALOG_VERSION, MockProductBackend } from './mock-product-backend';
+import { PRODUCTS } from './products.mock';
+import { ProductUpsert } from '../core/models/product-draft.model';
+
+describe('MockProductBackend', () => {
+  const backend = new MockProductBackend(PRODUCTS);
+
+  it('should filter, search, sort and paginate like the API', () => {
+    const response = backend.filterProducts({
+      searchTerm: '',
+      currentPage: 1,
+      pageSize: 2,
+      sort: [{ field: 'price', direction: 'asc' }],
+      facets: ['category'],
+      filters: { logic: 'and', filters: [{ key: 'category', values: ['Fashion'], type: 'multiselect', logic: 'or' }, { key: 'price', values: ['50', null], type: 'range', logic: 'or' }] }
+    });
+
+    const fashion = PRODUCTS.filter(product => product.category === 'Fashion');
+    expect(response.totalItems).toBe(fashion.filter(product => product.price >= 50).length);
+    expect(response.products.map(product => product.price)).toEqual([...response.products.map(product => product.price)].sort((a, b) => a - b));
+    expect(response.products.every(product => product.category === 'Fashion' && product.price >= 50)).toBeTrue();
+    expect(response.facets?.['category']['Electronics']).toBeGreaterThan(0);
+    expect(response.previousCursor).toBeNull();
+    expect(response.version).toBe(MOCK_CATALOG_VERSION);
+  });
+
+  it('should follow the cursors of its responses', () => {
+    const payload = { searchTerm: 'e', currentPage: 1, pageSize: 3, filters: { logic: 'and' as const, filters: [] } };
+    const first = backend.filterProducts(payload);
+    const second = backend.filterProducts({ ...payload, cursor: first.nextCursor });
+
+    expect(second.products).toEqual(backend.filterProducts({ ...payload, currentPage: 2 }).products);
+  });
+
+  it('should find a product by id, whatever the type of the id', () => {
+    expect(backend.getProduct(String(PRODUCTS[0].id))).toEqual(PRODUCTS[0]);
+    expect(backend.getProduct('missing')).toBeNull();
+  });
+
+  it('should describe the catalog without listing it', () => {
+    const metadata = backend.getMetadata();
+    const prices = PRODUCTS.map(product => product.price);
+
+    expect(metadata.count).toBe(PRODUCTS.length);
+    expect(metadata.categories).toContain('Fashion');
+    expect(metadata.priceRange).toEqual({ min: Math.min(...prices), max: Math.max(...prices) });
+    expect(metadata.priceHistogram.reduce((total, count) => total + count)).toBe(PRODUCTS.length);
+  });
+
+  it('should suggest product names and categories', () => {
+    expect(backend.suggest('pho', 8).names).toContain('Phone');
+    expect(backend.suggest('fash', 8).categories).toEqual(['Fashion']);
+  });
+
+  it('should only return the catalog to clients that do not hold it yet', () => {
+    expect(backend.getChanges(null)).toEqual({ version: MOCK_CATALOG_VERSION, full: true, products: PRODUCTS, deleted: [] });
+    expect(backend.getChanges(MOCK_CATALOG_VERSION).products).toEqual([]);
+  });
+
+  it('should create, update and delete products, moving the catalog to a new version', () => {
+    const editable = new MockProductBackend(PRODUCTS);
+
+    const created = editable.createProduct({ name: '  Lamp ', category: 'Home', price: 25, description: '' });
+    const afterCreate = editable.getChanges(null).version;
+    const updated = editable.updateProduct(String(created.id), { price: 30 });
+    editable.deleteProduct(PRODUCTS[0].id);
+
+    expect(created).toEqual(jasmine.objectContaining({ name: 'Lamp', id: Math.max(...PRODUCTS.map(product => Number(product.id))) + 1 }));
+    expect(updated?.price).toBe(30);
+    expect(editable.getProduct(PRODUCTS[0].id)).toBeNull();
+    expect(afterCreate).not.toBe(MOCK_CATALOG_VERSION);
+    expect(editable.getChanges(afterCreate)).toEqual(jasmine.objectContaining({ full: true, products: jasmine.arrayContaining([updated!]) }));
+    expect(editable.updateProduct('missing', { price: 1 })).toBeNull();
+    expect(PRODUCTS.length).toBe(backend.getMetadata().count);
+  });
+
+  it('should reject invalid products like the API', () => {
+    const editable = new MockProductBackend(PRODUCTS);
+
+    expect(() => editable.createProduct({ name: ' ', category: 'Home', price: 25, description: '' })).toThrowError('The name is required.');
+    expect(() => editable.updateProduct(PRODUCTS[0].id, { price: -1 })).toThrowError('The price cannot be negative.');
+    expect(editable.getChanges(MOCK_CATALOG_VERSION).full).toBeFalse();
+  });
+
+  it('should upsert products in bulk, matching them by id or name', () => {
+    const editable = new MockProductBackend(PRODUCTS);
+    const [first, second] = PRODUCTS;
+
+    const result = editable.upsertProducts([
+      { name: 'Lamp', category: 'Home', price: 25, description: '' },
+      { name: first.name.toUpperCase(), category: first.category, price: 1, description: '' },
+      { id: String(second.id), name: 'Renamed', category: second.category, price: 2, description: '' },
+      { name: 'lamp', category: 'Home', price: 30, description: '' },
+      { id: 'missing', name: 'Chair', category: 'Home', price: 45, description: '' },
+      { name: 'Desk', category: 'Home', price: -1, description: '' }
+    ]);
+
+    expect(result).toEqual({
+      created: 1,
+      updated: 2,
+      failed: [
+        { index: 3, message: 'Duplicate of the product at index 0', duplicateOf: 0 },
+        { index: 4, message: 'Product not found' },
+        { index: 5, message: 'The price cannot be negative.' }
+      ]
+    });
+    expect(editable.getProduct(first.id)?.price).toBe(1);
+    expect(editable.getProduct(second.id)?.name).toBe('Renamed');
+    expect(editable.getChanges(MOCK_CATALOG_VERSION).full).toBeTrue();
+    expect(() => editable.upsertProducts([])).toThrowError('Expected between 1 and 500 products');
+  });
+
+  it('should validate bulk updates on the attributes they set, and reject names held by several products', () => {
+    const [first, second] = PRODUCTS;
+    const editable = new MockProductBackend([first, second, { ...second, id: 1000, name: second.name.toLowerCase() }]);
+
+    const result = editable.upsertProducts([
+      { id: String(first.id), price: 3 } as ProductUpsert,
+      { id: String(first.id), price: -1 } as ProductUpsert,
+      { name: second.name, category: second.category, price: 2, description: '' }
+    ]);
+
+    expect(result).toEqual({
+      created: 0,
+      updated: 1,
+      failed: [
+        { index: 1, message: 'The price cannot be negative.' },
+        { index: 2, message: `2 products are named ${second.name}: give the id of the one to update` }
+      ]
+    });
+    expect(editable.getProduct(first.id)).toEqual({ ...first, price: 3 });
+  });
+});
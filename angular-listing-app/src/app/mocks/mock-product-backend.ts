@@ -0,0 +1,281 @@
+import { Product } from '../core/models/product.model';
+import { BulkUpsertResult, ProductChangeSet, ProductDraft, ProductUpsert } from '../core/models/product-draft.model';
+import { SearchOptions } from '../core/models/search-options.model';
+import { FilterRequestPayload } from '../products/interfaces/filter-payload';
+import { FilterResponse } from '../products/interfaces/filter-response';
+import { ProductChanges } from '../products/interfaces/product-changes';
+import { CatalogMetadata } from '../products/interfaces/catalog-metadata';
+import { SuggestResponse } from '../products/interfaces/suggest-response';
+import { InMemoryCatalog } from '../products/utils/in-memory-catalog';
+import { fromFilterPayload } from '../products/utils/filter-expression';
+import { computeCatalogMetadata } from '../products/utils/catalog-metadata';
+import { EXACT_SEARCH } from '../products/utils/product-search';
+import { hasProductErrors, validateProduct } from '../products/utils/product-validation';
+import { MAX_CATEGORY_SUGGESTIONS, MAX_SUGGESTIONS, rankMatches } from '../products/utils/suggestions';
+
+/**
+ * The version of a mock catalog until it is first changed.
+ */
+export const MOCK_CATALOG_VERSION = 'mock';
+
+/**
+ * The product attributes clients may set, as in the schema of the API.
+ */
+const PRODUCT_ATTRIBUTES: Array<keyof ProductDraft> = ['name', 'category', 'price', 'description', 'imgUrl', 'tags'];
+
+/**
+ * The most product names the suggest endpoint returns.
+ */
+const MAX_SUGGESTED_NAMES = 20;
+
+/**
+ * The most products a page of the filter endpoint holds.
+ */
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * The most products a bulk upsert request may hold.
+ */
+const MAX_BULK_PRODUCTS = 500;
+
+/**
+ * Emulates the product endpoints of the API over a catalog held in memory, so that the application runs
+ * without a backend (see `mockBackendInterceptor` and `InMemoryProductDataSource`). Requests are evaluated
+ * like the client-side strategy does, which returns the same results as the API; cursors hold offsets.
+ * Products can be created, updated and deleted, for the session only: the given catalog is not modified.
+ */
+export class MockProductBackend {
+  private catalogs = new Map<string, InMemoryCatalog>();
+  private version = MOCK_CATALOG_VERSION;
+  private revision = 0;
+
+  /**
+   * @param products - The catalog.
+   */
+  constructor(private products: Product[]) { }
+
+  /**
+   * Emulates `GET /products`.
+   */
+  getProducts(): Product[] {
+    return this.products;
+  }
+
+  /**
+   * Emulates `GET /products/:id`.
+   *
+   * @param id - The product id, whatever its type.
+   * @returns The product, or `null` when no product has this id.
+   */
+  getProduct(id: Product['id'] | string): Product | null {
+    return this.products.find(product => String(product.id) === String(id)) ?? null;
+  }
+
+  /**
+   * Emulates `GET /products/count`.
+   */
+  getProductsCount(): number {
+    return this.products.length;
+  }
+
+  /**
+   * Emulates `GET /products/metadata`.
+   */
+  getMetadata(): CatalogMetadata {
+    return computeCatalogMetadata(this.products);
+  }
+
+  /**
+   * Emulates `POST /products/filter`.
+   *
+   * @param payload - The request payload.
+   * @returns The page of matching products, with the facet counts requested and the cursors to the adjacent pages.
+   */
+  filterProducts(payload: FilterRequestPayload): FilterResponse {
+    const response = this.catalog(payload.searchOptions ?? EXACT_SEARCH).applyFiltersAndSearch(
+      payload.searchTerm ?? '',
+      fromFilterPayload(payload.filters ?? { logic: 'and', filters: [] }),
+      Math.max(Math.floor(payload.currentPage) || 1, 1),
+      Math.min(Math.max(Math.floor(payload.pageSize) || 10, 1), MAX_PAGE_SIZE),
+      payload.sort ?? [],
+      (payload.facets ?? []) as Array<keyof Product>,
+      payload.cursor ?? null
+    );
+    return { ...response, version: this.version };
+  }
+
+  /**
+   * Emulates `GET /products/suggest`.
+   *
+   * @param term - The search term typed so far.
+   * @param limit - The maximum number of product names.
+   * @returns The matching product names and categories.
+   */
+  suggest(term: string, limit: number): SuggestResponse {
+    const names = Math.min(Math.max(Math.floor(limit) || MAX_SUGGESTIONS, 1), MAX_SUGGESTED_NAMES);
+    return {
+      names: rankMatches(this.products.map(product => product.name), term, names),
+      categories: rankMatches(this.products.map(product => product.category), term, Math.min(names, MAX_CATEGORY_SUGGESTIONS))
+    };
+  }
+
+  /**
+   * Emulates `GET /products/changes`: the catalog is returned in full to clients that do not hold
+   * its current version, and no change is listed to the others.
+   *
+   * @param since - The version held by the client, if any.
+   * @returns The changes since that version.
+   */
+  getChanges(since: string | null): ProductChanges {
+    const full = since !== this.version;
+    return { version: this.version, full, products: full ? this.products : [], deleted: [] };
+  }
+
+  /**
+   * Emulates `POST /products`. The product gets the next free id.
+   *
+   * @param values - The attributes of the product.
+   * @returns The created product.
+   * @throws {Error} When the attributes are invalid, like the API answers with a `400`.
+   */
+  createProduct(values: ProductDraft): Product {
+    const draft = this.toChangeSet(values, false);
+    const id = this.products.reduce((highest, product) => Math.max(highest, Number(product.id) || 0), 0) + 1;
+    const product = { ...draft, id } as Product;
+    this.commit([...this.products, product]);
+    return product;
+  }
+
+  /**
+   * Emulates `PUT /products/:id`.
+   *
+   * @param id - The product id, whatever its type.
+   * @param values - The changed attributes.
+   * @returns The updated product, or `null` when no product has this id.
+   * @throws {Error} When the changed attributes are invalid, like the API answers with a `400`.
+   */
+  updateProduct(id: Product['id'] | string, values: ProductChangeSet): Product | null {
+    const changes = this.toChangeSet(values, true);
+    const current = this.getProduct(id);
+    if (!current) {
+      return null;
+    }
+    const updated = { ...current, ...changes };
+    this.commit(this.products.map(product => product === current ? updated : product));
+    return updated;
+  }
+
+  /**
+   * Emulates `DELETE /products/:id`. Deleting a missing product does nothing, like on the API.
+   *
+   * @param id - The product id, whatever its type.
+   */
+  deleteProduct(id: Product['id'] | string): void {
+    const current = this.getProduct(id);
+    if (current) {
+      this.commit(this.products.filter(product => product !== current));
+    }
+  }
+
+  /**
+   * Emulates `POST /products/bulk`. A product with an id updates that product; otherwise it updates the
+   * product of the same name, ignoring case, or is created. New products are validated like on creation,
+   * updates only on the attributes they set. Invalid products are reported with their index, as are names
+   * held by several products and products written by an earlier row, and the others are still written.
+   *
+   * @param items - The products to write.
+   * @returns The number of products created and updated, and the rejected ones.
+   * @throws {Error} When the request does not hold between 1 and 500 products, like the API answers with a `400`.
+   */
+  upsertProducts(items: ProductUpsert[]): BulkUpsertResult {
+    if (!Array.isArray(items) || items.length === 0 || items.length > MAX_BULK_PRODUCTS) {
+      throw new Error(`Expected between 1 and ${MAX_BULK_PRODUCTS} products`);
+    }
+    const result: BulkUpsertResult = { created: 0, updated: 0, failed: [] };
+    const products = [...this.products];
+    const written = new Map<Product, number>();
+    let nextId = products.reduce((highest, product) => Math.max(highest, Number(product.id) || 0), 0) + 1;
+    items.forEach((item, index) => {
+      const hasId = item?.id !== undefined && item.id !== null && item.id !== '';
+      const name = typeof item?.name === 'string' ? item.name.trim().toLowerCase() : null;
+      const matches = hasId
+        ? products.filter(product => String(product.id) === String(item.id))
+        : products.filter(product => product.name.toLowerCase() === name);
+      const target = matches.length === 1 ? matches[0] : null;
+      if (hasId && !target) {
+        result.failed.push({ index, message: 'Product not found' });
+        return;
+      }
+      if (matches.length > 1) {
+        result.failed.push({ index, message: `${matches.length} products are named ${item.name.trim()}: give the id of the one to update` });
+        return;
+      }
+      let draft: ProductChangeSet;
+      try {
+        draft = this.toChangeSet(item, target !== null);
+      } catch (error) {
+        result.failed.push({ index, message: (error as Error).message });
+        return;
+      }
+      if (target && Object.keys(draft).length === 0) {
+        result.failed.push({ index, message: 'No attribute to update' });
+      } else if (target && written.has(target)) {
+        const duplicateOf = written.get(target)!;
+        result.failed.push({ index, message: `Duplicate of the product at index ${duplicateOf}`, duplicateOf });
+      } else if (target) {
+        const product = { ...target, ...draft };
+        products[products.indexOf(target)] = product;
+        written.set(product, index);
+        result.updated++;
+      } else {
+        const product = { ...draft, id: nextId++ } as Product;
+        products.push(product);
+        written.set(product, index);
+        result.created++;
+      }
+    });
+    if (written.size > 0) {
+      this.commit(products);
+    }
+    return result;
+  }
+
+  /**
+   * Keeps the attributes clients may set and validates them, trimming the name like the API does.
+   */
+  private toChangeSet(values: ProductChangeSet, partial: boolean): ProductChangeSet {
+    const source = (values ?? {}) as Record<string, unknown>;
+    const changes = Object.fromEntries(PRODUCT_ATTRIBUTES.filter(key => key in source).map(key => [key, source[key]])) as ProductChangeSet;
+    const errors = validateProduct(changes, partial);
+    if (hasProductErrors(errors)) {
+      throw new Error(Object.values(errors).join(' '));
+    }
+    if (typeof changes.name === 'string') {
+      changes.name = changes.name.trim();
+    }
+    return changes;
+  }
+
+  /**
+   * Replaces the catalog after a change, moving it to a new version.
+   */
+  private commit(products: Product[]): void {
+    this.products = products;
+    this.catalogs.clear();
+    this.version = `${MOCK_CATALOG_VERSION}-${++this.revision}`;
+  }
+
+  /**
+   * Returns the catalog indexed for a way of matching the search term.
+   */
+  private catalog(options: SearchOptions): InMemoryCatalog {
+    const key = `${options.mode}:${options.threshold}`;
+    let catalog = this.catalogs.get(key);
+    if (!catalog) {
+      catalog = new InMemoryCatalog(options);
+      catalog.loadProducts(this.products);
+      this.catalogs.set(key, catalog);
+    }
+    return catalog;
+  }
+}
@@ -1,94 +1,94 @@
 import { Product } from "../core/models/product.model";
 
 export const PRODUCTS: Product[] = [
-    { id: 1, name: 'Laptop', category: 'Electronics', price: 999, description: 'High-end laptop', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 2, name: 'Phone', category: 'Electronics', price: 699, description: 'Smartphone', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 3, name: 'Shoes', category: 'Fashion', price: 99, description: 'Running shoes', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 4, name: 'T-shirt', category: 'Fashion', price: 19, description: 'Cotton t-shirt', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 5, name: 'Sunglasses', category: 'Fashion', price: 49, description: 'UV protection', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 6, name: 'Headphones', category: 'Electronics', price: 199, description: 'Noise-cancelling', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 7, name: 'Backpack', category: 'Fashion', price: 79, description: 'Waterproof', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 8, name: 'Watch', category: 'Fashion', price: 300, description: 'Analog watch', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 9, name: 'Camera', category: 'Electronics', price: 299, description: 'DSLR camera', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 10, name: 'Sneakers', category: 'Fashion', price: 129, description: 'Casual sneakers', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 11, name: 'Tablet', category: 'Electronics', price: 399, description: '10-inch tablet', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 12, name: 'Smartwatch', category: 'Electronics', price: 149, description: 'Fitness tracker', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 13, name: 'Blender', category: 'Home Appliances', price: 89, description: 'High-speed blender', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 14, name: 'Microwave', category: 'Home Appliances', price: 129, description: 'Compact microwave', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 15, name: 'Oven', category: 'Home Appliances', price: 499, description: 'Electric oven', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 16, name: 'Refrigerator', category: 'Home Appliances', price: 999, description: 'Double-door refrigerator', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 17, name: 'Toaster', category: 'Home Appliances', price: 29, description: '2-slice toaster', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 18, name: 'Mixer', category: 'Home Appliances', price: 59, description: 'Hand mixer', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 19, name: 'Vacuum Cleaner', category: 'Home Appliances', price: 199, description: 'Cordless vacuum cleaner', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 20, name: 'Air Conditioner', category: 'Home Appliances', price: 299, description: 'Portable air conditioner', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 21, name: 'Heater', category: 'Home Appliances', price: 79, description: 'Electric heater', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 22, name: 'Fan', category: 'Home Appliances', price: 49, description: 'Ceiling fan', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 23, name: 'Iron', category: 'Home Appliances', price: 39, description: 'Steam iron', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 24, name: 'Washing Machine', category: 'Home Appliances', price: 699, description: 'Front-load washing machine', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 25, name: 'Dryer', category: 'Home Appliances', price: 599, description: 'Electric dryer', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 26, name: 'Dishwasher', category: 'Home Appliances', price: 499, description: 'Built-in dishwasher', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 27, name: 'Coffee Maker', category: 'Home Appliances', price: 99, description: 'Espresso machine', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 28, name: 'Rice Cooker', category: 'Home Appliances', price: 49, description: 'Electric rice cooker', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 29, name: 'Slow Cooker', category: 'Home Appliances', price: 59, description: 'Programmable slow cooker', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 30, name: 'Air Fryer', category: 'Home Appliances', price: 129, description: 'Digital air fryer', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 31, name: 'Grill', category: 'Home Appliances', price: 199, description: 'Electric grill', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 32, name: 'Juicer', category: 'Home Appliances', price: 79, description: 'Cold press juicer', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 33, name: 'Food Processor', category: 'Home Appliances', price: 149, description: 'Multi-function food processor', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 34, name: 'Bread Maker', category: 'Home Appliances', price: 129, description: 'Automatic bread maker', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 35, name: 'Electric Kettle', category: 'Home Appliances', price: 39, description: 'Stainless steel electric kettle', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 36, name: 'Dehumidifier', category: 'Home Appliances', price: 199, description: 'Portable dehumidifier', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 37, name: 'Humidifier', category: 'Home Appliances', price: 79, description: 'Ultrasonic humidifier', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 38, name: 'Water Purifier', category: 'Home Appliances', price: 149, description: 'Reverse osmosis water purifier', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 39, name: 'Sewing Machine', category: 'Home Appliances', price: 299, description: 'Computerized sewing machine', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 40, name: 'Electric Blanket', category: 'Home Appliances', price: 59, description: 'Heated electric blanket', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 41, name: 'Hair Dryer', category: 'Personal Care', price: 49, description: 'Ionic hair dryer', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 42, name: 'Electric Toothbrush', category: 'Personal Care', price: 79, description: 'Rechargeable electric toothbrush', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 43, name: 'Shaver', category: 'Personal Care', price: 99, description: 'Electric shaver', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 44, name: 'Hair Straightener', category: 'Personal Care', price: 59, description: 'Ceramic hair straightener', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 45, name: 'Massage Chair', category: 'Personal Care', price: 999, description: 'Full-body massage chair', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 46, name: 'Fitness Tracker', category: 'Electronics', price: 129, description: 'Activity tracker', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 47, name: 'Smart Scale', category: 'Electronics', price: 49, description: 'Bluetooth smart scale', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 48, name: 'Drone', category: 'Electronics', price: 499, description: 'Quadcopter drone', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 49, name: 'VR Headset', category: 'Electronics', price: 299, description: 'Virtual reality headset', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 50, name: '3D Printer', category: 'Electronics', price: 599, description: 'Desktop 3D printer', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 51, name: 'Gaming Console', category: 'Electronics', price: 399, description: 'Next-gen gaming console', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 52, name: 'Smart Light', category: 'Electronics', price: 29, description: 'Wi-Fi smart light', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 53, name: 'Robot Vacuum', category: 'Home Appliances', price: 299, description: 'Automatic robot vacuum', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 54, name: 'Electric Scooter', category: 'Electronics', price: 499, description: 'Foldable electric scooter', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 55, name: 'Smart Doorbell', category: 'Electronics', price: 149, description: 'Video doorbell', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 56, name: 'Security Camera', category: 'Electronics', price: 199, description: 'Wireless security camera', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 57, name: 'Smart Thermostat', category: 'Electronics', price: 249, description: 'Programmable smart thermostat', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 58, name: 'Smart Lock', category: 'Electronics', price: 199, description: 'Keyless smart lock', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 59, name: 'Smart Plug', category: 'Electronics', price: 19, description: 'Wi-Fi smart plug', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 60, name: 'Smart Speaker', category: 'Electronics', price: 99, description: 'Voice-controlled smart speaker', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 61, name: 'Yoga Mat', category: 'Sports', price: 29, description: 'Non-slip yoga mat', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 62, name: 'Dumbbells', category: 'Sports', price: 49, description: 'Set of 2 dumbbells', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 63, name: 'Tennis Racket', category: 'Sports', price: 79, description: 'Professional tennis racket', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 64, name: 'Basketball', category: 'Sports', price: 29, description: 'Official size basketball', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 65, name: 'Soccer Ball', category: 'Sports', price: 25, description: 'FIFA approved soccer ball', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 66, name: 'Golf Clubs', category: 'Sports', price: 299, description: 'Complete set of golf clubs', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 67, name: 'Camping Tent', category: 'Outdoors', price: 199, description: '4-person camping tent', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 68, name: 'Sleeping Bag', category: 'Outdoors', price: 79, description: 'Thermal sleeping bag', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 69, name: 'Hiking Backpack', category: 'Outdoors', price: 99, description: 'Large hiking backpack', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 70, name: 'Fishing Rod', category: 'Outdoors', price: 59, description: 'Carbon fiber fishing rod', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 71, name: 'Kayak', category: 'Outdoors', price: 499, description: 'Inflatable kayak', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 72, name: 'Binoculars', category: 'Outdoors', price: 129, description: 'High-definition binoculars', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 73, name: 'Lawn Mower', category: 'Garden', price: 299, description: 'Electric lawn mower', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 74, name: 'Garden Hose', category: 'Garden', price: 39, description: 'Expandable garden hose', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 75, name: 'Patio Furniture', category: 'Garden', price: 499, description: 'Outdoor patio furniture set', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 76, name: 'Grill', category: 'Garden', price: 199, description: 'Charcoal grill', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 77, name: 'Garden Tools', category: 'Garden', price: 59, description: 'Set of garden tools', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 78, name: 'Planter', category: 'Garden', price: 29, description: 'Decorative planter', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 79, name: 'Bookshelf', category: 'Furniture', price: 149, description: 'Wooden bookshelf', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 80, name: 'Office Chair', category: 'Furniture', price: 199, description: 'Ergonomic office chair', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 81, name: 'Dining Table', category: 'Furniture', price: 499, description: '6-seater dining table', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 82, name: 'Sofa', category: 'Furniture', price: 799, description: 'Leather sofa', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 83, name: 'Bed Frame', category: 'Furniture', price: 299, description: 'Queen size bed frame', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 84, name: 'Wardrobe', category: 'Furniture', price: 399, description: '3-door wardrobe', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 85, name: 'Electric Guitar', category: 'Musical Instruments', price: 499, description: '6-string electric guitar', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 86, name: 'Piano', category: 'Musical Instruments', price: 999, description: 'Digital piano', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 87, name: 'Drum Set', category: 'Musical Instruments', price: 699, description: '5-piece drum set', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 88, name: 'Violin', category: 'Musical Instruments', price: 299, description: 'Full-size violin', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 89, name: 'Flute', category: 'Musical Instruments', price: 199, description: 'Silver flute', imgUrl: 'https://via.placeholder.com/150'  },
-    { id: 90, name: 'Saxophone', category: 'Musical Instruments', price: 799, description: 'Alto saxophone', imgUrl: 'https://via.placeholder.com/150'  }
+    { id: 1, name: 'Laptop', category: 'Electronics', price: 999, description: 'High-end laptop', imgUrl: 'https://via.placeholder.com/150', tags: ['portable', 'gift'] },
+    { id: 2, name: 'Phone', category: 'Electronics', price: 699, description: 'Smartphone', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless', 'portable', 'gift'] },
+    { id: 3, name: 'Shoes', category: 'Fashion', price: 99, description: 'Running shoes', imgUrl: 'https://via.placeholder.com/150', tags: ['fitness', 'outdoor'] },
+    { id: 4, name: 'T-shirt', category: 'Fashion', price: 19, description: 'Cotton t-shirt', imgUrl: 'https://via.placeholder.com/150', tags: ['gift'] },
+    { id: 5, name: 'Sunglasses', category: 'Fashion', price: 49, description: 'UV protection', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'gift'] },
+    { id: 6, name: 'Headphones', category: 'Electronics', price: 199, description: 'Noise-cancelling', imgUrl: 'https://via.placeholder.com/150', tags: ['wireless', 'portable', 'gift'] },
+    { id: 7, name: 'Backpack', category: 'Fashion', price: 79, description: 'Waterproof', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'portable'] },
+    { id: 8, name: 'Watch', category: 'Fashion', price: 300, description: 'Analog watch', imgUrl: 'https://via.placeholder.com/150', tags: ['gift'] },
+    { id: 9, name: 'Camera', category: 'Electronics', price: 299, description: 'DSLR camera', imgUrl: 'https://via.placeholder.com/150', tags: ['portable', 'gift'] },
+    { id: 10, name: 'Sneakers', category: 'Fashion', price: 129, description: 'Casual sneakers', imgUrl: 'https://via.placeholder.com/150', tags: ['fitness'] },
+    { id: 11, name: 'Tablet', category: 'Electronics', price: 399, description: '10-inch tablet', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless', 'portable'] },
+    { id: 12, name: 'Smartwatch', category: 'Electronics', price: 149, description: 'Fitness tracker', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless', 'fitness', 'gift'] },
+    { id: 13, name: 'Blender', category: 'Home Appliances', price: 89, description: 'High-speed blender', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 14, name: 'Microwave', category: 'Home Appliances', price: 129, description: 'Compact microwave', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 15, name: 'Oven', category: 'Home Appliances', price: 499, description: 'Electric oven', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 16, name: 'Refrigerator', category: 'Home Appliances', price: 999, description: 'Double-door refrigerator', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 17, name: 'Toaster', category: 'Home Appliances', price: 29, description: '2-slice toaster', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 18, name: 'Mixer', category: 'Home Appliances', price: 59, description: 'Hand mixer', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric', 'portable'] },
+    { id: 19, name: 'Vacuum Cleaner', category: 'Home Appliances', price: 199, description: 'Cordless vacuum cleaner', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'portable'] },
+    { id: 20, name: 'Air Conditioner', category: 'Home Appliances', price: 299, description: 'Portable air conditioner', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'portable'] },
+    { id: 21, name: 'Heater', category: 'Home Appliances', price: 79, description: 'Electric heater', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'portable'] },
+    { id: 22, name: 'Fan', category: 'Home Appliances', price: 49, description: 'Ceiling fan', imgUrl: 'https://via.placeholder.com/150', tags: ['electric'] },
+    { id: 23, name: 'Iron', category: 'Home Appliances', price: 39, description: 'Steam iron', imgUrl: 'https://via.placeholder.com/150', tags: ['electric'] },
+    { id: 24, name: 'Washing Machine', category: 'Home Appliances', price: 699, description: 'Front-load washing machine', imgUrl: 'https://via.placeholder.com/150', tags: ['electric'] },
+    { id: 25, name: 'Dryer', category: 'Home Appliances', price: 599, description: 'Electric dryer', imgUrl: 'https://via.placeholder.com/150', tags: ['electric'] },
+    { id: 26, name: 'Dishwasher', category: 'Home Appliances', price: 499, description: 'Built-in dishwasher', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 27, name: 'Coffee Maker', category: 'Home Appliances', price: 99, description: 'Espresso machine', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric', 'gift'] },
+    { id: 28, name: 'Rice Cooker', category: 'Home Appliances', price: 49, description: 'Electric rice cooker', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 29, name: 'Slow Cooker', category: 'Home Appliances', price: 59, description: 'Programmable slow cooker', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 30, name: 'Air Fryer', category: 'Home Appliances', price: 129, description: 'Digital air fryer', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 31, name: 'Grill', category: 'Home Appliances', price: 199, description: 'Electric grill', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 32, name: 'Juicer', category: 'Home Appliances', price: 79, description: 'Cold press juicer', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'fitness'] },
+    { id: 33, name: 'Food Processor', category: 'Home Appliances', price: 149, description: 'Multi-function food processor', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 34, name: 'Bread Maker', category: 'Home Appliances', price: 129, description: 'Automatic bread maker', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 35, name: 'Electric Kettle', category: 'Home Appliances', price: 39, description: 'Stainless steel electric kettle', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen', 'electric'] },
+    { id: 36, name: 'Dehumidifier', category: 'Home Appliances', price: 199, description: 'Portable dehumidifier', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'portable'] },
+    { id: 37, name: 'Humidifier', category: 'Home Appliances', price: 79, description: 'Ultrasonic humidifier', imgUrl: 'https://via.placeholder.com/150', tags: ['electric'] },
+    { id: 38, name: 'Water Purifier', category: 'Home Appliances', price: 149, description: 'Reverse osmosis water purifier', imgUrl: 'https://via.placeholder.com/150', tags: ['kitchen'] },
+    { id: 39, name: 'Sewing Machine', category: 'Home Appliances', price: 299, description: 'Computerized sewing machine', imgUrl: 'https://via.placeholder.com/150', tags: ['electric'] },
+    { id: 40, name: 'Electric Blanket', category: 'Home Appliances', price: 59, description: 'Heated electric blanket', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'gift'] },
+    { id: 41, name: 'Hair Dryer', category: 'Personal Care', price: 49, description: 'Ionic hair dryer', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'portable'] },
+    { id: 42, name: 'Electric Toothbrush', category: 'Personal Care', price: 79, description: 'Rechargeable electric toothbrush', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'portable'] },
+    { id: 43, name: 'Shaver', category: 'Personal Care', price: 99, description: 'Electric shaver', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'portable'] },
+    { id: 44, name: 'Hair Straightener', category: 'Personal Care', price: 59, description: 'Ceramic hair straightener', imgUrl: 'https://via.placeholder.com/150', tags: ['electric'] },
+    { id: 45, name: 'Massage Chair', category: 'Personal Care', price: 999, description: 'Full-body massage chair', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'gift'] },
+    { id: 46, name: 'Fitness Tracker', category: 'Electronics', price: 129, description: 'Activity tracker', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless', 'fitness'] },
+    { id: 47, name: 'Smart Scale', category: 'Electronics', price: 49, description: 'Bluetooth smart scale', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless', 'fitness'] },
+    { id: 48, name: 'Drone', category: 'Electronics', price: 499, description: 'Quadcopter drone', imgUrl: 'https://via.placeholder.com/150', tags: ['wireless', 'outdoor', 'gift'] },
+    { id: 49, name: 'VR Headset', category: 'Electronics', price: 299, description: 'Virtual reality headset', imgUrl: 'https://via.placeholder.com/150', tags: ['gift'] },
+    { id: 50, name: '3D Printer', category: 'Electronics', price: 599, description: 'Desktop 3D printer', imgUrl: 'https://via.placeholder.com/150', tags: ['electric'] },
+    { id: 51, name: 'Gaming Console', category: 'Electronics', price: 399, description: 'Next-gen gaming console', imgUrl: 'https://via.placeholder.com/150', tags: ['gift'] },
+    { id: 52, name: 'Smart Light', category: 'Electronics', price: 29, description: 'Wi-Fi smart light', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless'] },
+    { id: 53, name: 'Robot Vacuum', category: 'Home Appliances', price: 299, description: 'Automatic robot vacuum', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'electric'] },
+    { id: 54, name: 'Electric Scooter', category: 'Electronics', price: 499, description: 'Foldable electric scooter', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'portable', 'outdoor'] },
+    { id: 55, name: 'Smart Doorbell', category: 'Electronics', price: 149, description: 'Video doorbell', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless'] },
+    { id: 56, name: 'Security Camera', category: 'Electronics', price: 199, description: 'Wireless security camera', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless', 'outdoor'] },
+    { id: 57, name: 'Smart Thermostat', category: 'Electronics', price: 249, description: 'Programmable smart thermostat', imgUrl: 'https://via.placeholder.com/150', tags: ['smart'] },
+    { id: 58, name: 'Smart Lock', category: 'Electronics', price: 199, description: 'Keyless smart lock', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless'] },
+    { id: 59, name: 'Smart Plug', category: 'Electronics', price: 19, description: 'Wi-Fi smart plug', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless'] },
+    { id: 60, name: 'Smart Speaker', category: 'Electronics', price: 99, description: 'Voice-controlled smart speaker', imgUrl: 'https://via.placeholder.com/150', tags: ['smart', 'wireless', 'gift'] },
+    { id: 61, name: 'Yoga Mat', category: 'Sports', price: 29, description: 'Non-slip yoga mat', imgUrl: 'https://via.placeholder.com/150', tags: ['fitness', 'portable'] },
+    { id: 62, name: 'Dumbbells', category: 'Sports', price: 49, description: 'Set of 2 dumbbells', imgUrl: 'https://via.placeholder.com/150', tags: ['fitness'] },
+    { id: 63, name: 'Tennis Racket', category: 'Sports', price: 79, description: 'Professional tennis racket', imgUrl: 'https://via.placeholder.com/150', tags: ['fitness', 'outdoor'] },
+    { id: 64, name: 'Basketball', category: 'Sports', price: 29, description: 'Official size basketball', imgUrl: 'https://via.placeholder.com/150', tags: ['fitness', 'outdoor'] },
+    { id: 65, name: 'Soccer Ball', category: 'Sports', price: 25, description: 'FIFA approved soccer ball', imgUrl: 'https://via.placeholder.com/150', tags: ['fitness', 'outdoor'] },
+    { id: 66, name: 'Golf Clubs', category: 'Sports', price: 299, description: 'Complete set of golf clubs', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'gift'] },
+    { id: 67, name: 'Camping Tent', category: 'Outdoors', price: 199, description: '4-person camping tent', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'portable'] },
+    { id: 68, name: 'Sleeping Bag', category: 'Outdoors', price: 79, description: 'Thermal sleeping bag', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'portable'] },
+    { id: 69, name: 'Hiking Backpack', category: 'Outdoors', price: 99, description: 'Large hiking backpack', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'portable'] },
+    { id: 70, name: 'Fishing Rod', category: 'Outdoors', price: 59, description: 'Carbon fiber fishing rod', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor'] },
+    { id: 71, name: 'Kayak', category: 'Outdoors', price: 499, description: 'Inflatable kayak', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'portable'] },
+    { id: 72, name: 'Binoculars', category: 'Outdoors', price: 129, description: 'High-definition binoculars', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'portable'] },
+    { id: 73, name: 'Lawn Mower', category: 'Garden', price: 299, description: 'Electric lawn mower', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'electric'] },
+    { id: 74, name: 'Garden Hose', category: 'Garden', price: 39, description: 'Expandable garden hose', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor'] },
+    { id: 75, name: 'Patio Furniture', category: 'Garden', price: 499, description: 'Outdoor patio furniture set', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor'] },
+    { id: 76, name: 'Grill', category: 'Garden', price: 199, description: 'Charcoal grill', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor'] },
+    { id: 77, name: 'Garden Tools', category: 'Garden', price: 59, description: 'Set of garden tools', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'gift'] },
+    { id: 78, name: 'Planter', category: 'Garden', price: 29, description: 'Decorative planter', imgUrl: 'https://via.placeholder.com/150', tags: ['outdoor', 'gift'] },
+    { id: 79, name: 'Bookshelf', category: 'Furniture', price: 149, description: 'Wooden bookshelf', imgUrl: 'https://via.placeholder.com/150', tags: [] },
+    { id: 80, name: 'Office Chair', category: 'Furniture', price: 199, description: 'Ergonomic office chair', imgUrl: 'https://via.placeholder.com/150', tags: [] },
+    { id: 81, name: 'Dining Table', category: 'Furniture', price: 499, description: '6-seater dining table', imgUrl: 'https://via.placeholder.com/150', tags: [] },
+    { id: 82, name: 'Sofa', category: 'Furniture', price: 799, description: 'Leather sofa', imgUrl: 'https://via.placeholder.com/150', tags: [] },
+    { id: 83, name: 'Bed Frame', category: 'Furniture', price: 299, description: 'Queen size bed frame', imgUrl: 'https://via.placeholder.com/150', tags: [] },
+    { id: 84, name: 'Wardrobe', category: 'Furniture', price: 399, description: '3-door wardrobe', imgUrl: 'https://via.placeholder.com/150', tags: [] },
+    { id: 85, name: 'Electric Guitar', category: 'Musical Instruments', price: 499, description: '6-string electric guitar', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'gift'] },
+    { id: 86, name: 'Piano', category: 'Musical Instruments', price: 999, description: 'Digital piano', imgUrl: 'https://via.placeholder.com/150', tags: ['electric', 'gift'] },
+    { id: 87, name: 'Drum Set', category: 'Musical Instruments', price: 699, description: '5-piece drum set', imgUrl: 'https://via.placeholder.com/150', tags: ['gift'] },
+    { id: 88, name: 'Violin', category: 'Musical Instruments', price: 299, description: 'Full-size violin', imgUrl: 'https://via.placeholder.com/150', tags: ['portable', 'gift'] },
+    { id: 89, name: 'Flute', category: 'Musical Instruments', price: 199, description: 'Silver flute', imgUrl: 'https://via.placeholder.com/150', tags: ['portable', 'gift'] },
+    { id: 90, name: 'Saxophone', category: 'Musical Instruments', price: 799, description: 'Alto saxophone', imgUrl: 'https://via.placeholder.com/150', tags: ['gift'] }
 ];
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { Component, EventEmitter, Inject, Input, OnInit, Output, PLATFORM_ID } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { FilterPreset, PresetState } from '../../interfaces/filter-preset';
+import { FilterPresetsService } from '../../services/filter-presets.service';
+import { PresetImportError, toPresetState } from '../../utils/filter-presets';
+
+/**
+ * @component FilterPresetsComponent
+ * 
+ * @description
+ * Lists the saved filter presets and lets the user save the current search and filters as a
+ * named preset, apply, rename or delete presets, and share them by exporting or importing a JSON file.
+ * 
+ * @selector filter-presets
+ * 
+ * @inputs
+ * - `currentState: PresetState` - The current search, filters and page size, saved by the save action.
+ * 
+ * @outputs
+ * - `presetApply: EventEmitter<FilterPreset>` - Emits the preset picked by the user.
+ * 
+ * @class FilterPresetsComponent
+ * 
+ * @implements OnInit
+ * 
+ * @property {FilterPreset[]} presets - The saved presets, sorted by name.
+ * @property {string} newPresetName - The name typed for the preset to save.
+ * @property {string | null} editingId - The identifier of the preset being renamed, if any.
+ * @property {string} editingName - The new name typed for the preset being renamed.
+ * @property {string | null} errorMessage - The reason why the last import failed, if it did.
+ */
+@Component({
+    selector: 'filter-presets',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './filter-presets.component.html',
+    styleUrls: ['./filter-presets.component.scss']
+})
+export class FilterPresetsComponent implements OnInit {
+    @Input() currentState!: PresetState;
+    @Output() presetApply = new EventEmitter<FilterPreset>();
+
+    public presets: FilterPreset[] = [];
+    public newPresetName = '';
+    public editingId: string | null = null;
+    public editingName = '';
+    public errorMessage: string | null = null;
+
+    constructor(private filterPresetsService: FilterPresetsService, @Inject(PLATFORM_ID) private platformId: object) { }
+
+    ngOnInit() {
+        this.presets = this.filterPresetsService.getAll();
+    }
+
+    /**
+     * Saves the current search, filters and page size under the typed name.
+     */
+    savePreset() {
+        if (!this.newPresetName.trim()) {
+            return;
+        }
+        this.presets = this.filterPresetsService.save(this.newPresetName, toPresetState(this.currentState));
+        this.newPresetName = '';
+    }
+
+    /**
+     * Emits a preset so that the product list applies it.
+     *
+     * @param {FilterPreset} preset - The preset to apply.
+     */
+    applyPreset(preset: FilterPreset) {
+        this.presetApply.emit(preset);
+    }
+
+    /**
+     * Starts renaming a preset.
+     *
+     * @param {FilterPreset} preset - The preset to rename.
+     */
+    startRename(preset: FilterPreset) {
+        this.editingId = preset.id;
+        this.editingName = preset.name;
+    }
+
+    /**
+     * Renames the preset being edited with the typed name, unless it is blank.
+     */
+    confirmRename() {
+        if (this.editingId !== null && this.editingName.trim()) {
+            this.presets = this.filterPresetsService.rename(this.editingId, this.editingName);
+        }
+        this.cancelRename();
+    }
+
+    /**
+     * Stops renaming a preset, keeping its name.
+     */
+    cancelRename() {
+        this.editingId = null;
+        this.editingName = '';
+    }
+
+    /**
+     * Deletes a preset.
+     *
+     * @param {FilterPreset} preset - The preset to delete.
+     */
+    deletePreset(preset: FilterPreset) {
+        this.presets = this.filterPresetsService.delete(preset.id);
+    }
+
+    /**
+     * Downloads the saved presets as a JSON file.
+     */
+    exportPresets() {
+        if (!isPlatformBrowser(this.platformId)) {
+            return;
+        }
+        const url = URL.createObjectURL(new Blob([this.filterPresetsService.export()], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'filter-presets.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Imports the presets of the JSON file picked by the user.
+     *
+     * @param {Event} event - The change event of the file input.
+     */
+    async importPresets(event: Event) {
+        const input = event.target as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) {
+            return;
+        }
+        try {
+            this.presets = this.filterPresetsService.import(await file.text());
+            this.errorMessage = null;
+        } catch (error) {
+            this.errorMessage = error instanceof PresetImportError ? error.message : 'The file could not be read';
+        }
+    }
+}
@@ -0,0 +1,129 @@
+import { TestBed, ComponentFixture, fakeAsync, tick } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { of, throwError } from 'rxjs';
+import { ProductAdminComponent } from './product-admin.component';
+import { CatalogAdminService } from '../../services/catalog-admin.service';
+import { Product } from '../../../core/models/product.model';
+
+describe('ProductAdminComponent', () => {
+  let component: ProductAdminComponent;
+  let fixture: ComponentFixture<ProductAdminComponent>;
+  let catalogAdmin: jasmine.SpyObj<CatalogAdminService>;
+
+  const product = (id: number): Product => ({ id, name: `Product ${id}`, category: 'Category', price: id * 10, description: '' });
+
+  beforeEach(async () => {
+    const catalogAdminSpy = jasmine.createSpyObj('CatalogAdminService', ['getPage', 'getCategories', 'create', 'update', 'remove']);
+
+    await TestBed.configureTestingModule({
+      imports: [ProductAdminComponent],
+      providers: [
+        provideRouter([]),
+        { provide: CatalogAdminService, useValue: catalogAdminSpy }
+      ]
+    }).compileComponents();
+
+    catalogAdmin = TestBed.inject(CatalogAdminService) as jasmine.SpyObj<CatalogAdminService>;
+    catalogAdmin.getPage.and.returnValue(of({ products: [product(1), product(2), product(3)], totalItems: 3 }));
+    catalogAdmin.getCategories.and.returnValue(of(['Category']));
+    catalogAdmin.remove.and.returnValue(of(undefined));
+    fixture = TestBed.createComponent(ProductAdminComponent);
+    component = fixture.componentInstance;
+    component.ngOnInit();
+  });
+
+  it('should list the first page of the catalog', () => {
+    expect(catalogAdmin.getPage).toHaveBeenCalledWith('', 1, 20);
+    expect(component.products.map(p => p.id)).toEqual([1, 2, 3]);
+    expect(component.categories).toEqual(['Category']);
+  });
+
+  it('should show a created product at once, then the product returned by the API', () => {
+    catalogAdmin.create.and.returnValue(of({ ...product(4), name: 'Lamp' }));
+    const draft = { name: 'Lamp', category: 'Home', price: 25, description: '' };
+
+    component.openCreateForm();
+    component.onFormSave(draft);
+
+    expect(catalogAdmin.create).toHaveBeenCalledWith(draft);
+    expect(component.products[0]).toEqual({ ...product(4), name: 'Lamp' });
+    expect(component.totalItems).toBe(4);
+    expect(component.isFormOpen).toBeFalse();
+  });
+
+  it('should save a valid inline edit and reject an invalid one', () => {
+    catalogAdmin.update.and.returnValue(of({ ...product(2), price: 5 }));
+
+    component.startInlineEdit(component.products[1], 'price');
+    component.inlineEdit!.value = -1;
+    component.commitInlineEdit();
+
+    expect(component.inlineEdit?.error).toBe('The price cannot be negative.');
+    expect(catalogAdmin.update).not.toHaveBeenCalled();
+
+    component.inlineEdit!.value = 5;
+    component.commitInlineEdit();
+
+    expect(component.inlineEdit).toBeNull();
+    expect(catalogAdmin.update).toHaveBeenCalledWith(2, { price: 5 });
+    expect(component.products[1].price).toBe(5);
+  });
+
+  it('should undo an optimistic update the API rejected', () => {
+    catalogAdmin.update.and.returnValue(throwError(() => new Error('Service unavailable')));
+
+    component.startInlineEdit(component.products[0], 'name');
+    component.inlineEdit!.value = 'Renamed';
+    component.commitInlineEdit();
+
+    expect(component.products[0].name).toBe('Product 1');
+    expect(component.actionError).toBe('The changes to "Product 1" could not be saved.');
+  });
+
+  it('should put a deleted product back when the deletion is undone', fakeAsync(() => {
+    component.delete(component.products[1]);
+
+    expect(component.products.map(p => p.id)).toEqual([1, 3]);
+    expect(component.pendingDeletes.length).toBe(1);
+
+    component.undoDelete(component.pendingDeletes[0]);
+    tick(ProductAdminComponent.UNDO_DELAY_MS);
+
+    expect(component.products.map(p => p.id)).toEqual([1, 2, 3]);
+    expect(component.totalItems).toBe(3);
+    expect(catalogAdmin.remove).not.toHaveBeenCalled();
+  }));
+
+  it('should delete a product once the deletion can no longer be undone', fakeAsync(() => {
+    component.delete(component.products[1]);
+    tick(ProductAdminComponent.UNDO_DELAY_MS - 1);
+
+    expect(catalogAdmin.remove).not.toHaveBeenCalled();
+
+    tick(1);
+
+    expect(catalogAdmin.remove).toHaveBeenCalledWith(2);
+    expect(component.pendingDeletes).toEqual([]);
+    expect(component.products.map(p => p.id)).toEqual([1, 3]);
+  }));
+
+  it('should put a product back when the API fails to delete it', fakeAsync(() => {
+    catalogAdmin.remove.and.returnValue(throwError(() => new Error('Service unavailable')));
+
+    component.delete(component.products[0]);
+    tick(ProductAdminComponent.UNDO_DELAY_MS);
+
+    expect(component.products.map(p => p.id)).toEqual([1, 2, 3]);
+    expect(component.actionError).toBe('"Product 1" could not be deleted.');
+  }));
+
+  it('should delete the pending products when the page is closed', fakeAsync(() => {
+    component.delete(component.products[0]);
+
+    component.ngOnDestroy();
+
+    expect(catalogAdmin.remove).toHaveBeenCalledWith(1);
+    tick(ProductAdminComponent.UNDO_DELAY_MS);
+    expect(catalogAdmin.remove).toHaveBeenCalledTimes(1);
+  }));
+});
@@ -0,0 +1,348 @@
+import { Component, ElementRef, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Subscription, finalize } from 'rxjs';
+import { Product } from '../../../core/models/product.model';
+import { ProductChangeSet, ProductDraft } from '../../../core/models/product-draft.model';
+import { PaginationComponent } from '../../../shared/components/pagination/pagination.component';
+import { CatalogAdminService } from '../../services/catalog-admin.service';
+import { hasProductErrors, validateProduct } from '../../utils/product-validation';
+import { ProductFormComponent } from '../product-form/product-form.component';
+import { ProductImportComponent } from '../product-import/product-import.component';
+
+type InlineField = 'name' | 'category' | 'price';
+
+interface InlineEdit {
+  id: Product['id'];
+  field: InlineField;
+  value: string | number | null;
+  error: string | null;
+}
+
+interface PendingDelete {
+  product: Product;
+  index: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * @fileoverview
+ * The ProductAdminComponent is the catalog administration at `/admin`. It lists the products in a table,
+ * page by page, and lets the user create and edit products with a form, edit the name, category or price
+ * of a product right in the table, delete products, and import products from a CSV or JSON file
+ * (see `ProductImportComponent`).
+ *
+ * Changes are optimistic: the table shows them at once, then the product returned by the API, or the
+ * previous state with an error if the API rejected the change. A deleted product is only deleted from
+ * the API after a few seconds, during which the deletion can be undone; leaving the page deletes it at once.
+ * After every change the catalog used by the listing is refreshed (see `CatalogAdminService`).
+ *
+ * @selector app-product-admin
+ * @standalone true
+ * @imports [CommonModule, FormsModule, RouterLink, PaginationComponent, ProductFormComponent, ProductImportComponent]
+ *
+ * @property {Product[]} public products - The products of the current page.
+ * @property {number} public totalItems - The number of products matching the search.
+ * @property {string[]} public categories - The categories suggested in the forms.
+ * @property {boolean} public isFormOpen - Whether the create or edit form is displayed.
+ * @property {ProductDraft | null} public formDraft - The attributes the form starts with.
+ * @property {boolean} public isImportOpen - Whether the import wizard is displayed.
+ * @property {InlineEdit | null} public inlineEdit - The table cell being edited, if any.
+ * @property {PendingDelete[]} public pendingDeletes - The deletions that can still be undone.
+ * @property {string | null} public actionError - The reason why the last change was undone, if it was.
+ *
+ * @method commitInlineEdit - Saves the value of the cell being edited, unless it is invalid.
+ * @method delete - Removes a product from the table and deletes it once it can no longer be undone.
+ * @method undoDelete - Puts a removed product back in the table.
+ */
+@Component({
+  selector: 'app-product-admin',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink, PaginationComponent, ProductFormComponent, ProductImportComponent],
+  templateUrl: './product-admin.component.html',
+  styleUrls: ['./product-admin.component.scss']
+})
+class ProductAdminComponent implements OnInit, OnDestroy {
+  static readonly UNDO_DELAY_MS = 5000;
+
+  public products: Product[] = [];
+  public totalItems = 0;
+  public currentPage = 1;
+  public pageSize = 20;
+  public searchTerm = '';
+  public categories: string[] = [];
+  public isLoading = false;
+  public loadError: string | null = null;
+  public actionError: string | null = null;
+  public isFormOpen = false;
+  public formDraft: ProductDraft | null = null;
+  public isImportOpen = false;
+  public inlineEdit: InlineEdit | null = null;
+  public pendingDeletes: PendingDelete[] = [];
+  public readonly inlineFields: InlineField[] = ['name', 'category', 'price'];
+  private editedId: Product['id'] | null = null;
+  private savingIds = new Set<Product['id']>();
+  private nextTemporaryId = -1;
+  private pageRequest = new Subscription();
+
+  constructor(private catalogAdmin: CatalogAdminService) { }
+
+  // Focuses the input of a cell as soon as its editing starts
+  @ViewChild('inlineInput') set inlineInput(input: ElementRef<HTMLInputElement> | undefined) {
+    input?.nativeElement.focus();
+  }
+
+  public ngOnInit() {
+    this.loadPage();
+    this.loadCategories();
+  }
+
+  public ngOnDestroy() {
+    this.pageRequest.unsubscribe();
+    // Nothing is left to undo once the page is closed
+    for (const pending of [...this.pendingDeletes]) {
+      clearTimeout(pending.timer);
+      this.commitDelete(pending);
+    }
+  }
+
+  public get isEditing(): boolean {
+    return this.editedId !== null;
+  }
+
+  public get formTitle(): string {
+    return this.isEditing ? 'Edit product' : 'New product';
+  }
+
+  public onSearch(searchTerm: string) {
+    this.searchTerm = searchTerm.trim();
+    this.currentPage = 1;
+    this.loadPage();
+  }
+
+  public onPageChange(page: number) {
+    this.currentPage = page;
+    this.loadPage();
+  }
+
+  public onPageSizeChange(pageSize: number) {
+    this.pageSize = pageSize;
+    this.currentPage = 1;
+    this.loadPage();
+  }
+
+  public retry() {
+    this.loadPage();
+  }
+
+  public isSaving(product: Product): boolean {
+    return this.savingIds.has(product.id);
+  }
+
+  public openCreateForm() {
+    this.editedId = null;
+    this.formDraft = null;
+    this.isFormOpen = true;
+  }
+
+  public openEditForm(product: Product) {
+    const { id, ...draft } = product;
+    this.editedId = id;
+    this.formDraft = draft;
+    this.isFormOpen = true;
+  }
+
+  public closeForm() {
+    this.isFormOpen = false;
+    this.formDraft = null;
+    this.editedId = null;
+  }
+
+  public onFormSave(draft: ProductDraft) {
+    const editedId = this.editedId;
+    this.closeForm();
+    if (editedId === null) {
+      this.create(draft);
+    } else {
+      this.update(editedId, draft);
+    }
+  }
+
+  public openImport() {
+    this.closeForm();
+    this.isImportOpen = true;
+  }
+
+  public closeImport() {
+    this.isImportOpen = false;
+  }
+
+  /**
+   * Lists the imported products, keeping the wizard open on its report.
+   */
+  public onImported() {
+    this.loadPage();
+    this.loadCategories();
+  }
+
+  public startInlineEdit(product: Product, field: InlineField) {
+    if (this.isSaving(product)) {
+      return;
+    }
+    this.inlineEdit = { id: product.id, field, value: product[field], error: null };
+  }
+
+  /**
+   * Saves the value of the cell being edited when it is valid and changed. An invalid value keeps
+   * the cell in edition, with the reason why it is rejected.
+   */
+  public commitInlineEdit() {
+    const edit = this.inlineEdit;
+    if (!edit) {
+      return;
+    }
+    const value = typeof edit.value === 'string' ? edit.value.trim() : edit.value;
+    const changes = { [edit.field]: value } as ProductChangeSet;
+    const errors = validateProduct(changes, true);
+    if (hasProductErrors(errors)) {
+      edit.error = errors.name ?? errors.price ?? null;
+      return;
+    }
+    this.inlineEdit = null;
+    const product = this.products.find(p => p.id === edit.id);
+    if (product && product[edit.field] !== value) {
+      this.update(edit.id, changes);
+    }
+  }
+
+  public cancelInlineEdit() {
+    this.inlineEdit = null;
+  }
+
+  /**
+   * Removes a product from the table. It is deleted from the catalog after `UNDO_DELAY_MS`,
+   * unless the deletion is undone before.
+   */
+  public delete(product: Product) {
+    const index = this.products.indexOf(product);
+    if (index < 0 || this.isSaving(product)) {
+      return;
+    }
+    this.products = this.products.filter(p => p !== product);
+    this.totalItems--;
+    const pending: PendingDelete = {
+      product,
+      index,
+      timer: setTimeout(() => this.commitDelete(pending), ProductAdminComponent.UNDO_DELAY_MS)
+    };
+    this.pendingDeletes.push(pending);
+  }
+
+  public undoDelete(pending: PendingDelete) {
+    clearTimeout(pending.timer);
+    this.pendingDeletes = this.pendingDeletes.filter(p => p !== pending);
+    this.restore(pending);
+  }
+
+  public dismissError() {
+    this.actionError = null;
+  }
+
+  public trackById(index: number, product: Product): Product['id'] {
+    return product.id;
+  }
+
+  private loadCategories() {
+    this.catalogAdmin.getCategories().subscribe({
+      next: categories => this.categories = categories,
+      error: () => this.categories = []
+    });
+  }
+
+  private loadPage() {
+    this.pageRequest.unsubscribe();
+    this.isLoading = true;
+    this.loadError = null;
+    this.pageRequest = this.catalogAdmin.getPage(this.searchTerm, this.currentPage, this.pageSize).subscribe({
+      next: response => {
+        // Products whose deletion can still be undone stay out of the table
+        const products = response.products.filter(product => !this.pendingDeletes.some(p => p.product.id === product.id));
+        this.products = products;
+        this.totalItems = response.totalItems - (response.products.length - products.length);
+        this.isLoading = false;
+      },
+      error: () => {
+        this.isLoading = false;
+        this.loadError = 'The products could not be loaded.';
+      }
+    });
+  }
+
+  /**
+   * Adds the product to the table under a temporary id, then replaces it with the created product.
+   * If the creation fails, the form is opened again with the typed attributes.
+   */
+  private create(draft: ProductDraft) {
+    const temporary: Product = { id: this.nextTemporaryId--, ...draft };
+    this.products = [temporary, ...this.products];
+    this.totalItems++;
+    this.savingIds.add(temporary.id);
+    this.catalogAdmin.create(draft).pipe(
+      finalize(() => this.savingIds.delete(temporary.id))
+    ).subscribe({
+      next: created => this.replace(temporary.id, created),
+      error: () => {
+        this.products = this.products.filter(p => p.id !== temporary.id);
+        this.totalItems--;
+        this.actionError = `"${draft.name}" could not be created.`;
+        this.formDraft = draft;
+        this.isFormOpen = true;
+      }
+    });
+  }
+
+  /**
+   * Shows the changes in the table at once, then the updated product, or the previous one if the update fails.
+   */
+  private update(id: Product['id'], changes: ProductChangeSet) {
+    const previous = this.products.find(p => p.id === id);
+    if (!previous) {
+      return;
+    }
+    this.replace(id, { ...previous, ...changes });
+    this.savingIds.add(id);
+    this.catalogAdmin.update(id, changes).pipe(
+      finalize(() => this.savingIds.delete(id))
+    ).subscribe({
+      next: updated => this.replace(id, updated),
+      error: () => {
+        this.replace(id, previous);
+        this.actionError = `The changes to "${previous.name}" could not be saved.`;
+      }
+    });
+  }
+
+  private commitDelete(pending: PendingDelete) {
+    this.pendingDeletes = this.pendingDeletes.filter(p => p !== pending);
+    this.catalogAdmin.remove(pending.product.id).subscribe({
+      error: () => {
+        this.restore(pending);
+        this.actionError = `"${pending.product.name}" could not be deleted.`;
+      }
+    });
+  }
+
+  private restore(pending: PendingDelete) {
+    const products = [...this.products];
+    products.splice(Math.min(pending.index, products.length), 0, pending.product);
+    this.products = products;
+    this.totalItems++;
+  }
+
+  private replace(id: Product['id'], product: Product) {
+    this.products = this.products.map(p => p.id === id ? product : p);
+  }
+}
+
+export { ProductAdminComponent };
@@ -0,0 +1,77 @@
+import { TestBed, ComponentFixture } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Title } from '@angular/platform-browser';
+import { ActivatedRoute, convertToParamMap, provideRouter, Router } from '@angular/router';
+import { of, throwError } from 'rxjs';
+import { ProductDetailComponent } from './product-detail.component';
+import { ProductService } from '../../../core/services/product.service';
+import { Product } from '../../../core/models/product.model';
+
+describe('ProductDetailComponent', () => {
+  let component: ProductDetailComponent;
+  let fixture: ComponentFixture<ProductDetailComponent>;
+  let productService: jasmine.SpyObj<ProductService>;
+
+  const product: Product = { id: 3, name: 'Phone', category: 'Electronics', price: 499, description: 'A phone.', imgUrl: 'phone.jpg' };
+
+  beforeEach(async () => {
+    const productServiceSpy = jasmine.createSpyObj('ProductService', ['getProduct']);
+
+    await TestBed.configureTestingModule({
+      imports: [ProductDetailComponent],
+      providers: [
+        provideRouter([]),
+        { provide: ProductService, useValue: productServiceSpy },
+        { provide: ActivatedRoute, useValue: { paramMap: of(convertToParamMap({ id: '3' })) } }
+      ]
+    }).compileComponents();
+
+    productService = TestBed.inject(ProductService) as jasmine.SpyObj<ProductService>;
+    productService.getProduct.and.returnValue(of(product));
+    fixture = TestBed.createComponent(ProductDetailComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('should display the product of the URL and describe the page with it', () => {
+    fixture.detectChanges();
+
+    expect(productService.getProduct).toHaveBeenCalledWith('3');
+    expect(component.product).toEqual(product);
+    expect(TestBed.inject(Title).getTitle()).toBe('Phone');
+    const element: HTMLElement = fixture.nativeElement;
+    expect(element.querySelector('h2')?.textContent).toContain('Phone');
+    expect(element.querySelector('.breadcrumb')?.textContent).toContain('Electronics');
+  });
+
+  it('should tell when the product does not exist', () => {
+    productService.getProduct.and.returnValue(throwError(() => new HttpErrorResponse({ status: 404 })));
+
+    fixture.detectChanges();
+
+    expect(component.product).toBeNull();
+    expect(component.isNotFound).toBeTrue();
+    expect(component.loadError).toBe('This product does not exist.');
+  });
+
+  it('should load the product again after a failure', () => {
+    productService.getProduct.and.returnValue(throwError(() => new HttpErrorResponse({ status: 503 })));
+    fixture.detectChanges();
+    expect(component.loadError).toBe('The product could not be loaded.');
+
+    productService.getProduct.and.returnValue(of(product));
+    component.retry();
+
+    expect(component.loadError).toBeNull();
+    expect(component.product).toEqual(product);
+  });
+
+  it('should open the listing when the page was opened directly', () => {
+    const router = TestBed.inject(Router);
+    spyOn(router, 'navigate');
+    fixture.detectChanges();
+
+    component.goBack();
+
+    expect(router.navigate).toHaveBeenCalledWith(['/']);
+  });
+});
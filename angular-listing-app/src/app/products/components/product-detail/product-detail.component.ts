@@ -0,0 +1,125 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule, Location, ViewportScroller } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Meta, Title } from '@angular/platform-browser';
+import { Subscription } from 'rxjs';
+import { Product } from '../../../core/models/product.model';
+import { ProductService } from '../../../core/services/product.service';
+
+/**
+ * @fileoverview
+ * The ProductDetailComponent displays a single product at `/products/:id`: its large image, full
+ * description, category breadcrumb and price. The page title and description are set from the product,
+ * so that the server-rendered page describes it.
+ *
+ * The product is fetched with `ProductService`. During server-side rendering the response is kept in the
+ * HTTP transfer state (`provideClientHydration`), so the browser reuses it instead of fetching it again.
+ *
+ * Going back returns to the previous page of the history when the user came from the listing, so that
+ * its search, filters and scroll position are restored; otherwise it opens the listing.
+ *
+ * @selector app-product-detail
+ * @standalone true
+ * @imports [CommonModule, RouterLink]
+ *
+ * @property {Product | null} public product - The product displayed, once loaded.
+ * @property {boolean} public isLoading - Whether the product is being loaded.
+ * @property {string | null} public loadError - The message displayed when loading the product failed.
+ * @property {boolean} public isNotFound - Whether no product has the id of the URL.
+ *
+ * @method goBack - Returns to the listing.
+ * @method retry - Loads the product again after a failure.
+ */
+@Component({
+  selector: 'app-product-detail',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './product-detail.component.html',
+  styleUrls: ['./product-detail.component.scss']
+})
+class ProductDetailComponent implements OnInit, OnDestroy {
+  public product: Product | null = null;
+  public isLoading = false;
+  public loadError: string | null = null;
+  public isNotFound = false;
+  private productId = '';
+  private previousTitle = '';
+  private hasPreviousPage: boolean;
+  private productRequest = new Subscription();
+  private subscriptions = new Subscription();
+
+  constructor(
+    private productService: ProductService,
+    private route: ActivatedRoute,
+    private router: Router,
+    private location: Location,
+    private title: Title,
+    private meta: Meta,
+    private viewportScroller: ViewportScroller
+  ) {
+    // Read while the navigation to this page is in progress: it has a predecessor unless the page was opened directly
+    this.hasPreviousPage = !!this.router.getCurrentNavigation()?.previousNavigation;
+  }
+
+  public ngOnInit() {
+    this.previousTitle = this.title.getTitle();
+    this.viewportScroller.scrollToPosition([0, 0]);
+    this.subscriptions.add(this.route.paramMap.subscribe(params => {
+      this.productId = params.get('id') ?? '';
+      this.loadProduct();
+    }));
+  }
+
+  public ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+    this.productRequest.unsubscribe();
+    this.title.setTitle(this.previousTitle);
+    this.meta.removeTag("name='description'");
+  }
+
+  /**
+   * Returns to the listing: back in the history when the user came from it, so that the listing
+   * restores its state and scroll position, or to the listing root when the page was opened directly.
+   */
+  public goBack() {
+    if (this.hasPreviousPage) {
+      this.location.back();
+    } else {
+      this.router.navigate(['/']);
+    }
+  }
+
+  /**
+   * Loads the product again after a failure.
+   */
+  public retry() {
+    this.loadProduct();
+  }
+
+  /**
+   * Fetches the product of the URL, cancelling the request for the previous one, if any.
+   */
+  private loadProduct() {
+    this.productRequest.unsubscribe();
+    this.isLoading = true;
+    this.loadError = null;
+    this.isNotFound = false;
+    this.productRequest = this.productService.getProduct(this.productId).subscribe({
+      next: product => {
+        this.isLoading = false;
+        this.product = product;
+        this.title.setTitle(product.name);
+        this.meta.updateTag({ name: 'description', content: product.description ?? '' });
+      },
+      error: error => {
+        this.isLoading = false;
+        this.product = null;
+        this.isNotFound = error instanceof HttpErrorResponse && error.status === 404;
+        this.loadError = this.isNotFound ? 'This product does not exist.' : 'The product could not be loaded.';
+      }
+    });
+  }
+}
+
+export { ProductDetailComponent };
@@ -0,0 +1,108 @@
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { Component, Inject, Input, OnDestroy, PLATFORM_ID } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { ExportColumn, ExportFormat, ExportProgress, ExportQuery } from '../../interfaces/product-export';
+import { ProductExportService } from '../../services/product-export.service';
+import { EXPORT_COLUMNS, EXPORT_COLUMN_LABELS, exportFileName } from '../../utils/product-export';
+
+/**
+ * @component ProductExportComponent
+ * 
+ * @description
+ * Exports every product matching the current search and filters, across all pages, to a CSV, JSON or
+ * XLSX file, with the columns picked by the user. The products are fetched and written in chunks, with
+ * a progress bar; the file is downloaded once complete.
+ * 
+ * @selector product-export
+ * 
+ * @inputs
+ * - `query: ExportQuery | null` - The search, filters and order of the listing.
+ * - `totalItems: number` - The number of products matching the query, shown on the export button.
+ * 
+ * @property {boolean} isOpen - Whether the export options are displayed.
+ * @property {ExportFormat} format - The format of the file.
+ * @property {Record<ExportColumn, boolean>} selectedColumns - Whether each column is exported.
+ * @property {ExportProgress | null} progress - The progress of the export running, if any.
+ * @property {string | null} errorMessage - The reason why the last export failed, if it did.
+ */
+@Component({
+    selector: 'product-export',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './product-export.component.html',
+    styleUrls: ['./product-export.component.scss']
+})
+export class ProductExportComponent implements OnDestroy {
+    @Input() query: ExportQuery | null = null;
+    @Input() totalItems = 0;
+
+    public readonly formats: Array<{ id: ExportFormat; label: string }> = [
+        { id: 'csv', label: 'CSV' },
+        { id: 'xlsx', label: 'Excel (XLSX)' },
+        { id: 'json', label: 'JSON' }
+    ];
+    public readonly columns = EXPORT_COLUMNS;
+    public readonly columnLabels = EXPORT_COLUMN_LABELS;
+    public isOpen = false;
+    public format: ExportFormat = 'csv';
+    public selectedColumns = Object.fromEntries(EXPORT_COLUMNS.map(column => [column, true])) as Record<ExportColumn, boolean>;
+    public progress: ExportProgress | null = null;
+    public errorMessage: string | null = null;
+    private exportRequest = new Subscription();
+
+    constructor(private productExport: ProductExportService, @Inject(PLATFORM_ID) private platformId: object) { }
+
+    ngOnDestroy(): void {
+        this.exportRequest.unsubscribe();
+    }
+
+    get hasSelectedColumns(): boolean {
+        return this.columns.some(column => this.selectedColumns[column]);
+    }
+
+    toggle() {
+        this.isOpen = !this.isOpen;
+        this.errorMessage = null;
+    }
+
+    /**
+     * Exports the products matching the query, then downloads the file.
+     */
+    startExport() {
+        if (!this.query || !this.hasSelectedColumns || !isPlatformBrowser(this.platformId)) {
+            return;
+        }
+        const format = this.format;
+        this.errorMessage = null;
+        this.progress = { exported: 0, total: this.totalItems };
+        this.exportRequest.unsubscribe();
+        this.exportRequest = this.productExport.export(this.query, format, this.columns.filter(column => this.selectedColumns[column])).subscribe({
+            next: progress => {
+                this.progress = progress;
+                if (progress.file) {
+                    this.download(progress.file, exportFileName(format));
+                }
+            },
+            error: () => {
+                this.progress = null;
+                this.errorMessage = 'The products could not be exported.';
+            },
+            complete: () => this.progress = null
+        });
+    }
+
+    cancelExport() {
+        this.exportRequest.unsubscribe();
+        this.progress = null;
+    }
+
+    private download(file: Blob, fileName: string) {
+        const url = URL.createObjectURL(file);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+}
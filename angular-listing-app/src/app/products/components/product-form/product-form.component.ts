@@ -0,0 +1,94 @@
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { ProductDraft } from '../../../core/models/product-draft.model';
+import { ProductErrors, hasProductErrors, validateProduct } from '../../utils/product-validation';
+
+/**
+ * @component ProductFormComponent
+ * 
+ * @description
+ * A form creating or editing a product: name, category, price, description and image URL.
+ * The name is required and the price must be a non-negative number, like on the API; errors are
+ * displayed once the user tried to save.
+ * 
+ * @selector product-form
+ * 
+ * @inputs
+ * - `product: ProductDraft | null` - The attributes the form starts with, `null` for an empty form.
+ * - `categories: string[]` - The existing categories, suggested for the category field.
+ * - `submitLabel: string` - The label of the save button. Default is "Save".
+ * 
+ * @outputs
+ * - `save: EventEmitter<ProductDraft>` - Emits the attributes of the product when they are valid, trimmed.
+ * - `cancel: EventEmitter<void>` - Emits when the user gives up.
+ * 
+ * @property {string} name - The typed name.
+ * @property {string} category - The typed category.
+ * @property {number | null} price - The typed price, `null` when the field is empty.
+ * @property {string} description - The typed description.
+ * @property {string} imgUrl - The typed image URL.
+ * @property {ProductErrors} errors - The reasons why the typed values are rejected, once the user tried to save.
+ */
+@Component({
+    selector: 'product-form',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './product-form.component.html',
+    styleUrls: ['./product-form.component.scss']
+})
+export class ProductFormComponent implements OnChanges {
+    @Input() product: ProductDraft | null = null;
+    @Input() categories: string[] = [];
+    @Input() submitLabel = 'Save';
+    @Output() save = new EventEmitter<ProductDraft>();
+    @Output() cancel = new EventEmitter<void>();
+
+    public name = '';
+    public category = '';
+    public price: number | null = null;
+    public description = '';
+    public imgUrl = '';
+    public errors: ProductErrors = {};
+    private isSubmitted = false;
+
+    ngOnChanges(changes: SimpleChanges): void {
+        if (changes['product']) {
+            this.name = this.product?.name ?? '';
+            this.category = this.product?.category ?? '';
+            this.price = this.product?.price ?? null;
+            this.description = this.product?.description ?? '';
+            this.imgUrl = this.product?.imgUrl ?? '';
+            this.isSubmitted = false;
+            this.errors = {};
+        }
+    }
+
+    /**
+     * Validates the typed values again once the user tried to save, so that errors disappear as they are fixed.
+     */
+    onValueChange() {
+        if (this.isSubmitted) {
+            this.errors = validateProduct({ name: this.name, price: this.price });
+        }
+    }
+
+    /**
+     * Emits the typed attributes, unless they are invalid.
+     */
+    submit() {
+        this.isSubmitted = true;
+        this.errors = validateProduct({ name: this.name, price: this.price });
+        if (hasProductErrors(this.errors)) {
+            return;
+        }
+        const imgUrl = this.imgUrl.trim();
+        this.save.emit({
+            name: this.name.trim(),
+            category: this.category.trim(),
+            price: this.price!,
+            description: this.description.trim(),
+            ...(imgUrl ? { imgUrl } : {})
+        });
+    }
+}
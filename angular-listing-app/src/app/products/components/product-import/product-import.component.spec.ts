@@ -0,0 +1,73 @@
+import { TestBed, ComponentFixture } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { ProductImportComponent } from './product-import.component';
+import { CatalogAdminService } from '../../services/catalog-admin.service';
+import { Product } from '../../../core/models/product.model';
+
+describe('ProductImportComponent', () => {
+  let component: ProductImportComponent;
+  let fixture: ComponentFixture<ProductImportComponent>;
+  let catalogAdmin: jasmine.SpyObj<CatalogAdminService>;
+
+  const catalog: Product[] = [{ id: 1, name: 'Phone', category: 'Electronics', price: 499, description: '' }];
+  const file = (content: string, name: string) => ({ target: { files: [new File([content], name)], value: '' } }) as unknown as Event;
+
+  beforeEach(async () => {
+    const catalogAdminSpy = jasmine.createSpyObj('CatalogAdminService', ['getCatalog', 'importProducts']);
+
+    await TestBed.configureTestingModule({
+      imports: [ProductImportComponent],
+      providers: [{ provide: CatalogAdminService, useValue: catalogAdminSpy }]
+    }).compileComponents();
+
+    catalogAdmin = TestBed.inject(CatalogAdminService) as jasmine.SpyObj<CatalogAdminService>;
+    catalogAdmin.getCatalog.and.returnValue(of(catalog));
+    fixture = TestBed.createComponent(ProductImportComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('should map the columns of the picked file and preview its rows', async () => {
+    await component.onFileSelected(file('Title,Price\nPhone,450\nLamp,-2\n', 'products.csv'));
+
+    expect(component.step).toBe('mapping');
+    expect(component.mapping).toEqual({ name: 'Title', price: 'Price' });
+
+    component.preview();
+
+    expect(component.step).toBe('preview');
+    expect(component.rows.map(row => row.action)).toEqual(['update', 'skip']);
+    expect(component.rowsToImport).toBe(1);
+  });
+
+  it('should not preview the rows until the name and price are mapped', async () => {
+    await component.onFileSelected(file('[{ "label": "Lamp", "price": 12 }]', 'products.json'));
+
+    component.preview();
+
+    expect(component.step).toBe('mapping');
+    expect(component.errorMessage).toBe('Map a column onto the name and the price.');
+    expect(catalogAdmin.getCatalog).not.toHaveBeenCalled();
+  });
+
+  it('should report an unreadable file', async () => {
+    await component.onFileSelected(file('{ "name": "Lamp" }', 'products.json'));
+
+    expect(component.step).toBe('file');
+    expect(component.errorMessage).toBe('The file does not hold a list of products');
+  });
+
+  it('should import the valid rows and report the outcome', async () => {
+    const report = { processed: 1, total: 1, created: 1, updated: 0, failed: [] };
+    catalogAdmin.importProducts.and.returnValue(of(report));
+    spyOn(component.imported, 'emit');
+    await component.onFileSelected(file('name,price\nLamp,12\n', 'products.csv'));
+    component.preview();
+
+    component.startImport();
+
+    expect(catalogAdmin.importProducts).toHaveBeenCalledWith(component.rows);
+    expect(component.step).toBe('report');
+    expect(component.progress).toEqual(report);
+    expect(component.imported.emit).toHaveBeenCalledWith(report);
+  });
+});
@@ -0,0 +1,186 @@
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, OnDestroy, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { ColumnMapping, ImportField, ImportProgress, ImportRow, ImportTable } from '../../interfaces/product-import';
+import { CatalogAdminService } from '../../services/catalog-admin.service';
+import { IMPORT_FIELDS, ProductImportError, guessColumnMapping, readImportFile, toImportRows } from '../../utils/product-import';
+
+type ImportStep = 'file' | 'mapping' | 'preview' | 'importing' | 'report';
+
+/**
+ * @component ProductImportComponent
+ * 
+ * @description
+ * A wizard importing products from a CSV or JSON file: the user picks the file, maps its columns onto the
+ * product attributes, checks a preview listing the errors of each row, then the valid rows are written in
+ * batches, with a progress bar, and a report tells how many products were created and updated and which
+ * rows were skipped or rejected. Rows update the product with the same id or name, see `toImportRows`.
+ * 
+ * @selector product-import
+ * 
+ * @outputs
+ * - `imported: EventEmitter<ImportProgress>` - Emits the final report once an import wrote products.
+ * - `closed: EventEmitter<void>` - Emits when the user closes the wizard.
+ * 
+ * @property {ImportStep} step - The step displayed.
+ * @property {string} fileName - The name of the picked file.
+ * @property {ColumnMapping} mapping - The column read for each product attribute.
+ * @property {ImportRow[]} rows - The rows of the file as they will be imported, once previewed.
+ * @property {ImportProgress | null} progress - The progress of the import, then its final report.
+ * @property {string | null} errorMessage - The reason why the last step failed, if it did.
+ */
+@Component({
+    selector: 'product-import',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './product-import.component.html',
+    styleUrls: ['./product-import.component.scss']
+})
+export class ProductImportComponent implements OnDestroy {
+    static readonly PREVIEW_LIMIT = 100;
+
+    @Output() imported = new EventEmitter<ImportProgress>();
+    @Output() closed = new EventEmitter<void>();
+
+    public readonly fields = IMPORT_FIELDS;
+    public readonly fieldLabels: Record<ImportField, string> = {
+        id: 'Id',
+        name: 'Name',
+        category: 'Category',
+        price: 'Price',
+        description: 'Description',
+        imgUrl: 'Image URL'
+    };
+    public step: ImportStep = 'file';
+    public fileName = '';
+    public table: ImportTable | null = null;
+    public mapping: ColumnMapping = {};
+    public rows: ImportRow[] = [];
+    public showErrorsOnly = false;
+    public progress: ImportProgress | null = null;
+    public isLoadingCatalog = false;
+    public errorMessage: string | null = null;
+    private importRequest = new Subscription();
+
+    constructor(private catalogAdmin: CatalogAdminService) { }
+
+    ngOnDestroy(): void {
+        this.importRequest.unsubscribe();
+    }
+
+    get rowsToImport(): number {
+        return this.rows.filter(row => row.action !== 'skip').length;
+    }
+
+    get skippedRows(): ImportRow[] {
+        return this.rows.filter(row => row.action === 'skip');
+    }
+
+    /**
+     * Gets the rows listed in the preview, at most `PREVIEW_LIMIT`.
+     */
+    get previewRows(): ImportRow[] {
+        const rows = this.showErrorsOnly ? this.skippedRows : this.rows;
+        return rows.slice(0, ProductImportComponent.PREVIEW_LIMIT);
+    }
+
+    get hiddenRowCount(): number {
+        return (this.showErrorsOnly ? this.skippedRows : this.rows).length - this.previewRows.length;
+    }
+
+    countRows(action: ImportRow['action']): number {
+        return this.rows.filter(row => row.action === action).length;
+    }
+
+    /**
+     * Reads the file picked by the user and maps its columns named after product attributes.
+     *
+     * @param {Event} event - The change event of the file input.
+     */
+    async onFileSelected(event: Event) {
+        const input = event.target as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) {
+            return;
+        }
+        try {
+            this.table = readImportFile(file.name, await file.text());
+            this.fileName = file.name;
+            this.mapping = guessColumnMapping(this.table.columns);
+            this.errorMessage = null;
+            this.step = 'mapping';
+        } catch (error) {
+            this.errorMessage = error instanceof ProductImportError ? error.message : 'The file could not be read';
+        }
+    }
+
+    /**
+     * Validates the rows with the chosen mapping, against the catalog to find the products they update.
+     */
+    preview() {
+        if (!this.table || !this.mapping.name || !this.mapping.price) {
+            this.errorMessage = 'Map a column onto the name and the price.';
+            return;
+        }
+        const table = this.table;
+        this.isLoadingCatalog = true;
+        this.errorMessage = null;
+        this.catalogAdmin.getCatalog().subscribe({
+            next: catalog => {
+                this.rows = toImportRows(table, this.mapping, catalog);
+                this.showErrorsOnly = false;
+                this.isLoadingCatalog = false;
+                this.step = 'preview';
+            },
+            error: () => {
+                this.isLoadingCatalog = false;
+                this.errorMessage = 'The catalog could not be loaded to find the products to update.';
+            }
+        });
+    }
+
+    /**
+     * Writes the valid rows, following the progress until the final report.
+     */
+    startImport() {
+        this.progress = { processed: 0, total: this.rowsToImport, created: 0, updated: 0, failed: [] };
+        this.step = 'importing';
+        this.importRequest = this.catalogAdmin.importProducts(this.rows).subscribe({
+            next: progress => this.progress = progress,
+            complete: () => this.finish()
+        });
+    }
+
+    /**
+     * Stops sending batches. The products already written are kept, and the batch being sent may still be written.
+     */
+    cancelImport() {
+        this.importRequest.unsubscribe();
+        this.finish();
+    }
+
+    back() {
+        this.errorMessage = null;
+        this.step = this.step === 'preview' ? 'mapping' : 'file';
+    }
+
+    /**
+     * Starts over with another file.
+     */
+    restart() {
+        this.step = 'file';
+        this.table = null;
+        this.rows = [];
+        this.progress = null;
+        this.errorMessage = null;
+    }
+
+    private finish() {
+        this.step = 'report';
+        if (this.progress && this.progress.created + this.progress.updated > 0) {
+            this.imported.emit(this.progress);
+        }
+    }
+}
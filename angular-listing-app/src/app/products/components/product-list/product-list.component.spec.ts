@@ -1,9 +1,11 @@
 import { TestBed, ComponentFixture } from '@angular/core/testing';
 import { ProductListComponent } from './product-list.component';
 import { FilteringService } from '../../services/filtering.service';
-import { of } from 'rxjs';
+import { of, Subject, throwError } from 'rxjs';
+import { FilterResponse } from '../../interfaces/filter-response';
 import { Product } from '../../../core/models/product.model';
 import { Filter } from '../../../core/models/filter.model';
+import { convertToParamMap, provideRouter, Router } from '@angular/router';
 
 describe('ProductListComponent', () => {
   let component: ProductListComponent;
@@ -11,11 +13,12 @@ describe('ProductListComponent', () => {
   let filteringService: jasmine.SpyObj<FilteringService>;
 
   beforeEach(async () => {
-    const filteringServiceSpy = jasmine.createSpyObj('FilteringService', ['getProducts', 'applyFiltersAndSearch', 'paginate', 'switchStrategy']);
+    const filteringServiceSpy = jasmine.createSpyObj('FilteringService', ['getProducts', 'applyFiltersAndSearch', 'paginate', 'switchStrategy', 'suggest', 'getCatalogStatus']);
 
     await TestBed.configureTestingModule({
-      declarations: [ProductListComponent],
+      imports: [ProductListComponent],
       providers: [
+        provideRouter([]),
         { provide: FilteringService, useValue: filteringServiceSpy }
       ]
     }).compileComponents();
@@ -27,31 +30,28 @@ describe('ProductListComponent', () => {
     filteringService.getProducts.and.returnValue(of([]));
     filteringService.applyFiltersAndSearch.and.returnValue(of({ products: [], totalItems: 0 }));
     filteringService.paginate.and.returnValue(of([]));
-    filteringService.switchStrategy.and.returnValue(of(null));
+    filteringService.switchStrategy.and.returnValue(of({ count: 0, categories: [], tags: [], priceRange: null, priceHistogram: [] }));
+    filteringService.suggest.and.returnValue(of([]));
+    filteringService.getCatalogStatus.and.returnValue(of({ offline: false, syncedAt: null }));
   });
 
   it('should create', () => {
     expect(component).toBeTruthy();
   });
 
-  it('should initialize products and categories on init', async () => {
-    const products: Product[] = [
-      {
-          id: 1, name: 'Product 1', category: 'Category 1', price: 100,
-          description: ''
-      },
-      {
-          id: 2, name: 'Product 2', category: 'Category 2', price: 200,
-          description: ''
-      }
-    ];
-    filteringService.getProducts.and.returnValue(of(products));
+  it('should initialize the filters from the catalog metadata on init, then load the listing', async () => {
+    const priceHistogram = [1, 0, 1];
+    filteringService.switchStrategy.and.returnValue(of({ count: 2, categories: ['Category 1', 'Category 2'], tags: ['smart'], priceRange: { min: 100, max: 200 }, priceHistogram }));
 
-    await component.ngOnInit();
+    component.ngOnInit();
+    await fixture.whenStable();
 
-    expect(component['products']).toEqual(products);
     expect(component.categories).toEqual(['Category 1', 'Category 2']);
-    expect(component.totalItems).toBe(2);
+    expect(component.tags).toEqual(['smart']);
+    expect(component.priceBounds).toEqual({ min: 100, max: 200 });
+    expect(component.priceHistogram).toEqual(priceHistogram);
+    expect(filteringService.getProducts).toHaveBeenCalled();
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalled();
   });
 
   it('should apply filters and search', () => {
@@ -61,7 +61,20 @@ describe('ProductListComponent', () => {
 
     component.applyFiltersAndSearch();
 
-    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledWith('Product', jasmine.any(Array), component.currentPage, component.pageSize);
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledWith('Product', jasmine.objectContaining({ logic: 'and' }), component.currentPage, component.pageSize, component.sortSelected.keys, ['category']);
+  });
+
+  it('should export the search, filters and sort of the listing, not only the current page', () => {
+    component.searchTerm = 'lamp category:Home';
+    component.sortSelected = component.sortOptions[1];
+
+    component.applyFiltersAndSearch();
+
+    expect(component.exportQuery).toEqual({
+      searchTerm: 'lamp',
+      filters: { logic: 'and', filters: [jasmine.objectContaining({ key: 'category' })] },
+      sort: component.sortOptions[1].keys
+    });
   });
 
   it('should handle page change', () => {
@@ -103,6 +116,29 @@ describe('ProductListComponent', () => {
     expect(filteringService.applyFiltersAndSearch).toHaveBeenCalled();
   });
 
+  it('should filter on all of the selected tags when the tag filter asks to', () => {
+    const filterChange: Filter = {
+        multiselect: { smart: true, wireless: true },
+        type: 'multiselect',
+        value: null,
+        range: null,
+        greater: null,
+        smaller: null,
+        logic: 'and'
+    };
+    const router = TestBed.inject(Router);
+    spyOn(router, 'navigate');
+
+    component.onTagsSelectedChange(filterChange);
+
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledWith('', jasmine.objectContaining({
+      filters: [{ key: 'tags', value: jasmine.objectContaining({ multiselect: { smart: true, wireless: true }, logic: 'and' }) }]
+    }), 1, 10, component.sortSelected.keys, ['category']);
+    expect(router.navigate).toHaveBeenCalledWith([], jasmine.objectContaining({
+      queryParams: jasmine.objectContaining({ tag: ['smart', 'wireless'], tagMatch: 'all' })
+    }));
+  });
+
   it('should handle price range change', () => {
     const filterChange: Filter = {
         range: { min: 50, max: 150 },
@@ -118,4 +154,161 @@ describe('ProductListComponent', () => {
     expect(component.priceRangeSelected).toEqual({ min: 50, max: 150 });
     expect(filteringService.applyFiltersAndSearch).toHaveBeenCalled();
   });
+
+  it('should handle sort change', () => {
+    component.currentPage = 3;
+
+    component.onSortChange('price-desc');
+
+    expect(component.sortSelected.id).toBe('price-desc');
+    expect(component.currentPage).toBe(1);
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledWith('', jasmine.any(Object), 1, component.pageSize, [{ field: 'price', direction: 'desc' }], ['category']);
+  });
+
+  it('should turn the search query syntax into filters and report errors', () => {
+    component.onSearch('shoes category:Fashion colour:red');
+
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledWith('shoes', {
+      logic: 'and',
+      filters: [jasmine.objectContaining({ key: 'category', value: jasmine.objectContaining({ type: 'value', value: 'Fashion' }) })]
+    }, 1, component.pageSize, component.sortSelected.keys, ['category']);
+    expect(component.searchErrors.length).toBe(1);
+  });
+
+  it('should suggest recent queries then matches of the free-text search term', async () => {
+    spyOn(component['recentSearches'], 'getAll').and.returnValue(['phone case', 'laptop']);
+    filteringService.suggest.and.returnValue(of([{ type: 'product', label: 'Phone', query: 'Phone' }]));
+    component.ngOnInit();
+    component['isLoaded'] = true;
+
+    component.onSearch('pho');
+
+    expect(filteringService.suggest).toHaveBeenCalledWith('pho', 7);
+    expect(component.suggestions).toEqual([
+      { type: 'recent', label: 'phone case', query: 'phone case' },
+      { type: 'product', label: 'Phone', query: 'Phone' }
+    ]);
+  });
+
+  it('should apply a saved preset on the first page, keeping the sort', () => {
+    component.sortSelected = component.sortOptions[1];
+    component.currentPage = 3;
+
+    component.onPresetApply({
+      id: 'a1',
+      name: 'Home Appliances under $100',
+      state: { searchTerm: 'kettle', categories: ['Home Appliances'], tags: [], tagsLogic: 'or', priceRange: { min: null, max: 100 }, pageSize: 20 }
+    });
+
+    expect(component.searchTerm).toBe('kettle');
+    expect(component.categoriesSelected).toEqual({ 'Home Appliances': true });
+    expect(component.priceRangeSelected).toEqual({ min: null, max: 100 });
+    expect(component.pageSize).toBe(20);
+    expect(component.currentPage).toBe(1);
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledWith('kettle', jasmine.any(Object), 1, 20, component.sortOptions[1].keys, ['category']);
+  });
+
+  it('should load the next page into the infinite list from the cursor of the previous one', () => {
+    const product = (id: number): Product => ({ id, name: `Product ${id}`, category: 'Category', price: id, description: '' });
+    filteringService.applyFiltersAndSearch.and.returnValue(of({ products: [product(1), product(2)], totalItems: 3, nextCursor: 'after-2', previousCursor: null }));
+
+    component.pageSize = 2;
+    component.onViewModeChange('infinite');
+
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledWith('', jasmine.any(Object), 1, 2, component.sortSelected.keys, ['category']);
+
+    filteringService.applyFiltersAndSearch.and.returnValue(of({ products: [product(3)], totalItems: 3, nextCursor: null, previousCursor: 'before-3' }));
+    component.loadMoreProducts();
+    component.loadMoreProducts();
+
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledTimes(2);
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledWith('', jasmine.any(Object), 2, 2, component.sortSelected.keys, [], 'after-2');
+    expect(component.currentPageProducts.map(p => p.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should restore the loaded products and scroll position of the infinite list', () => {
+    spyOn(component['scrollPositions'], 'get').and.returnValue({ offset: 960, loadedCount: 25 });
+
+    component['onQueryParamsChange'](convertToParamMap({ view: 'infinite' }));
+    component['isLoaded'] = true;
+    component.applyFiltersAndSearch();
+
+    expect(component.viewMode).toBe('infinite');
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledWith('', jasmine.any(Object), 1, 30, component.sortSelected.keys, ['category']);
+    expect(component.scrollTarget).toEqual({ offset: 960 });
+  });
+
+  it('should cancel a superseded request so that the latest one wins', () => {
+    const product = (id: number): Product => ({ id, name: `Product ${id}`, category: 'Category', price: id, description: '' });
+    const slow = new Subject<FilterResponse>();
+    const fast = new Subject<FilterResponse>();
+    filteringService.applyFiltersAndSearch.and.returnValues(slow, fast);
+
+    component.onSearch('phone');
+    component.onSearch('phone case');
+
+    expect(slow.observed).toBeFalse();
+    expect(component.isLoading).toBeTrue();
+
+    fast.next({ products: [product(2)], totalItems: 1 });
+
+    expect(component.currentPageProducts.map(p => p.id)).toEqual([2]);
+    expect(component.isLoading).toBeFalse();
+  });
+
+  it('should report a failed request and retry it', () => {
+    filteringService.applyFiltersAndSearch.and.returnValue(throwError(() => new Error('Service unavailable')));
+
+    component.onSearch('phone');
+
+    expect(component.isLoading).toBeFalse();
+    expect(component.loadError).toBe('The products could not be loaded.');
+
+    filteringService.applyFiltersAndSearch.and.returnValue(of({ products: [], totalItems: 0 }));
+    component.retry();
+
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledTimes(2);
+    expect(component.loadError).toBeNull();
+  });
+
+  it('should tell when the catalog is offline and how old it is', () => {
+    filteringService.getCatalogStatus.and.returnValue(of({ offline: true, syncedAt: Date.UTC(2024, 4, 1, 12) }));
+
+    fixture.detectChanges();
+
+    const banner: HTMLElement = fixture.nativeElement.querySelector('.offline-banner');
+    expect(banner.textContent).toContain('Offline, data from');
+  });
+
+  it('should mirror the listing state in the URL', () => {
+    const router = TestBed.inject(Router);
+    spyOn(router, 'navigate');
+
+    component.onSearch('phone');
+
+    expect(router.navigate).toHaveBeenCalledWith([], jasmine.objectContaining({
+      queryParams: jasmine.objectContaining({ q: 'phone', page: null })
+    }));
+  });
+
+  it('should restore the listing state from the URL', () => {
+    component['isLoaded'] = true;
+
+    component['onQueryParamsChange'](convertToParamMap({ q: 'shoes', category: ['Fashion'], maxPrice: '100', sort: 'price-asc', page: '2' }));
+
+    expect(component.searchTerm).toBe('shoes');
+    expect(component.categoriesSelected).toEqual({ Fashion: true });
+    expect(component.priceRangeSelected).toEqual({ min: null, max: 100 });
+    expect(component.sortSelected.id).toBe('price-asc');
+    expect(component.currentPage).toBe(2);
+    expect(filteringService.applyFiltersAndSearch).toHaveBeenCalledWith('shoes', jasmine.any(Object), 2, 10, [{ field: 'price', direction: 'asc' }], ['category']);
+  });
+
+  it('should restore the selected tags and their match logic from the URL', () => {
+    component['onQueryParamsChange'](convertToParamMap({ tag: ['smart', 'wireless'], tagMatch: 'all' }));
+
+    expect(component.tagsSelected).toEqual({ smart: true, wireless: true });
+    expect(component.tagsLogic).toBe('and');
+    expect(component.tagSelection).toEqual(jasmine.objectContaining({ multiselect: { smart: true, wireless: true }, logic: 'and' }));
+  });
 });
\ No newline at end of file
@@ -1,5 +1,5 @@
-import { Component, OnInit } from '@angular/core';
-import { CommonModule } from '@angular/common';
+import { Component, HostListener, Injector, OnDestroy, OnInit, afterNextRender } from '@angular/core';
+import { CommonModule, ViewportScroller } from '@angular/common';
 import { Product } from '../../../core/models/product.model';
 import { ProductService } from '../../../core/services/product.service';
 import { PaginationComponent } from '../../../shared/components/pagination/pagination.component';
@@ -8,10 +8,28 @@ import { ProductComponent } from '../product/product.component';
 import { PriceRange } from '../../../core/models/price-range.model';
 import { FilterComponent } from '../../../shared/components/filters/filter.component';
 import { Filter } from '../../../core/models/filter.model';
+import { FilterLogic } from '../../../core/models/filter-logic.model';
 import { FilteringService } from '../../services/filtering.service';
-import { firstValueFrom } from 'rxjs';
-import { response } from 'express';
-import { FilterType } from '../../../core/models/filter-type.model';
+import { catchError, firstValueFrom, map, Observable, of, Subject, Subscription, switchMap } from 'rxjs';
+import { ActivatedRoute, ParamMap, Router } from '@angular/router';
+import { FilterExpression } from '../../../core/models/filter-expression.model';
+import { SortOption } from '../../../core/models/sort.model';
+import { SORT_OPTIONS } from '../../utils/product-sort';
+import { ListingState, ListingViewMode } from '../../interfaces/listing-state';
+import { fromQueryParams, isSameListingState, toQueryParams } from '../../utils/listing-query-params';
+import { parseSearchQuery } from '../../utils/search-query-parser';
+import { Suggestion } from '../../../core/models/suggestion.model';
+import { RecentSearchesService } from '../../../core/services/recent-searches.service';
+import { MAX_RECENT_SUGGESTIONS, MAX_SUGGESTIONS, recentSuggestions } from '../../utils/suggestions';
+import { FilterPresetsComponent } from '../filter-presets/filter-presets.component';
+import { FilterPreset } from '../../interfaces/filter-preset';
+import { toPresetState } from '../../utils/filter-presets';
+import { VirtualListComponent } from '../../../shared/components/virtual-list/virtual-list.component';
+import { ScrollPositionService } from '../../services/scroll-position.service';
+import { CatalogStatus } from '../../interfaces/catalog-snapshot';
+import { CatalogMetadata } from '../../interfaces/catalog-metadata';
+import { ProductExportComponent } from '../product-export/product-export.component';
+import { ExportQuery } from '../../interfaces/product-export';
 
 /**
  * @component ProductListComponent
@@ -21,28 +39,64 @@ import { FilterType } from '../../../core/models/filter-type.model';
  * ProductService to fetch the products and applies various filters and pagination to display the 
  * products accordingly.
  * 
+ * The listing state (search term, filters, sort, page, page size and view mode) is two-way bound to the URL
+ * query parameters: user changes push a new history entry, and navigating back or forward, reloading
+ * or opening a shared link restores the corresponding state.
+ * 
+ * Products are browsed either page by page, or in an infinite list that loads the next page when the
+ * user scrolls close to its end and only renders the visible rows. The scroll position, of the page or
+ * of the infinite list, is restored when the user navigates back to the listing, e.g. from a product page.
+ * 
+ * Every product matching the search and filters, not only the displayed ones, can be exported to a file
+ * (see `ProductExportComponent`).
+ * 
  * @selector app-product-list
  * @standalone true
- * @imports [CommonModule, PaginationComponent, SearchComponent, ProductComponent, FilterComponent]
+ * @imports [CommonModule, PaginationComponent, SearchComponent, ProductComponent, FilterComponent, FilterPresetsComponent, ProductExportComponent, VirtualListComponent]
  * @templateUrl ./product-list.component.html
  * 
  * @class ProductListComponent
- * @implements OnInit
+ * @implements OnInit, OnDestroy
  * 
- * @property {Product[]} private products - The complete list of products fetched from the service.
  * @property {Product[]} public filteredProducts - The list of products after applying filters and search.
- * @property {Product[]} public currentPageProducts - The list of products to be displayed on the current page.
+ * @property {Product[]} public currentPageProducts - The list of products to be displayed on the current page,
+ * or all the products loaded so far in the infinite list.
  * @property {number} public currentPage - The current page number for pagination.
  * @property {number} public pageSize - The number of products to display per page.
- * @property {string} public searchTerm - The search term used to filter products.
+ * @property {string} public searchTerm - The search query typed by the user, possibly using the query syntax (see `parseSearchQuery`).
+ * @property {string[]} public searchErrors - The problems found in the search query, displayed by the search bar.
+ * @property {Suggestion[]} public suggestions - The recent queries, categories and product names suggested for the search query.
  * @property {number} public totalItems - The total number of items after filtering and searching.
  * @property {number[]} public pageSizeOptions - The available options for the number of products per page.
  * @property {string[]} public categories - The list of unique product categories.
+ * @property {{ [category: string]: number } | null} public categoryCounts - The number of matching products per category.
+ * @property {string[]} public tags - The list of unique product tags.
+ * @property {PriceRange | null} public priceBounds - The lowest and highest price in the catalog.
+ * @property {number[]} public priceHistogram - The number of products in equal-width intervals of the price bounds, drawn by the price filter.
  * @property {Map<string, boolean> | null} public categoriesSelected - The map of selected categories for filtering.
+ * @property {{ [tag: string]: boolean } | null} public tagsSelected - The map of selected tags for filtering.
+ * @property {FilterLogic} public tagsLogic - Whether products must have any (`or`) or all (`and`) of the selected tags.
  * @property {PriceRange | null} public priceRangeSelected - The selected price range for filtering.
+ * @property {SortOption[]} public sortOptions - The available sorts.
+ * @property {SortOption} public sortSelected - The sort applied to the product list.
+ * @property {Filter | null} public categorySelection - The category filter restored from the URL, displayed by the category filter.
+ * @property {Filter | null} public tagSelection - The tag filter restored from the URL, displayed by the tag filter.
+ * @property {Filter | null} public priceSelection - The price filter restored from the URL, displayed by the price filter.
+ * @property {ListingViewMode} public viewMode - Whether products are browsed page by page or in an infinite list.
+ * @property {number} public productRowHeight - The height of a product row in the infinite list, in pixels.
+ * @property {boolean} public isLoadingMore - Whether the next products of the infinite list are being loaded.
+ * @property {{ offset: number } | null} public scrollTarget - The offset the infinite list scrolls to once loaded.
+ * @property {boolean} public isLoading - Whether the catalog or a page of products is being loaded.
+ * @property {string | null} public loadError - The message displayed when loading products failed.
+ * @property {CatalogStatus} public catalogStatus - Whether the catalog is offline and when it was last refreshed, displayed as a banner.
+ * @property {ExportQuery | null} public exportQuery - The search, filters and sort of the listing, exported by the export action.
  * 
  * @constructor
- * @param {ProductService} private productService - The service used to fetch products.
+ * @param {FilteringService} private filteringService - The service used to filter, search and paginate products.
+ * @param {Router} private router - The router used to mirror the listing state in the URL.
+ * @param {ActivatedRoute} private route - The route whose query parameters hold the listing state.
+ * @param {RecentSearchesService} private recentSearches - The service remembering the searched queries.
+ * @param {ScrollPositionService} private scrollPositions - The service remembering the scroll position of the infinite list.
  * 
  * @method ngOnInit - Initializes the component and sets up subscriptions.
  * @method applyFiltersAndSearch - Refreshes the product list by applying filtering, searching, and pagination.
@@ -53,85 +107,428 @@ import { FilterType } from '../../../core/models/filter-type.model';
  * @method onPageChange - Handles the event when the page is changed.
  * @method onPageSizeChange - Handles the change in page size for the product list.
  * @method onSearch - Handles the search functionality.
+ * @method onSearchSubmit - Remembers an explicitly searched query.
  * @method onCategoriesSelectedChange - Handles the change event when categories are selected.
+ * @method onTagsSelectedChange - Handles the change event when tags are selected.
  * @method onPriceRangeChange - Handles the change event for the selected price range filter.
+ * @method onSortChange - Handles the change of the selected sort.
+ * @method onPresetApply - Applies the search, filters and page size of a saved preset.
+ * @method onViewModeChange - Switches between the paged and the infinite list.
+ * @method loadMoreProducts - Appends the next page of products to the infinite list.
+ * @method onScrollChange - Keeps track of the scroll position of the infinite list.
+ * @method retry - Retries the last request that failed.
  */
 @Component({
   selector: 'app-product-list',
   standalone: true,
-  imports: [CommonModule, PaginationComponent, SearchComponent, ProductComponent, FilterComponent],
+  imports: [CommonModule, PaginationComponent, SearchComponent, ProductComponent, FilterComponent, FilterPresetsComponent, ProductExportComponent, VirtualListComponent],
   templateUrl: './product-list.component.html',
   styleUrls: ['./product-list.component.scss']
 })
-class ProductListComponent implements OnInit {
-  private products: Product[] = [];
+class ProductListComponent implements OnInit, OnDestroy {
   public filteredProducts: Product[] = [];
   public currentPageProducts: Product[] = [];
   public currentPage = 1;
   public pageSize = 10;
   public searchTerm = '';
+  public searchErrors: string[] = [];
+  public suggestions: Suggestion[] = [];
+  private suggestionTerms = new Subject<string>();
   public totalItems = 0;
   public pageSizeOptions = [5, 10, 20, 50];
   public categories: Array<string> = [];
+  public categoryCounts: { [category: string]: number } | null = null;
+  public tags: string[] = [];
+  public priceBounds: PriceRange | null = null;
+  public priceHistogram: number[] = [];
   public categoriesSelected: { [key: string]: boolean } | null = {};
+  public tagsSelected: { [tag: string]: boolean } | null = {};
+  public tagsLogic: FilterLogic = 'or';
   public priceRangeSelected: PriceRange | null = { min: null, max: null };
+  public sortOptions: SortOption[] = SORT_OPTIONS;
+  public sortSelected: SortOption = SORT_OPTIONS[0];
+  public categorySelection: Filter | null = null;
+  public tagSelection: Filter | null = null;
+  public priceSelection: Filter | null = null;
+  public viewMode: ListingViewMode = 'paged';
+  public readonly productRowHeight = 320;
+  public isLoadingMore = false;
+  public scrollTarget: { offset: number } | null = null;
+  private scrollOffset = 0;
+  private isScrollRestorePending = true;
+  public isLoading = false;
+  public loadError: string | null = null;
+  public catalogStatus: CatalogStatus = { offline: false, syncedAt: null };
+  public exportQuery: ExportQuery | null = null;
+  private retryAction: (() => void) | null = null;
+  private listingRequest = new Subscription();
+  private loadMoreRequest = new Subscription();
+  private nextCursor: string | null = null;
+  private isLoaded = false;
+  private subscriptions = new Subscription();
 
-  constructor(private filteringService: FilteringService) { }
+  constructor(
+    private filteringService: FilteringService,
+    private router: Router,
+    private route: ActivatedRoute,
+    private recentSearches: RecentSearchesService,
+    private scrollPositions: ScrollPositionService,
+    private viewportScroller: ViewportScroller,
+    private injector: Injector
+  ) { }
 
   public ngOnInit() {
     this.initSubscriptions();
   }
 
+  public ngOnDestroy() {
+    this.saveScrollPosition();
+    this.subscriptions.unsubscribe();
+    this.listingRequest.unsubscribe();
+    this.loadMoreRequest.unsubscribe();
+  }
+
+  /**
+   * Saves the scroll position when the user leaves the listing, e.g. for a product page,
+   * so that coming back restores it: the offset of the infinite list, or of the page.
+   */
+  @HostListener('window:pagehide')
+  public saveScrollPosition() {
+    if (this.currentPageProducts.length > 0) {
+      const offset = this.viewMode === 'infinite' ? this.scrollOffset : this.viewportScroller.getScrollPosition()[1];
+      this.scrollPositions.save(this.scrollKey, { offset, loadedCount: this.currentPageProducts.length });
+    }
+  }
+
   private async initSubscriptions() {
+    this.subscriptions.add(this.route.queryParamMap.subscribe(params => this.onQueryParamsChange(params)));
+    this.subscriptions.add(this.suggestionTerms.pipe(
+      switchMap(term => this.loadSuggestions(term))
+    ).subscribe(suggestions => this.suggestions = suggestions));
+    this.subscriptions.add(this.filteringService.getCatalogStatus().subscribe(status => this.catalogStatus = status));
     this.getProducts();
   }
 
   /**
-   * Fetches the products from the ProductService and initializes the component state.
+   * Gets the current listing state, as mirrored in the URL.
+   */
+  get listingState(): ListingState {
+    return {
+      searchTerm: this.searchTerm,
+      categories: Object.keys(this.categoriesSelected ?? {}).filter(category => this.categoriesSelected![category]),
+      tags: Object.keys(this.tagsSelected ?? {}).filter(tag => this.tagsSelected![tag]),
+      tagsLogic: this.tagsLogic,
+      priceRange: this.priceRangeSelected ?? { min: null, max: null },
+      sortId: this.sortSelected.id,
+      currentPage: this.currentPage,
+      pageSize: this.pageSize,
+      viewMode: this.viewMode
+    };
+  }
+
+  /**
+   * Gets the key under which the scroll position of the infinite list is saved: the listing URL.
+   */
+  private get scrollKey(): string {
+    return JSON.stringify(toQueryParams(this.listingState));
+  }
+
+  /**
+   * Restores the listing state from the URL when it differs from the current one,
+   * e.g. on the initial load or on back/forward navigation.
+   *
+   * @param {ParamMap} params - The URL query parameters.
+   */
+  private onQueryParamsChange(params: ParamMap) {
+    const state = fromQueryParams(params);
+    if (isSameListingState(state, this.listingState)) {
+      return;
+    }
+    this.restoreState(state);
+    if (this.isLoaded) {
+      this.applyFiltersAndSearch();
+    }
+  }
+
+  /**
+   * Applies a listing state to the component and to the filters displaying it.
+   *
+   * @param {ListingState} state - The state to restore.
+   */
+  private restoreState(state: ListingState) {
+    this.searchTerm = state.searchTerm;
+    this.categoriesSelected = Object.fromEntries(state.categories.map(category => [category, true]));
+    this.tagsSelected = Object.fromEntries(state.tags.map(tag => [tag, true]));
+    this.tagsLogic = state.tagsLogic;
+    this.priceRangeSelected = state.priceRange;
+    this.sortSelected = this.sortOptions.find(option => option.id === state.sortId) ?? SORT_OPTIONS[0];
+    this.viewMode = state.viewMode;
+    this.currentPage = state.viewMode === 'infinite' ? 1 : state.currentPage;
+    this.pageSize = state.pageSize;
+    this.categorySelection = {
+      type: 'multiselect',
+      value: null,
+      range: null,
+      greater: null,
+      smaller: null,
+      multiselect: this.categoriesSelected,
+      logic: 'or',
+    };
+    this.tagSelection = {
+      type: 'multiselect',
+      value: null,
+      range: null,
+      greater: null,
+      smaller: null,
+      multiselect: this.tagsSelected,
+      logic: this.tagsLogic,
+    };
+    this.priceSelection = {
+      type: 'range',
+      value: null,
+      range: this.priceRangeSelected,
+      greater: null,
+      smaller: null,
+      multiselect: null,
+    };
+  }
+
+  /**
+   * Mirrors the current listing state in the URL, adding a history entry.
+   */
+  private updateUrl() {
+    this.router.navigate([], { relativeTo: this.route, queryParams: toQueryParams(this.listingState) });
+  }
+
+  /**
+   * Fetches the catalog metadata, which selects the filtering strategy and initializes the filters,
+   * then lets the strategy load the products it filters in memory, if any.
    * This method is called during the component initialization to load the products.
    */
   private async getProducts() {
-    await firstValueFrom(this.filteringService.switchStrategy());
-    this.filteringService.getProducts().subscribe((data: Product[]) => {
-      this.products = data;
-      this.categories = [...new Set(this.products.map(p => p.category))];
-      this.totalItems = this.products.length;
-      this.applyFiltersAndSearch();  
+    this.startLoading(() => this.getProducts());
+    try {
+      this.onMetadataLoaded(await firstValueFrom(this.filteringService.switchStrategy()));
+    } catch {
+      this.onLoadError('The products could not be loaded.');
+      return;
+    }
+    this.filteringService.getProducts().subscribe({
+      next: () => this.onProductsLoaded(),
+      error: () => this.onLoadError('The products could not be loaded.')
     });
   }
 
   /**
-   * This method refreshes the product list by applying filtering, searching, and pagination.
+   * Initializes the categories, tags and prices offered by the filters from the catalog metadata.
+   *
+   * @param {CatalogMetadata} metadata - The description of the catalog.
    */
-  public applyFiltersAndSearch() {
-    const filters = [];
+  private onMetadataLoaded(metadata: CatalogMetadata) {
+    this.categories = metadata.categories;
+    this.tags = metadata.tags;
+    this.priceBounds = metadata.priceRange;
+    this.priceHistogram = metadata.priceHistogram;
+    this.totalItems = metadata.count;
+  }
+
+  /**
+   * Loads the listing once the strategy is ready to filter. Strategies streaming the catalog emit
+   * it several times as it grows: the listing is only loaded the first time.
+   */
+  private onProductsLoaded() {
+    if (this.isLoaded) {
+      return;
+    }
+    this.isLoaded = true;
+    this.applyFiltersAndSearch();
+    this.suggestionTerms.next(this.searchTerm);
+  }
+
+  /**
+   * Marks the listing as loading, remembering how to retry the request if it fails.
+   *
+   * @param {() => void} retryAction - Starts the request again.
+   */
+  private startLoading(retryAction: () => void) {
+    this.isLoading = true;
+    this.loadError = null;
+    this.retryAction = retryAction;
+  }
+
+  /**
+   * Reports a failed request. The products already displayed are kept.
+   *
+   * @param {string} message - The message displayed to the user.
+   */
+  private onLoadError(message: string) {
+    this.isLoading = false;
+    this.loadError = message;
+  }
+
+  /**
+   * Retries the last request that failed.
+   */
+  public retry() {
+    this.retryAction?.();
+  }
+
+  /**
+   * Loads the suggestions for a search query: the matching recent queries, then the categories
+   * and product names matching its free-text part, from the current filtering strategy.
+   *
+   * @param {string} term - The search query typed so far.
+   * @returns {Observable<Suggestion[]>} An observable emitting the suggestions.
+   */
+  private loadSuggestions(term: string): Observable<Suggestion[]> {
+    const recent = recentSuggestions(this.recentSearches.getAll(), term, MAX_RECENT_SUGGESTIONS);
+    const freeText = parseSearchQuery(term).searchTerm;
+    if (!freeText || !this.isLoaded) {
+      return of(recent);
+    }
+    return this.filteringService.suggest(freeText, MAX_SUGGESTIONS - recent.length).pipe(
+      map(suggestions => [...recent, ...suggestions]),
+      catchError(() => of(recent))
+    );
+  }
+
+  /**
+   * Builds the query sent to the filtering service. The search query is parsed into a free-text
+   * search term and filters, which are combined with the ones selected in the filter panel.
+   * Invalid parts of the query are reported in the search bar.
+   *
+   * @returns The free-text search term and the filter expression.
+   */
+  private buildQuery(): { searchTerm: string; filters: FilterExpression } {
+    const searchQuery = parseSearchQuery(this.searchTerm);
+    this.searchErrors = searchQuery.errors.map(error => `${error.token}: ${error.message}`);
+
+    const filters: FilterExpression[] = [];
     if (this.categoriesSelected && Object.values(this.categoriesSelected).some(selected => selected)) {
-      const categories = Object.keys(this.categoriesSelected).flatMap(category => this.categoriesSelected![category] ? category : []);
-      filters.push({ 
-      key: 'category', 
-      value: {
-        multiselect: this.categoriesSelected,
-        type: 'multiselect' as FilterType,
-        value: categories,
-      } 
+      filters.push({
+        key: 'category',
+        value: {
+          type: 'multiselect',
+          value: null,
+          range: null,
+          greater: null,
+          smaller: null,
+          multiselect: this.categoriesSelected,
+          logic: 'or',
+        }
+      });
+    }
+    if (this.tagsSelected && Object.values(this.tagsSelected).some(selected => selected)) {
+      filters.push({
+        key: 'tags',
+        value: {
+          type: 'multiselect',
+          value: null,
+          range: null,
+          greater: null,
+          smaller: null,
+          multiselect: this.tagsSelected,
+          logic: this.tagsLogic,
+        }
       });
     }
     if (this.priceRangeSelected && (this.priceRangeSelected.min !== null || this.priceRangeSelected.max !== null)) {
-      filters.push({ 
-        key: 'price', 
+      filters.push({
+        key: 'price',
         value: {
-          type: 'range' as FilterType,
-          value: [this.priceRangeSelected.min, this.priceRangeSelected.max],
-        } 
+          type: 'range',
+          value: null,
+          range: this.priceRangeSelected,
+          greater: null,
+          smaller: null,
+          multiselect: null,
+        }
       });
     }
 
-    this.filteringService.applyFiltersAndSearch(this.searchTerm, filters, this.currentPage, this.pageSize)
-      .subscribe(response => {
-      this.currentPageProducts = response.products;
-      this.totalItems = response.totalItems;
+    filters.push(...searchQuery.filters);
+    return { searchTerm: searchQuery.searchTerm, filters: { logic: 'and', filters } };
+  }
+
+  /**
+   * This method refreshes the product list by applying filtering, searching, and pagination.
+   * In the infinite list, the first page is loaded, or as many pages as were loaded when the
+   * user left the list, whose scroll position is then restored. Page by page, the scroll position
+   * of the page is restored once the products are displayed.
+   * The pending requests of the previous listing are cancelled, so the latest request always wins.
+   */
+  public applyFiltersAndSearch() {
+    const { searchTerm, filters } = this.buildQuery();
+    this.exportQuery = { searchTerm, filters, sort: this.sortSelected.keys };
+    const isInfinite = this.viewMode === 'infinite';
+    const restored = this.isScrollRestorePending ? this.scrollPositions.get(this.scrollKey) : null;
+    const pageSize = restored && isInfinite ? Math.ceil(restored.loadedCount / this.pageSize) * this.pageSize : this.pageSize;
+    this.isScrollRestorePending = false;
+    this.isLoadingMore = false;
+    this.nextCursor = null;
+    this.listingRequest.unsubscribe();
+    this.loadMoreRequest.unsubscribe();
+    this.startLoading(() => this.applyFiltersAndSearch());
+
+    this.listingRequest = this.filteringService.applyFiltersAndSearch(searchTerm, filters, isInfinite ? 1 : this.currentPage, pageSize, this.sortSelected.keys, ['category'])
+      .subscribe({
+        next: response => {
+          this.isLoading = false;
+          this.currentPageProducts = response.products;
+          this.totalItems = response.totalItems;
+          this.categoryCounts = response.facets?.['category'] ?? null;
+          this.nextCursor = response.nextCursor ?? null;
+          if (isInfinite) {
+            this.scrollOffset = restored?.offset ?? 0;
+            this.scrollTarget = { offset: this.scrollOffset };
+          } else if (restored) {
+            afterNextRender(() => this.viewportScroller.scrollToPosition([0, restored.offset]), { injector: this.injector });
+          }
+        },
+        error: () => this.onLoadError('The products could not be loaded.')
       });
   }
+
+  /**
+   * Appends the next page of products to the infinite list, unless it is already being
+   * loaded or every product is loaded. The page is requested with the cursor of the previous
+   * response, so products added or removed meanwhile do not cause duplicates or gaps.
+   * A new search cancels the request.
+   */
+  public loadMoreProducts() {
+    if (this.viewMode !== 'infinite' || this.isLoadingMore || this.currentPageProducts.length >= this.totalItems) {
+      return;
+    }
+    const { searchTerm, filters } = this.buildQuery();
+    const nextPage = Math.floor(this.currentPageProducts.length / this.pageSize) + 1;
+    this.isLoadingMore = true;
+    this.loadError = null;
+    this.retryAction = () => this.loadMoreProducts();
+
+    this.loadMoreRequest = this.filteringService.applyFiltersAndSearch(searchTerm, filters, nextPage, this.pageSize, this.sortSelected.keys, [], this.nextCursor)
+      .subscribe({
+        next: response => {
+          this.currentPageProducts = [...this.currentPageProducts, ...response.products];
+          this.totalItems = response.totalItems;
+          this.nextCursor = response.nextCursor ?? null;
+          this.isLoadingMore = false;
+        },
+        error: () => {
+          this.isLoadingMore = false;
+          this.loadError = 'More products could not be loaded.';
+        }
+      });
+  }
+
+  /**
+   * Keeps track of the scroll position of the infinite list, saved when the user leaves the page.
+   *
+   * @param {number} offset - The scroll offset, in pixels.
+   */
+  public onScrollChange(offset: number) {
+    this.scrollOffset = offset;
+  }
+
   /**
    * Paginates the filtered products based on the current page and page size.
    * 
@@ -141,8 +538,14 @@ class ProductListComponent implements OnInit {
    * @private
    */
   private paginateProducts() {
-    this.filteringService.paginate(this.currentPage, this.pageSize).subscribe(paginatedProducts => {
-      this.currentPageProducts = paginatedProducts;
+    this.listingRequest.unsubscribe();
+    this.startLoading(() => this.paginateProducts());
+    this.listingRequest = this.filteringService.paginate(this.currentPage, this.pageSize).subscribe({
+      next: paginatedProducts => {
+        this.isLoading = false;
+        this.currentPageProducts = paginatedProducts;
+      },
+      error: () => this.onLoadError('The page could not be loaded.')
     });
   }
 
@@ -155,6 +558,7 @@ class ProductListComponent implements OnInit {
   public onPageChange(newPage: number) {
     this.currentPage = newPage;
     this.paginateProducts();
+    this.updateUrl();
   }
 
 
@@ -169,19 +573,33 @@ class ProductListComponent implements OnInit {
     this.pageSize = newSize;
     this.currentPage = 1;
     this.applyFiltersAndSearch();  // Reapply all filters and pagination
+    this.updateUrl();
   }
 
   /**
-   * Handles the search functionality by updating the search term,
+   * Handles the search functionality by updating the search query,
    * resetting the current page to the first page, and reapplying
-   * all filters and pagination.
+   * all filters and pagination. The query may use the query syntax
+   * (see `parseSearchQuery`).
    *
-   * @param {string} term - The search term entered by the user.
+   * @param {string} term - The search query entered by the user.
    */
   public onSearch(term: string) {
     this.searchTerm = term;
     this.currentPage = 1;
     this.applyFiltersAndSearch();  // Reapply all filters and pagination
+    this.updateUrl();
+    this.suggestionTerms.next(term);
+  }
+
+  /**
+   * Remembers a query the user explicitly searched, so that it is suggested again later.
+   *
+   * @param {string} term - The searched query.
+   */
+  public onSearchSubmit(term: string) {
+    this.recentSearches.add(term);
+    this.suggestionTerms.next(term);
   }
 
 
@@ -194,6 +612,20 @@ class ProductListComponent implements OnInit {
   public onCategoriesSelectedChange(filterChange: Filter) {
     this.categoriesSelected = filterChange.multiselect;
     this.applyFiltersAndSearch();  // Reapply all filters and pagination
+    this.updateUrl();
+  }
+
+  /**
+   * Handles the change event when tags are selected.
+   * Updates the selected tags and whether products must have any or all of them, and reapplies all filters and pagination.
+   *
+   * @param {Filter} filterChange - The filter change event containing the updated multiselect tags and match logic.
+   */
+  public onTagsSelectedChange(filterChange: Filter) {
+    this.tagsSelected = filterChange.multiselect;
+    this.tagsLogic = filterChange.logic ?? 'or';
+    this.applyFiltersAndSearch();  // Reapply all filters and pagination
+    this.updateUrl();
   }
 
   /**
@@ -205,6 +637,46 @@ class ProductListComponent implements OnInit {
   public onPriceRangeChange(filterChange: Filter) {
     this.priceRangeSelected = filterChange.range;
     this.applyFiltersAndSearch();  // Reapply all filters and pagination
+    this.updateUrl();
+  }
+
+  /**
+   * Handles the change of the selected sort.
+   * Updates the sort, resets the current page to the first page and reapplies all filters and pagination.
+   *
+   * @param {string} sortId - The identifier of the selected sort option.
+   */
+  public onSortChange(sortId: string) {
+    this.sortSelected = this.sortOptions.find(option => option.id === sortId) ?? SORT_OPTIONS[0];
+    this.currentPage = 1;
+    this.applyFiltersAndSearch();  // Reapply all filters and pagination
+    this.updateUrl();
+  }
+
+  /**
+   * Applies a saved preset: its search term, filters and page size replace the current ones,
+   * the sort is kept and the first page is displayed.
+   *
+   * @param {FilterPreset} preset - The preset picked by the user.
+   */
+  public onPresetApply(preset: FilterPreset) {
+    this.restoreState({ ...this.listingState, ...toPresetState(preset.state), currentPage: 1 });
+    this.applyFiltersAndSearch();  // Reapply all filters and pagination
+    this.updateUrl();
+    this.suggestionTerms.next(this.searchTerm);
+  }
+
+  /**
+   * Switches between browsing products page by page and the infinite list,
+   * starting over from the first product.
+   *
+   * @param {ListingViewMode} viewMode - The selected view mode.
+   */
+  public onViewModeChange(viewMode: ListingViewMode) {
+    this.viewMode = viewMode;
+    this.currentPage = 1;
+    this.applyFiltersAndSearch();  // Reapply all filters and pagination
+    this.updateUrl();
   }
 }
 
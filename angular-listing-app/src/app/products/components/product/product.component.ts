@@ -1,22 +1,23 @@
 import { CommonModule } from '@angular/common';
 import { Component, Input } from '@angular/core';
+import { RouterLink } from '@angular/router';
 import { Product } from '../../../core/models/product.model';
 
 /**
- * Component representing a product.
+ * Component representing a product, linking to its detail page.
  * 
  * @selector product
  * @standalone true
  * @templateUrl ./product.component.html
  * @styleUrls ./product.component.scss
- * @imports CommonModule
+ * @imports CommonModule, RouterLink
  */
 @Component({
     selector: 'product',
     standalone: true,
     templateUrl: './product.component.html',
     styleUrls: ['./product.component.scss'],
-    imports: [CommonModule],
+    imports: [CommonModule, RouterLink],
 })
 export class ProductComponent {
     @Input()product!: Product;
@@ -0,0 +1,13 @@
+/**
+ * A description of the catalog, as returned by the `/products/metadata` endpoint: enough to pick a
+ * filtering strategy and to offer the filter options without downloading the products.
+ * `priceHistogram` counts the products in equal-width intervals between the lowest and the highest
+ * price; it is empty, and `priceRange` is `null`, when no product has a price.
+ */
+export interface CatalogMetadata {
+    count: number;
+    categories: string[];
+    tags: string[];
+    priceRange: { min: number; max: number } | null;
+    priceHistogram: number[];
+}
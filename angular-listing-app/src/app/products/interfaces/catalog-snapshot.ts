@@ -0,0 +1,20 @@
+import { Product } from '../../core/models/product.model';
+
+/**
+ * A copy of the catalog kept in the browser: the products, the catalog `version` they reflect
+ * (sent back to the server to fetch the changes since), and when they were last refreshed.
+ */
+export interface CatalogSnapshot {
+    version: string;
+    syncedAt: number;
+    products: Product[];
+}
+
+/**
+ * Whether the catalog displayed could not be refreshed because the network is down, and when
+ * it was last refreshed (`null` before the first refresh).
+ */
+export interface CatalogStatus {
+    offline: boolean;
+    syncedAt: number | null;
+}
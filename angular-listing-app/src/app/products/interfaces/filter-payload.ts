@@ -1,6 +1,35 @@
+import { FilterGroupLogic, FilterLogic } from '../../core/models/filter-logic.model';
+import { FilterType } from '../../core/models/filter-type.model';
+import { SortKey } from '../../core/models/sort.model';
+import { SearchOptions } from '../../core/models/search-options.model';
+
+/**
+ * A single filter condition as sent to the `/products/filter` endpoint.
+ */
+export interface FilterConditionPayload {
+    key: string;
+    values: Array<string | number | null>;
+    type: FilterType;
+    logic: FilterLogic;
+}
+
+/**
+ * A group of filter conditions as sent to the `/products/filter` endpoint.
+ */
+export interface FilterGroupPayload {
+    logic: FilterGroupLogic;
+    filters: FilterExpressionPayload[];
+}
+
+export type FilterExpressionPayload = FilterGroupPayload | FilterConditionPayload;
+
 export interface FilterRequestPayload {
     searchTerm: string;
     currentPage: number;
     pageSize: number;
-    filters: any;
-}
\ No newline at end of file
+    filters: FilterGroupPayload;
+    sort?: SortKey[];
+    facets?: string[];
+    searchOptions?: SearchOptions;
+    cursor?: string | null;
+}
@@ -0,0 +1,15 @@
+import { ListingState } from './listing-state';
+
+/**
+ * The part of the listing state saved in a preset: the search term, the filters and the page size.
+ */
+export type PresetState = Pick<ListingState, 'searchTerm' | 'categories' | 'tags' | 'tagsLogic' | 'priceRange' | 'pageSize'>;
+
+/**
+ * A named combination of search and filters, saved to be re-applied later.
+ */
+export interface FilterPreset {
+    id: string;
+    name: string;
+    state: PresetState;
+}
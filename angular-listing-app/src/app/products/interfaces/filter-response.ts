@@ -0,0 +1,26 @@
+import { Product } from '../../core/models/product.model';
+
+/**
+ * Number of matching products per value, for each faceted product attribute.
+ *
+ * @example
+ * { category: { Electronics: 12, Fashion: 4 } }
+ */
+export interface FacetCounts {
+    [key: string]: { [value: string]: number };
+}
+
+/**
+ * The result of filtering, searching and paginating the products.
+ * `nextCursor` and `previousCursor` point to the adjacent pages, `null` when there is none.
+ * They are opaque: they are only meant to be sent back to request those pages.
+ * `version` is the catalog version the results reflect (see `ProductChanges`).
+ */
+export interface FilterResponse {
+    products: Product[];
+    totalItems: number;
+    facets?: FacetCounts;
+    nextCursor?: string | null;
+    previousCursor?: string | null;
+    version?: string;
+}
@@ -1,13 +1,15 @@
 import { Observable } from 'rxjs';
-import { Filter } from '../../core/models/filter.model';
 import { Product } from '../../core/models/product.model';
-import { FilterType } from '../../core/models/filter-type.model';
+import { FilterExpression } from '../../core/models/filter-expression.model';
+import { SortKey } from '../../core/models/sort.model';
+import { FilterResponse } from './filter-response';
+import { Suggestion } from '../../core/models/suggestion.model';
+import { CatalogMetadata } from './catalog-metadata';
 
-/**
- * Interface representing a strategy for handling products.
- */
 /**
  * Interface representing a strategy for filtering products.
+ * The observables it returns error when a request fails, and unsubscribing from them cancels
+ * the pending request, so that callers can drop superseded requests.
  */
 export interface FilteringStrategy {
     /**
@@ -17,28 +19,45 @@ export interface FilteringStrategy {
     getProducts(): Observable<Product[]>;
 
     /**
-     * Retrieves the total count of products.
-     * @returns An observable emitting the total number of products.
+     * Describes the catalog without downloading it: the number of products, the categories and the prices.
+     * @returns An observable emitting the catalog metadata.
      */
-    getProductsCount(): Observable<number>;
+    getCatalogMetadata(): Observable<CatalogMetadata>;
 
     /**
-     * This method refreshes the product list by applying filtering, searching, and pagination.
+     * This method refreshes the product list by applying filtering, searching, sorting and pagination.
      * @param searchTerm - The search term to filter by.
-     * @param filters - The filters to apply.
+     * @param filters - The filter expression tree to apply.
      * @param pageNumber - The page number to retrieve.
      * @param pageSize - The number of products per page.
-     * @returns An observable emitting an array of products for the specified page.
+     * @param sort - The sort keys, in priority order. Products are always ordered by `id` last, so
+     * both strategies return identical, stable orderings.
+     * @param facets - The attributes to return disjunctive facet counts for.
+     * @param cursor - A cursor from a previous response. When given, the page it points to is
+     * returned instead of `pageNumber`, so that pages do not shift when products are added or removed.
+     * @returns An observable emitting an array of products for the specified page, with cursors to the adjacent pages.
      * @example
-     * applyFiltersAndSearch('apple', [{ type: 'category', value: 'fruit' }], 1, 10).subscribe(products => console.log(products));
+     * applyFiltersAndSearch('apple', { logic: 'and', filters: [{ key: 'category', value: { type: 'value', value: 'fruit', range: null, greater: null, smaller: null, multiselect: null } }] }, 1, 10).subscribe(products => console.log(products));
+     */
+    applyFiltersAndSearch(searchTerm: string, filters: FilterExpression, pageNumber: number, pageSize: number, sort?: SortKey[], facets?: Array<keyof Product>, cursor?: string | null): Observable<FilterResponse>;
+
+    /**
+     * Retrieves every product matching a search and filters, across all pages, e.g. to export them.
+     * The products are emitted in chunks, one after the other, so that callers process them as they come
+     * without blocking the page. The query of the listing and the cached results are left untouched.
+     * @param searchTerm - The search term to filter by.
+     * @param filters - The filter expression tree to apply.
+     * @param sort - The sort keys, in priority order.
+     * @param chunkSize - The number of products per chunk.
+     * @returns An observable emitting the chunks, with the number of matching products, then completing.
      */
-    applyFiltersAndSearch(searchTerm: string, filters: any, pageNumber: number, pageSize: number): Observable<{products: Product[], totalItems: number}>;
+    exportProducts(searchTerm: string, filters: FilterExpression, sort: SortKey[], chunkSize: number): Observable<FilterResponse>;
 
     /**
-     * Applies the given filters to the product list.
-     * @param filters - The filters to apply.
+     * Applies the given filter expression to the product list.
+     * @param filters - The filter expression tree to apply.
      */
-    applyFilters(filters: {key: FilterType, value: Filter}[]): void;
+    applyFilters(filters: FilterExpression): void;
 
     /**
      * Searches for products matching the given term.
@@ -46,6 +65,21 @@ export interface FilteringStrategy {
      */
     search(term: string): void;
 
+    /**
+     * Suggests categories and product names matching a search term, for search-as-you-type.
+     * @param term - The search term typed so far.
+     * @param limit - The maximum number of suggestions.
+     * @returns An observable emitting the suggestions, categories first.
+     */
+    suggest(term: string, limit: number): Observable<Suggestion[]>;
+
+    /**
+     * Drops the query results the strategy keeps, or refreshes the catalog it filters in memory, so that the
+     * next requests reflect changes to the catalog.
+     * @param predicate - Selects the cache keys to drop. Every result is dropped when omitted.
+     */
+    invalidateCache(predicate?: (key: string) => boolean): void;
+
     /**
      * Paginates the product list.
      * @param page - The page number to retrieve.
@@ -0,0 +1,40 @@
+import { Product } from '../../core/models/product.model';
+import { FilterExpression } from '../../core/models/filter-expression.model';
+import { SortKey } from '../../core/models/sort.model';
+import { Suggestion } from '../../core/models/suggestion.model';
+import { FilterResponse } from './filter-response';
+
+/**
+ * The operations of the filtering worker. They mirror `FilteringStrategy`, returning plain
+ * values instead of observables since every message is answered once.
+ */
+export interface FilteringWorkerMethods {
+    loadProducts(products: Product[]): void;
+    applyFiltersAndSearch(searchTerm: string, filters: FilterExpression, pageNumber: number, pageSize: number, sort?: SortKey[], facets?: Array<keyof Product>, cursor?: string | null): FilterResponse;
+    exportProducts(searchTerm: string, filters: FilterExpression, sort: SortKey[]): Product[];
+    applyFilters(filters: FilterExpression): void;
+    search(term: string): void;
+    suggest(term: string, limit: number): Suggestion[];
+    paginate(page: number, pageSize: number): Product[];
+}
+
+export type FilteringWorkerMethod = keyof FilteringWorkerMethods;
+
+/**
+ * A message sent to the filtering worker: the operation to run and its arguments.
+ * The `id` is echoed in the response, so that responses can be matched to their requests.
+ */
+export interface FilteringWorkerRequest<M extends FilteringWorkerMethod = FilteringWorkerMethod> {
+    id: number;
+    method: M;
+    args: Parameters<FilteringWorkerMethods[M]>;
+}
+
+/**
+ * A message sent back by the filtering worker: the result of the operation, or the message of the error it threw.
+ */
+export interface FilteringWorkerResponse {
+    id: number;
+    result?: unknown;
+    error?: string;
+}
@@ -0,0 +1,24 @@
+import { PriceRange } from '../../core/models/price-range.model';
+import { FilterLogic } from '../../core/models/filter-logic.model';
+
+/**
+ * How the product list is browsed: page by page with the pagination controls,
+ * or by scrolling, the next products being loaded when the end of the list comes close.
+ */
+export type ListingViewMode = 'paged' | 'infinite';
+
+/**
+ * The user-controlled state of the product listing, mirrored in the URL query parameters
+ * so that it survives reloads, can be shared as a link and is restored by back/forward navigation.
+ */
+export interface ListingState {
+    searchTerm: string;
+    categories: string[];
+    tags: string[];
+    tagsLogic: FilterLogic;
+    priceRange: PriceRange;
+    sortId: string;
+    currentPage: number;
+    pageSize: number;
+    viewMode: ListingViewMode;
+}
@@ -0,0 +1,14 @@
+import { Product } from '../../core/models/product.model';
+
+/**
+ * The changes to the catalog since a version, as returned by the `/products/changes` endpoint.
+ * When `full` is set, `products` is the whole catalog and replaces the local copy; otherwise it holds
+ * the products created or updated since the version, and `deleted` the ids of the products deleted.
+ * The API gives these ids as strings, the ids of its documents, while the mock backend gives numbers.
+ */
+export interface ProductChanges {
+    version: string;
+    full: boolean;
+    products: Product[];
+    deleted: Array<Product['id'] | string>;
+}
@@ -0,0 +1,32 @@
+import { Product } from '../../core/models/product.model';
+import { FilterExpression } from '../../core/models/filter-expression.model';
+import { SortKey } from '../../core/models/sort.model';
+
+/**
+ * The file formats the filtered products can be exported to.
+ */
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+/**
+ * The product attributes that can be exported, each as a column.
+ */
+export type ExportColumn = keyof Product;
+
+/**
+ * The query whose matching products are exported: the search and filters of the listing, and its order.
+ */
+export interface ExportQuery {
+    searchTerm: string;
+    filters: FilterExpression;
+    sort: SortKey[];
+}
+
+/**
+ * The progress of an export: the number of products written out of the matching ones. The last
+ * progress holds the file.
+ */
+export interface ExportProgress {
+    exported: number;
+    total: number;
+    file?: Blob;
+}
@@ -0,0 +1,52 @@
+import { ProductUpsert } from '../../core/models/product-draft.model';
+
+/**
+ * The product attributes the columns of an imported file can be mapped onto.
+ */
+export type ImportField = 'id' | 'name' | 'category' | 'price' | 'description' | 'imgUrl';
+
+/**
+ * The content of an imported CSV or JSON file: its columns, and its rows keyed by column.
+ */
+export interface ImportTable {
+    columns: string[];
+    rows: Record<string, unknown>[];
+}
+
+/**
+ * The column of the imported file read for each product attribute. Unmapped attributes are left out.
+ */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+/**
+ * A row of the imported file as it will be written: `row` is its number among the rows of the file,
+ * from 1. Rows with errors are skipped; the others create a product, or update the product with the
+ * same id or name.
+ */
+export interface ImportRow {
+    row: number;
+    product: ProductUpsert;
+    errors: string[];
+    action: 'create' | 'update' | 'skip';
+}
+
+/**
+ * A row the API rejected, or that could not be sent.
+ */
+export interface ImportFailure {
+    row: number;
+    name: string;
+    message: string;
+}
+
+/**
+ * The progress of an import, after each batch: the number of rows sent out of the rows to import, and
+ * what became of them. The last progress is the final report.
+ */
+export interface ImportProgress {
+    processed: number;
+    total: number;
+    created: number;
+    updated: number;
+    failed: ImportFailure[];
+}
@@ -0,0 +1,8 @@
+/**
+ * Where the user was in the product listing: the scroll offset, in pixels, of the infinite list or
+ * of the page, and how many products were loaded, so that going back to the listing restores both.
+ */
+export interface ScrollPosition {
+    offset: number;
+    loadedCount: number;
+}
@@ -0,0 +1,20 @@
+import { FilterExpression } from '../../core/models/filter-expression.model';
+
+/**
+ * A part of a search query that could not be understood, e.g. an unknown field.
+ */
+export interface SearchQueryError {
+    token: string;
+    message: string;
+}
+
+/**
+ * A search query split into the free-text words, searched as usual, and the filters
+ * expressed with the query syntax (fields, negations, phrases and comparisons).
+ * Invalid parts are reported in `errors` and left out of both.
+ */
+export interface ParsedSearchQuery {
+    searchTerm: string;
+    filters: FilterExpression[];
+    errors: SearchQueryError[];
+}
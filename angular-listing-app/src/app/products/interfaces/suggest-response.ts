@@ -0,0 +1,7 @@
+/**
+ * The product names and categories matching a search term, as returned by the `/products/suggest` endpoint.
+ */
+export interface SuggestResponse {
+    names: string[];
+    categories: string[];
+}
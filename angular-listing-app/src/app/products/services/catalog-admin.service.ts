@@ -0,0 +1,138 @@
+import { Injectable } from '@angular/core';
+import { Observable, catchError, concatMap, finalize, from, map, of, scan, tap } from 'rxjs';
+import { Product } from '../../core/models/product.model';
+import { BulkUpsertResult, ProductChangeSet, ProductDraft } from '../../core/models/product-draft.model';
+import { SortKey } from '../../core/models/sort.model';
+import { ProductService } from '../../core/services/product.service';
+import { FilterResponse } from '../interfaces/filter-response';
+import { ImportProgress, ImportRow } from '../interfaces/product-import';
+import { FilteringService } from './filtering.service';
+
+/**
+ * Service behind the catalog administration: lists the products page by page, straight from the
+ * data source, and creates, updates and deletes them.
+ *
+ * @remarks
+ * After every change the filtering strategies drop their cached results and the catalog filtered
+ * in memory is refreshed (see `FilteringService.refreshCatalog`), so the listing reflects the change.
+ *
+ * @public
+ */
+@Injectable({
+  providedIn: 'root'
+})
+class CatalogAdminService {
+  private static readonly SORT: SortKey[] = [{ field: 'name', direction: 'asc' }];
+  private static readonly IMPORT_BATCH_SIZE = 100;
+
+  constructor(private productService: ProductService, private filteringService: FilteringService) { }
+
+/**
+ * Retrieves a page of the catalog, ordered by name.
+ *
+ * @param searchTerm - Narrows the products down to those matching it.
+ * @param page - The page number.
+ * @param pageSize - The number of products per page.
+ * @returns An observable emitting the page and the number of matching products.
+ */
+  getPage(searchTerm: string, page: number, pageSize: number): Observable<FilterResponse> {
+    return this.productService.getFilteredProducts({
+      searchTerm,
+      filters: { logic: 'and', filters: [] },
+      currentPage: page,
+      pageSize,
+      sort: CatalogAdminService.SORT
+    });
+  }
+
+/**
+ * Retrieves the categories of the catalog, suggested when a product is edited.
+ *
+ * @returns An observable emitting the categories.
+ */
+  getCategories(): Observable<string[]> {
+    return this.productService.getCatalogMetadata().pipe(map(metadata => metadata.categories));
+  }
+
+/**
+ * Retrieves the whole catalog, e.g. to find the products an import updates.
+ *
+ * @returns An observable emitting the products.
+ */
+  getCatalog(): Observable<Product[]> {
+    return this.productService.getProducts();
+  }
+
+/**
+ * Creates a product.
+ *
+ * @param draft - The attributes of the product.
+ * @returns An observable emitting the created product.
+ */
+  create(draft: ProductDraft): Observable<Product> {
+    return this.productService.createProduct(draft).pipe(tap(() => this.filteringService.refreshCatalog()));
+  }
+
+/**
+ * Updates some attributes of a product.
+ *
+ * @param id - The product id.
+ * @param changes - The changed attributes.
+ * @returns An observable emitting the updated product.
+ */
+  update(id: Product['id'], changes: ProductChangeSet): Observable<Product> {
+    return this.productService.updateProduct(id, changes).pipe(tap(() => this.filteringService.refreshCatalog()));
+  }
+
+/**
+ * Deletes a product.
+ *
+ * @param id - The product id.
+ * @returns An observable completing once the product is deleted.
+ */
+  remove(id: Product['id']): Observable<void> {
+    return this.productService.deleteProduct(id).pipe(tap(() => this.filteringService.refreshCatalog()));
+  }
+
+/**
+ * Imports the rows of a file, skipping those with errors, in batches of 100 products sent one after the other.
+ * A batch that cannot be sent is reported as failed and the import goes on with the next one. A row the API
+ * rejects as a duplicate of an earlier row of its batch is reported with the number of that row. Once the import
+ * ends, or is cancelled by unsubscribing, the catalog is refreshed.
+ *
+ * @param rows - The rows of the file, see `toImportRows`.
+ * @returns An observable emitting the progress after each batch, the last one being the final report.
+ */
+  importProducts(rows: ImportRow[]): Observable<ImportProgress> {
+    const importable = rows.filter(row => row.action !== 'skip');
+    const batches: ImportRow[][] = [];
+    for (let start = 0; start < importable.length; start += CatalogAdminService.IMPORT_BATCH_SIZE) {
+      batches.push(importable.slice(start, start + CatalogAdminService.IMPORT_BATCH_SIZE));
+    }
+    const initial: ImportProgress = { processed: 0, total: importable.length, created: 0, updated: 0, failed: [] };
+    return from(batches).pipe(
+      concatMap(batch => this.productService.upsertProducts(batch.map(row => row.product)).pipe(
+        catchError(() => of<BulkUpsertResult>({
+          created: 0,
+          updated: 0,
+          failed: batch.map((_, index) => ({ index, message: 'The batch could not be sent.' }))
+        })),
+        map(result => ({ batch, result }))
+      )),
+      scan((progress, { batch, result }) => ({
+        processed: progress.processed + batch.length,
+        total: progress.total,
+        created: progress.created + result.created,
+        updated: progress.updated + result.updated,
+        failed: [...progress.failed, ...result.failed.map(({ index, message, duplicateOf }) => ({
+          row: batch[index].row,
+          name: batch[index].product.name,
+          message: duplicateOf === undefined ? message : `Duplicate of row ${batch[duplicateOf].row}.`
+        }))]
+      }), initial),
+      finalize(() => this.filteringService.refreshCatalog())
+    );
+  }
+}
+
+export { CatalogAdminService };
@@ -0,0 +1,105 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { CatalogSnapshot } from '../interfaces/catalog-snapshot';
+
+/**
+ * Service keeping a copy of the catalog in IndexedDB, so that it is available instantly on the
+ * next visit and when the network is down.
+ *
+ * @remarks
+ * A single snapshot is stored, replaced on every refresh. Nothing is stored during server-side
+ * rendering, or when IndexedDB is unavailable (e.g. disabled in private browsing): the snapshot is
+ * then simply missing.
+ *
+ * @public
+ */
+@Injectable({
+  providedIn: 'root'
+})
+class CatalogCacheService {
+  private static readonly DATABASE_NAME = 'product-catalog';
+  private static readonly STORE_NAME = 'snapshots';
+  private static readonly SNAPSHOT_KEY = 'catalog';
+
+  private database: Promise<IDBDatabase | null> | null = null;
+
+  constructor(@Inject(PLATFORM_ID) private platformId: object) { }
+
+/**
+ * Reads the stored copy of the catalog.
+ *
+ * @returns A promise of the snapshot, or of `null` if none was stored.
+ */
+  async load(): Promise<CatalogSnapshot | null> {
+    const database = await this.open();
+    if (!database) {
+      return null;
+    }
+    try {
+      const snapshot = await this.run<CatalogSnapshot | undefined>(database, 'readonly', store => store.get(CatalogCacheService.SNAPSHOT_KEY));
+      return snapshot ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+/**
+ * Stores a copy of the catalog, replacing the previous one.
+ *
+ * @param snapshot - The snapshot to store.
+ */
+  async save(snapshot: CatalogSnapshot): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      return;
+    }
+    try {
+      await this.run(database, 'readwrite', store => store.put(snapshot, CatalogCacheService.SNAPSHOT_KEY));
+    } catch {
+      // The storage quota is exceeded, the catalog is simply downloaded again next time
+    }
+  }
+
+/**
+ * Opens the database once, creating its store on the first visit.
+ *
+ * @returns A promise of the database, or of `null` when IndexedDB is unavailable.
+ */
+  private open(): Promise<IDBDatabase | null> {
+    if (!isPlatformBrowser(this.platformId) || typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+    this.database ??= new Promise(resolve => {
+      try {
+        const request = indexedDB.open(CatalogCacheService.DATABASE_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(CatalogCacheService.STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+    return this.database;
+  }
+
+/**
+ * Runs a request on the snapshot store in a transaction.
+ *
+ * @param database - The open database.
+ * @param mode - Whether the transaction only reads or also writes.
+ * @param operation - Creates the request.
+ * @returns A promise of the result of the request, resolved once the transaction completed.
+ */
+  private run<T>(database: IDBDatabase, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(CatalogCacheService.STORE_NAME, mode);
+      const request = operation(transaction.objectStore(CatalogCacheService.STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+export { CatalogCacheService };
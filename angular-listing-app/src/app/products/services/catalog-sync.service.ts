@@ -0,0 +1,141 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { BehaviorSubject, EMPTY, Observable, catchError, concat, defer, from, map, mergeMap, of, switchMap, throwError } from 'rxjs';
+import { Product } from '../../core/models/product.model';
+import { ProductService } from '../../core/services/product.service';
+import { CatalogSnapshot, CatalogStatus } from '../interfaces/catalog-snapshot';
+import { applyCatalogChanges, isUnchanged } from '../utils/catalog-changes';
+import { CatalogCacheService } from './catalog-cache.service';
+
+/**
+ * Service serving the catalog from the copy kept in IndexedDB, and refreshing that copy in the
+ * background with the products changed or deleted since its version.
+ *
+ * @remarks
+ * The stored catalog is emitted right away, then the refreshed one if anything changed. When the
+ * refresh fails, e.g. because the network is down, the stored catalog keeps being used and the
+ * status reports it as offline, with the time it was last refreshed. The catalog is only downloaded
+ * in full on the first visit, or when the stored copy is too old for the server to list its changes.
+ * During server-side rendering the catalog is fetched from the API and nothing is stored.
+ *
+ * @public
+ */
+@Injectable({
+  providedIn: 'root'
+})
+class CatalogSyncService {
+  private snapshot: Promise<CatalogSnapshot | null> | null = null;
+  private status = new BehaviorSubject<CatalogStatus>({ offline: false, syncedAt: null });
+
+  constructor(
+    private productService: ProductService,
+    private catalogCache: CatalogCacheService,
+    @Inject(PLATFORM_ID) private platformId: object
+  ) {
+    if (isPlatformBrowser(platformId)) {
+      window.addEventListener('offline', () => this.status.next({ ...this.status.value, offline: true }));
+      window.addEventListener('online', () => this.status.next({ ...this.status.value, offline: false }));
+    }
+  }
+
+/**
+ * Retrieves the catalog: the stored copy first, if any, then the copy refreshed with the changes since
+ * its version. Fails only when there is no stored copy and the catalog cannot be downloaded.
+ *
+ * @returns An observable emitting the catalog once or twice.
+ */
+  getProducts(): Observable<Product[]> {
+    if (!isPlatformBrowser(this.platformId)) {
+      return this.productService.getProducts();
+    }
+    return this.loadSnapshot().pipe(
+      switchMap(snapshot => snapshot ? concat(of(snapshot.products), this.refresh(snapshot)) : this.refresh(null))
+    );
+  }
+
+/**
+ * Refreshes the stored copy of the catalog right away, e.g. after the catalog was changed from this client.
+ * Nothing is downloaded when no copy is stored: the catalog is then downloaded when first needed.
+ *
+ * @returns An observable emitting the refreshed catalog, or nothing if there is no copy, nothing changed or the refresh failed.
+ */
+  refreshProducts(): Observable<Product[]> {
+    if (!isPlatformBrowser(this.platformId)) {
+      return EMPTY;
+    }
+    return this.loadSnapshot().pipe(
+      switchMap(snapshot => snapshot ? this.refresh(snapshot) : EMPTY)
+    );
+  }
+
+/**
+ * Retrieves the stored copy of the catalog, without refreshing it.
+ *
+ * @returns An observable emitting the stored products, or `null` if none were stored.
+ */
+  getCachedProducts(): Observable<Product[] | null> {
+    return this.loadSnapshot().pipe(map(snapshot => snapshot?.products ?? null));
+  }
+
+/**
+ * Stores a catalog loaded elsewhere, e.g. streamed by the hybrid strategy.
+ *
+ * @param products - The whole catalog.
+ * @param version - The catalog version the products reflect, as returned by the server.
+ */
+  store(products: Product[], version: string): void {
+    if (isPlatformBrowser(this.platformId)) {
+      this.remember({ version, syncedAt: Date.now(), products });
+    }
+  }
+
+/**
+ * Retrieves whether the catalog is offline, and when it was last refreshed.
+ *
+ * @returns An observable emitting the current status, then every change.
+ */
+  getStatus(): Observable<CatalogStatus> {
+    return this.status.asObservable();
+  }
+
+/**
+ * Reads the stored copy of the catalog once per session.
+ */
+  private loadSnapshot(): Observable<CatalogSnapshot | null> {
+    return defer(() => from(this.snapshot ??= this.catalogCache.load()));
+  }
+
+/**
+ * Fetches the changes since the version of the stored copy and stores the updated catalog.
+ *
+ * @param snapshot - The stored copy, `null` to download the whole catalog.
+ * @returns An observable emitting the updated catalog, or nothing if it is unchanged or the refresh failed.
+ */
+  private refresh(snapshot: CatalogSnapshot | null): Observable<Product[]> {
+    return this.productService.getProductChanges(snapshot?.version ?? null).pipe(
+      catchError(error => {
+        if (!snapshot) {
+          return throwError(() => error);
+        }
+        this.status.next({ offline: true, syncedAt: snapshot.syncedAt });
+        return EMPTY;
+      }),
+      mergeMap(changes => {
+        const products = applyCatalogChanges(snapshot?.products ?? [], changes);
+        this.remember({ version: changes.version, syncedAt: Date.now(), products });
+        return snapshot && isUnchanged(changes) ? EMPTY : of(products);
+      })
+    );
+  }
+
+/**
+ * Keeps a refreshed copy of the catalog, in memory for this session and in IndexedDB for the next ones.
+ */
+  private remember(snapshot: CatalogSnapshot): void {
+    this.snapshot = Promise.resolve(snapshot);
+    this.catalogCache.save(snapshot);
+    this.status.next({ offline: false, syncedAt: snapshot.syncedAt });
+  }
+}
+
+export { CatalogSyncService };
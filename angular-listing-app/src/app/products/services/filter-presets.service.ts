@@ -0,0 +1,125 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { FilterPreset, PresetState } from '../interfaces/filter-preset';
+import { createPresetId, exportPresets, parsePresets } from '../utils/filter-presets';
+
+/**
+ * Service storing the filter presets of the product list in the local storage.
+ * 
+ * @remarks
+ * Preset names are unique, ignoring case: saving or importing a preset under an existing
+ * name replaces the existing preset. Nothing is stored during server-side rendering.
+ * Every method returns the presets after the change, sorted by name.
+ * 
+ * @example
+ * ```typescript
+ * this.presets = this.filterPresetsService.save('Home Appliances under $100', state);
+ * ```
+ * 
+ * @public
+ */
+@Injectable({
+  providedIn: 'root'
+})
+class FilterPresetsService {
+  private static readonly STORAGE_KEY = 'filterPresets';
+
+  constructor(@Inject(PLATFORM_ID) private platformId: object) { }
+
+/**
+ * Retrieves the saved presets.
+ *
+ * @returns The presets, sorted by name.
+ */
+  getAll(): FilterPreset[] {
+    if (!isPlatformBrowser(this.platformId)) {
+      return [];
+    }
+    try {
+      return parsePresets(localStorage.getItem(FilterPresetsService.STORAGE_KEY) ?? exportPresets([]));
+    } catch {
+      // Presets written by an incompatible version are dropped rather than breaking the page
+      return [];
+    }
+  }
+
+/**
+ * Saves a preset, replacing the preset with the same name if any.
+ *
+ * @param name - The name of the preset.
+ * @param state - The search, filters and page size to save.
+ * @returns The presets after the change.
+ */
+  save(name: string, state: PresetState): FilterPreset[] {
+    return this.merge([{ id: createPresetId(), name: name.trim(), state }]);
+  }
+
+/**
+ * Renames a preset. A preset already using the new name is replaced.
+ *
+ * @param id - The identifier of the preset.
+ * @param name - The new name.
+ * @returns The presets after the change.
+ */
+  rename(id: string, name: string): FilterPreset[] {
+    const presets = this.getAll();
+    const preset = presets.find(p => p.id === id);
+    if (!preset) {
+      return presets;
+    }
+    return this.merge([{ ...preset, name: name.trim() }], presets.filter(p => p.id !== id));
+  }
+
+/**
+ * Deletes a preset.
+ *
+ * @param id - The identifier of the preset.
+ * @returns The presets after the change.
+ */
+  delete(id: string): FilterPreset[] {
+    return this.store(this.getAll().filter(p => p.id !== id));
+  }
+
+/**
+ * Serializes the saved presets into a JSON document that teammates can import.
+ *
+ * @returns The JSON document.
+ */
+  export(): string {
+    return exportPresets(this.getAll());
+  }
+
+/**
+ * Imports the presets of a JSON document produced by `export`, replacing the presets with the same names.
+ *
+ * @param json - The JSON document.
+ * @returns The presets after the change.
+ * @throws {PresetImportError} When the document does not hold valid presets; nothing is imported then.
+ */
+  import(json: string): FilterPreset[] {
+    return this.merge(parsePresets(json).map(preset => ({ ...preset, id: createPresetId() })));
+  }
+
+  /**
+   * Adds presets to the existing ones, a preset replacing any other preset with the same name.
+   */
+  private merge(presets: FilterPreset[], existing: FilterPreset[] = this.getAll()): FilterPreset[] {
+    const byName = new Map(existing.map(p => [p.name.toLowerCase(), p]));
+    presets.forEach(p => byName.set(p.name.toLowerCase(), p));
+    return this.store([...byName.values()]);
+  }
+
+  private store(presets: FilterPreset[]): FilterPreset[] {
+    const sorted = [...presets].sort((a, b) => a.name.localeCompare(b.name));
+    if (isPlatformBrowser(this.platformId)) {
+      try {
+        localStorage.setItem(FilterPresetsService.STORAGE_KEY, exportPresets(sorted));
+      } catch {
+        // The storage is full or disabled, the change is not persisted
+      }
+    }
+    return sorted;
+  }
+}
+
+export { FilterPresetsService };
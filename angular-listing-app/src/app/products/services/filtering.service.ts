@@ -1,13 +1,20 @@
 // product.service.ts
 import { Injectable } from '@angular/core';
-import { Observable, tap } from 'rxjs';
-import { Filter } from '../../core/models/filter.model';
+import { Observable, catchError, map, tap } from 'rxjs';
 import { Product } from '../../core/models/product.model';
 import { environment } from '../../../environment/environment';
 import { FilteringStrategy } from '../interfaces/filtering-strategy';
 import { ClientSideFilteringService } from './strategies/client-side-filtering.service';
 import { ServerSideFilteringService } from './strategies/server-side-filtering.service';
-import { FilterType } from '../../core/models/filter-type.model';
+import { HybridFilteringService } from './strategies/hybrid-filtering.service';
+import { FilterExpression } from '../../core/models/filter-expression.model';
+import { SortKey } from '../../core/models/sort.model';
+import { FilterResponse } from '../interfaces/filter-response';
+import { Suggestion } from '../../core/models/suggestion.model';
+import { CatalogSyncService } from './catalog-sync.service';
+import { CatalogStatus } from '../interfaces/catalog-snapshot';
+import { CatalogMetadata } from '../interfaces/catalog-metadata';
+import { computeCatalogMetadata } from '../utils/catalog-metadata';
 
 
 /**
@@ -16,7 +23,9 @@ import { FilterType } from '../../core/models/filter-type.model';
  * 
  * @remarks
  * This service defaults to using the client-side strategy initially. It can
- * switch to a server-side strategy if the product count exceeds a specified threshold.
+ * switch to a server-side strategy if the product count exceeds a specified threshold, or to
+ * the hybrid strategy (server-side first, then in memory) for catalogs up to `environment.hybrid.maxCatalogSize`.
+ * Errors of the strategies are passed on to the subscribers, after retries of transient failures.
  * 
  * @example
  * ```typescript
@@ -33,39 +42,71 @@ import { FilterType } from '../../core/models/filter-type.model';
 class FilteringService {
   private strategy: FilteringStrategy;
   private treshold = environment.clientSidePaginationTreshold;
+  private hybridMaxCatalogSize = environment.hybrid.maxCatalogSize;
 
   constructor(
     private clientSideService: ClientSideFilteringService,
-    private serverSideService: ServerSideFilteringService
+    private serverSideService: ServerSideFilteringService,
+    private hybridService: HybridFilteringService,
+    private catalogSync: CatalogSyncService
   ) {
     // Default to client-side initially
     this.strategy = this.clientSideService;
   }
 
 /**
- * Switches the product fetching strategy based on the total product count.
- * If the product count exceeds a specified threshold, it switches to a server-side strategy.
- * Otherwise, it uses a client-side strategy.
+ * Switches the product fetching strategy based on the total product count, read from the catalog
+ * metadata so that no product is downloaded to decide.
+ * If the product count exceeds a specified threshold, it switches to the hybrid strategy, which
+ * starts server-side and moves to memory once the catalog is loaded, or to the server-side strategy
+ * for catalogs too large to hold in memory. Otherwise, it uses a client-side strategy.
  *
  * @remarks
- * The threshold for switching strategies is currently set to 100 products.
+ * The thresholds for switching strategies are set per environment, by `environment.clientSidePaginationTreshold`
+ * and `environment.hybrid.maxCatalogSize`.
+ * When the metadata cannot be fetched, e.g. offline, the catalog kept in the browser is filtered
+ * client-side if there is one, and described from memory.
  *
- * @returns void
+ * @returns An Observable that emits the catalog metadata, for the filter options.
  */
-  switchStrategy(): Observable<number> {
-    return this.getProductsCount().pipe(
-      tap(count => {
-        if (count > this.treshold) { 
+  switchStrategy(): Observable<CatalogMetadata> {
+    return this.getCatalogMetadata().pipe(
+      tap(({ count }) => {
+        if (count > this.hybridMaxCatalogSize) {
           this.strategy = this.serverSideService;
+        } else if (count > this.treshold) {
+          this.strategy = this.hybridService;
         } else {
           this.strategy = this.clientSideService;
         }
-      })
+      }),
+      catchError(error => this.catalogSync.getCachedProducts().pipe(
+        map(cached => {
+          if (!cached) {
+            throw error;
+          }
+          this.strategy = this.clientSideService;
+          return computeCatalogMetadata(cached);
+        })
+      ))
     );
   }
 
-  applyFiltersAndSearch(searchTerm: string, filters: any, pageNumber: number, pageSize: number): Observable<{products: Product[], totalItems: number}> {
-    return this.strategy.applyFiltersAndSearch(searchTerm, filters, pageNumber, pageSize);
+  applyFiltersAndSearch(searchTerm: string, filters: FilterExpression, pageNumber: number, pageSize: number, sort: SortKey[] = [], facets: Array<keyof Product> = [], cursor: string | null = null): Observable<FilterResponse> {
+    return this.strategy.applyFiltersAndSearch(searchTerm, filters, pageNumber, pageSize, sort, facets, cursor);
+  }
+
+/**
+ * Retrieves every product matching a search and filters, across all pages, using the current strategy.
+ *
+ * @param searchTerm - The search term.
+ * @param filters - The filter expression.
+ * @param sort - The sort keys, in priority order.
+ * @param chunkSize - The number of products per chunk.
+ * @returns An observable emitting the matching products in chunks, with their total number.
+ */
+  exportProducts(searchTerm: string, filters: FilterExpression, sort: SortKey[], chunkSize: number): Observable<FilterResponse> {
+    return this.strategy.exportProducts(searchTerm, filters, sort, chunkSize);
   }
 
 /**
@@ -78,12 +119,12 @@ class FilteringService {
   }
 
 /**
- * Retrieves the total count of products.
+ * Retrieves the number of products, the categories and the price distribution, without the products.
  *
- * @returns An Observable that emits the number of products.
+ * @returns An Observable that emits the catalog metadata.
  */
-  getProductsCount(): Observable<number> {
-    return this.strategy.getProductsCount();
+  getCatalogMetadata(): Observable<CatalogMetadata> {
+    return this.strategy.getCatalogMetadata();
   }
 
 /**
@@ -91,7 +132,7 @@ class FilteringService {
  *
  * @param filters - The filters to be applied.
  */
-  applyFilters(filters: {key: FilterType, value: Filter}[]): void {
+  applyFilters(filters: FilterExpression): void {
     this.strategy.applyFilters(filters);
   }
 
@@ -105,6 +146,47 @@ class FilteringService {
     this.strategy.search(term);
   }
 
+/**
+ * Suggests categories and product names matching a search term using the current strategy.
+ *
+ * @param term - The search term typed so far.
+ * @param limit - The maximum number of suggestions.
+ * @returns An Observable that emits the suggestions.
+ */
+  suggest(term: string, limit: number): Observable<Suggestion[]> {
+    return this.strategy.suggest(term, limit);
+  }
+
+/**
+ * Drops the query results cached by the current strategy, e.g. after the catalog changed.
+ *
+ * @param predicate - Selects the cache keys to drop. Every result is dropped when omitted.
+ */
+  invalidateCache(predicate?: (key: string) => boolean): void {
+    this.strategy.invalidateCache(predicate);
+  }
+
+/**
+ * Reflects changes made to the catalog from this client, e.g. by the administration: the server-side
+ * and hybrid strategies drop their cached results and cursors, and the catalog filtered in memory is
+ * refreshed, only when one is loaded, so that nothing is downloaded for strategies that do not use it.
+ */
+  refreshCatalog(): void {
+    this.hybridService.invalidateCache();
+    if (this.strategy === this.clientSideService) {
+      this.clientSideService.invalidateCache();
+    }
+  }
+
+/**
+ * Retrieves whether the catalog displayed is offline, and when it was last refreshed.
+ *
+ * @returns An Observable that emits the current status, then every change.
+ */
+  getCatalogStatus(): Observable<CatalogStatus> {
+    return this.catalogSync.getStatus();
+  }
+
 /**
  * Paginates the list of products based on the provided page number and page size.
  *
@@ -0,0 +1,54 @@
+import { Injectable } from '@angular/core';
+import { Observable, concat, defer, map, of } from 'rxjs';
+import { ExportColumn, ExportFormat, ExportProgress, ExportQuery } from '../interfaces/product-export';
+import { createExportWriter } from '../utils/product-export';
+import { FilteringService } from './filtering.service';
+
+/**
+ * Service exporting every product matching the search and filters of the listing, across all pages,
+ * to a CSV, JSON or XLSX file.
+ *
+ * @remarks
+ * The products are fetched in chunks through the current filtering strategy (see
+ * `FilteringStrategy.exportProducts`) and written to the file as they come, so that the page stays
+ * responsive and the progress can be displayed. Unsubscribing cancels the export.
+ *
+ * @public
+ */
+@Injectable({
+  providedIn: 'root'
+})
+class ProductExportService {
+  private static readonly CHUNK_SIZE = 500;
+
+  constructor(private filteringService: FilteringService) { }
+
+/**
+ * Exports the products matching a query.
+ *
+ * @param query - The search, filters and order of the listing.
+ * @param format - The format of the file.
+ * @param columns - The exported attributes, in order.
+ * @returns An observable emitting the progress after each chunk, then the progress holding the file.
+ */
+  export(query: ExportQuery, format: ExportFormat, columns: ExportColumn[]): Observable<ExportProgress> {
+    return defer(() => {
+      const writer = createExportWriter(format, columns);
+      let exported = 0;
+      let total = 0;
+      return concat(
+        this.filteringService.exportProducts(query.searchTerm, query.filters, query.sort, ProductExportService.CHUNK_SIZE).pipe(
+          map(chunk => {
+            writer.write(chunk.products);
+            exported += chunk.products.length;
+            total = chunk.totalItems;
+            return { exported, total };
+          })
+        ),
+        defer(() => of({ exported, total, file: writer.finish() }))
+      );
+    });
+  }
+}
+
+export { ProductExportService };
@@ -0,0 +1,67 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { ScrollPosition } from '../interfaces/scroll-position';
+
+/**
+ * Service remembering the scroll position of the product listing for each listing URL.
+ * 
+ * @remarks
+ * Positions are kept in the session storage, so that they survive navigating away from
+ * the application and back, but not closing the tab. Only the most recent positions are kept.
+ * Nothing is stored during server-side rendering.
+ * 
+ * @public
+ */
+@Injectable({
+  providedIn: 'root'
+})
+class ScrollPositionService {
+  private static readonly STORAGE_KEY = 'listingScrollPositions';
+  private static readonly MAX_POSITIONS = 20;
+
+  constructor(@Inject(PLATFORM_ID) private platformId: object) { }
+
+/**
+ * Retrieves the position saved for a listing.
+ *
+ * @param key - The key of the listing, e.g. its serialized query parameters.
+ * @returns The saved position, or `null` if none was saved.
+ */
+  get(key: string): ScrollPosition | null {
+    return this.readAll()[key] ?? null;
+  }
+
+/**
+ * Saves the position of a listing, replacing the previous one.
+ *
+ * @param key - The key of the listing, e.g. its serialized query parameters.
+ * @param position - The position to save.
+ */
+  save(key: string, position: ScrollPosition): void {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+    const { [key]: _, ...others } = this.readAll();
+    const entries = [...Object.entries(others), [key, position] as const]
+      .slice(-ScrollPositionService.MAX_POSITIONS);
+    try {
+      sessionStorage.setItem(ScrollPositionService.STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+    } catch {
+      // The storage is full or disabled, the position is simply not restored
+    }
+  }
+
+  private readAll(): { [key: string]: ScrollPosition } {
+    if (!isPlatformBrowser(this.platformId)) {
+      return {};
+    }
+    try {
+      const positions: unknown = JSON.parse(sessionStorage.getItem(ScrollPositionService.STORAGE_KEY) ?? '{}');
+      return typeof positions === 'object' && positions !== null ? positions as { [key: string]: ScrollPosition } : {};
+    } catch {
+      return {};
+    }
+  }
+}
+
+export { ScrollPositionService };
@@ -0,0 +1,139 @@
+import { PLATFORM_ID } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { firstValueFrom } from 'rxjs';
+import { ClientSideFilteringService } from './client-side-filtering.service';
+import { CatalogSyncService } from '../catalog-sync.service';
+import { FilterExpression } from '../../../core/models/filter-expression.model';
+import { FilteringWorkerRequest, FilteringWorkerResponse } from '../../interfaces/filtering-worker-message';
+import { InMemoryCatalog, handleFilteringRequest } from '../../utils/in-memory-catalog';
+import { environment } from '../../../../environment/environment';
+import { PRODUCTS } from '../../../mocks/products.mock';
+import { productIds } from '../../../mocks/filtering-scenarios';
+
+/** Stands in for the filtering worker: it queues the messages it is sent, and answers them when told to. */
+class FakeWorker {
+  static started: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent<FilteringWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminated = false;
+  private catalog = new InMemoryCatalog(environment.search);
+  private queue: FilteringWorkerRequest[] = [];
+
+  constructor() {
+    FakeWorker.started.push(this);
+  }
+
+  postMessage(request: FilteringWorkerRequest): void {
+    this.queue.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  /** Answers the queued messages, like the worker does. */
+  answer(): void {
+    this.queue.splice(0).forEach(request =>
+      this.onmessage?.({ data: handleFilteringRequest(this.catalog, request) } as MessageEvent<FilteringWorkerResponse>));
+  }
+
+  /** Fails like a worker whose script cannot run, leaving the queued messages unanswered. */
+  fail(): void {
+    this.onerror?.({ message: 'Worker failed' } as ErrorEvent);
+  }
+}
+
+describe('ClientSideFilteringService', () => {
+  const fashion: FilterExpression = {
+    key: 'category',
+    value: { type: 'multiselect', value: null, range: null, greater: null, smaller: null, multiselect: { Fashion: true }, logic: 'or' }
+  };
+  const fashionIds = productIds(PRODUCTS.filter(product => product.category === 'Fashion'));
+  const originalWorker = globalThis.Worker;
+
+  const createService = (platformId: string): ClientSideFilteringService => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: CatalogSyncService, useValue: {} },
+        { provide: PLATFORM_ID, useValue: platformId }
+      ]
+    });
+    return TestBed.inject(ClientSideFilteringService);
+  };
+
+  beforeEach(() => {
+    FakeWorker.started = [];
+    globalThis.Worker = FakeWorker as unknown as typeof Worker;
+  });
+
+  afterEach(() => {
+    globalThis.Worker = originalWorker;
+  });
+
+  it('should start the worker on first use only, and filter there', async () => {
+    const service = createService('browser');
+    expect(FakeWorker.started.length).toBe(0);
+
+    service.loadProducts(PRODUCTS);
+    const response = firstValueFrom(service.applyFiltersAndSearch('', fashion, 1, 5));
+    expect(FakeWorker.started.length).toBe(1);
+    FakeWorker.started[0].answer();
+
+    expect(productIds((await response).products)).toEqual(fashionIds.slice(0, 5));
+    expect(FakeWorker.started.length).toBe(1);
+  });
+
+  it('should filter on the main thread during server-side rendering', async () => {
+    const service = createService('server');
+
+    service.loadProducts(PRODUCTS);
+    const response = await firstValueFrom(service.applyFiltersAndSearch('', fashion, 1, 5));
+
+    expect(FakeWorker.started.length).toBe(0);
+    expect(productIds(response.products)).toEqual(fashionIds.slice(0, 5));
+  });
+
+  it('should filter on the main thread when the browser has no Web Worker', async () => {
+    globalThis.Worker = undefined as unknown as typeof Worker;
+    const service = createService('browser');
+
+    service.loadProducts(PRODUCTS);
+    const response = await firstValueFrom(service.applyFiltersAndSearch('', fashion, 1, 5));
+
+    expect(productIds(response.products)).toEqual(fashionIds.slice(0, 5));
+  });
+
+  it('should replay the pending requests on the main thread when the worker fails', async () => {
+    const service = createService('browser');
+    service.loadProducts(PRODUCTS);
+    const filtered = firstValueFrom(service.applyFiltersAndSearch('', fashion, 1, 5));
+    const page = firstValueFrom(service.paginate(2, 3));
+    const worker = FakeWorker.started[0];
+
+    worker.fail();
+
+    expect(worker.terminated).toBeTrue();
+    expect(productIds((await filtered).products)).toEqual(fashionIds.slice(0, 5));
+    expect(productIds(await page)).toEqual(fashionIds.slice(3, 6));
+
+    expect(productIds(await firstValueFrom(service.paginate(1, 3)))).toEqual(fashionIds.slice(0, 3));
+    expect(FakeWorker.started.length).toBe(1);
+  });
+
+  it('should replay the filtering the worker applied before failing', async () => {
+    const service = createService('browser');
+    service.loadProducts(PRODUCTS);
+    service.applyFilters(fashion);
+    const worker = FakeWorker.started[0];
+    worker.answer();
+    const page = firstValueFrom(service.paginate(1, 100));
+
+    worker.fail();
+
+    expect(productIds(await page)).toEqual(fashionIds);
+  });
+});
@@ -1,135 +1,260 @@
 // client-side-product.service.ts
-import { Injectable } from '@angular/core';
-import { Observable } from 'rxjs';
-import { Filter } from '../../../core/models/filter.model';
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { Observable, Subscriber, Subscription, asyncScheduler, mergeMap, scheduled, tap } from 'rxjs';
 import { Product } from '../../../core/models/product.model';
 import { FilteringStrategy } from '../../interfaces/filtering-strategy';
 import { ProductService } from '../../../core/services/product.service';
-import { FilterType } from '../../../core/models/filter-type.model';
-import { PriceRange } from '../../../core/models/price-range.model';
+import { FilterExpression } from '../../../core/models/filter-expression.model';
+import { SortKey } from '../../../core/models/sort.model';
+import { FilterResponse } from '../../interfaces/filter-response';
+import { environment } from '../../../../environment/environment';
+import { Suggestion } from '../../../core/models/suggestion.model';
+import { FilteringWorkerMethod, FilteringWorkerMethods, FilteringWorkerRequest, FilteringWorkerResponse } from '../../interfaces/filtering-worker-message';
+import { InMemoryCatalog, handleFilteringRequest } from '../../utils/in-memory-catalog';
+import { CatalogSyncService } from '../catalog-sync.service';
+import { CatalogMetadata } from '../../interfaces/catalog-metadata';
 
+interface PendingCall {
+  request: FilteringWorkerRequest;
+  observer: Subscriber<unknown>;
+}
+
+/**
+ * Filters, searches and paginates the catalog in memory. In the browser the work runs in a Web Worker
+ * (see `client-side-filtering.worker.ts`), started on first use, so that large catalogs are neither
+ * indexed nor filtered on the main thread; during server-side rendering, or if the worker fails, it runs
+ * on the main thread.
+ */
 @Injectable({
   providedIn: 'root'
 })
 class ClientSideFilteringService implements FilteringStrategy {
 
-  constructor(private productService: ProductService) {
+  constructor(private productService: ProductService, private catalogSync: CatalogSyncService, @Inject(PLATFORM_ID) platformId: object) {
+    this.canUseWorker = isPlatformBrowser(platformId) && typeof Worker !== 'undefined';
   }
-  private products: Product[] = [];
-  private filteredProducts: Product[] = [];
-  
+  private canUseWorker: boolean;
+  private worker: Worker | null = null;
+  private mainThreadCatalog: InMemoryCatalog | null = null;
+  private pendingCalls = new Map<number, PendingCall>();
+  private lastCallId = 0;
+  /** The catalog loaded last, `null` until one is loaded. */
+  private products: Product[] | null = null;
+  /** The operations that changed the filtered products since the catalog was loaded, replayed if filtering moves to the main thread. */
+  private filteringCalls: FilteringWorkerRequest[] = [];
+  private catalogRefresh = new Subscription();
+
+  /**
+   * Loads the catalog kept in the browser, then the catalog refreshed in the background if it changed
+   * (see `CatalogSyncService`), so that filtering keeps working offline.
+   */
   getProducts(): Observable<Product[]> {
-    return new Observable(observer => {
-      this.productService.getProducts().subscribe(products => {
-        this.products = products;
-        this.filteredProducts = products;
-        observer.next(products);
-        observer.complete();
-      });
-    });
+    return this.catalogSync.getProducts().pipe(
+      tap(products => this.loadProducts(products))
+    );
   }
 
-    /**
-   * This method refreshes the product list by applying filtering, searching, and pagination.
+  /**
+   * Replaces the catalog filtered in memory with products loaded elsewhere, e.g. streamed by the hybrid strategy.
+   * The main thread only keeps a reference to the products, to index them should the worker fail later.
+   *
+   * @param products - The full catalog.
    */
-    public applyFiltersAndSearch(searchTerm: string, filters: {key: FilterType, value: Filter}[], pageNumber: number, pageSize: number): Observable<{products: Product[], totalItems: number}> {
-      return new Observable(observer => {
-        this.filteredProducts = this.products;  // Start with the full list
-        this.applyFilters(filters);             // Apply filters
-        this.search(searchTerm);                // Apply search term filter
-        const filteredProductsCount = this.filteredProducts.length;
-        const paginate = this.paginate(pageNumber, pageSize);  // Paginate
-        paginate.subscribe(products => {
-          observer.next({products, totalItems: filteredProductsCount});
-          observer.complete();
-        });
-      });
-    }
+  loadProducts(products: Product[]): void {
+    this.call('loadProducts', products).subscribe();
+  }
+
+  /**
+   * This method refreshes the product list by applying filtering, searching, sorting and pagination.
+   * Facet counts are computed in memory over the full product list.
+   * Unsubscribing drops the result, so that superseded requests do not overwrite newer ones.
+   */
+  public applyFiltersAndSearch(searchTerm: string, filters: FilterExpression, pageNumber: number, pageSize: number, sort: SortKey[] = [], facets: Array<keyof Product> = [], cursor: string | null = null): Observable<FilterResponse> {
+    return this.call('applyFiltersAndSearch', searchTerm, filters, pageNumber, pageSize, sort, facets, cursor);
+  }
+
+  getCatalogMetadata(): Observable<CatalogMetadata> {
+    return this.productService.getCatalogMetadata();
+  }
 
-  getProductsCount(): Observable<number> {
-    return new Observable(observer => {
-      this.productService.getProductsCount().subscribe(count => {
-        observer.next(count);
-        observer.complete();
-      });
+  /**
+   * Selects the matching products in memory at once, then emits them in chunks, each in its own task,
+   * so that the page stays responsive while they are processed.
+   */
+  exportProducts(searchTerm: string, filters: FilterExpression, sort: SortKey[], chunkSize: number): Observable<FilterResponse> {
+    return this.call('exportProducts', searchTerm, filters, sort).pipe(
+      mergeMap(products => {
+        const chunks: FilterResponse[] = [];
+        for (let start = 0; start < products.length; start += chunkSize) {
+          chunks.push({ products: products.slice(start, start + chunkSize), totalItems: products.length });
+        }
+        return scheduled(chunks, asyncScheduler);
+      })
+    );
+  }
+
+  /**
+   * Narrows the filtered products down to those matching the filter expression.
+   *
+   * @param filters - The filter expression to apply.
+   */
+  applyFilters(filters: FilterExpression): void {
+    this.call('applyFilters', filters).subscribe();
+  }
+
+  /**
+   * Narrows the filtered products down to those matching the search term,
+   * exactly or tolerating typos depending on `environment.search`.
+   *
+   * @param term - The search term.
+   */
+  search(term: string): void {
+    this.call('search', term).subscribe();
+  }
+
+  /**
+   * Suggests the categories and product names of the loaded catalog containing the search term.
+   *
+   * @param term - The search term typed so far.
+   * @param limit - The maximum number of suggestions.
+   */
+  suggest(term: string, limit: number): Observable<Suggestion[]> {
+    return this.call('suggest', term, limit);
+  }
+
+  /**
+   * Refreshes the stored copy of the catalog with the changes since its version, e.g. after products
+   * were added, updated or removed, and filters the refreshed catalog from then on if one was loaded.
+   * Results are computed in memory from the loaded catalog, so there are no query results to drop.
+   */
+  invalidateCache(): void {
+    this.catalogRefresh.unsubscribe();
+    this.catalogRefresh = this.catalogSync.refreshProducts().subscribe(products => {
+      if (this.products) {
+        this.loadProducts(products);
+      }
     });
   }
 
+  paginate(page: number, pageSize: number): Observable<Product[]> {
+    return this.call('paginate', page, pageSize);
+  }
 
-  // TODO: MAKE MORE GENERIC
-  applyFilters(filters: {key: FilterType, value: Filter}[]): void {
-    for (const filter of filters) {
-      switch (filter.value.type) {
-        case 'multiselect':
-          if (filter.value.multiselect) {
-            this.applyCategoryFilter(filter.value.multiselect);
-          }
-          break;
-        case 'range':
-          if (filter.value.value) {
-            const priceRange: PriceRange = {
-              min: parseFloat(filter.value.value[0]),
-              max: parseFloat(filter.value.value[1])
-            };
-            this.applyPriceRangeFilter(priceRange);
-          }
-          break;
+  /**
+   * Runs an operation of the in-memory catalog, in the worker when there is one.
+   *
+   * @param method - The operation.
+   * @param args - The arguments of the operation.
+   * @returns An observable emitting the result of the operation.
+   */
+  private call<M extends FilteringWorkerMethod>(method: M, ...args: Parameters<FilteringWorkerMethods[M]>): Observable<ReturnType<FilteringWorkerMethods[M]>> {
+    return new Observable<unknown>(observer => {
+      const request: FilteringWorkerRequest = { id: ++this.lastCallId, method, args };
+      const worker = this.getWorker();
+      if (!worker) {
+        const response = handleFilteringRequest(this.getMainThreadCatalog(), request);
+        this.track(request);
+        this.respond(observer, response);
+        return;
       }
+      this.track(request);
+      this.pendingCalls.set(request.id, { request, observer });
+      worker.postMessage(request);
+      return () => this.pendingCalls.delete(request.id);
+    }) as Observable<ReturnType<FilteringWorkerMethods[M]>>;
+  }
+
+  /**
+   * Returns the worker, started on first use, or `null` when filtering runs on the main thread.
+   */
+  private getWorker(): Worker | null {
+    if (!this.worker && this.canUseWorker) {
+      this.worker = new Worker(new URL('./client-side-filtering.worker', import.meta.url), { type: 'module' });
+      this.worker.onmessage = ({ data }: MessageEvent<FilteringWorkerResponse>) => this.onWorkerResponse(data);
+      this.worker.onerror = () => this.useMainThread();
     }
+    return this.worker;
   }
+
   /**
-   * Filters the products based on the selected categories.
-   * 
-   * This method updates the `filteredProducts` array to include only those products
-   * whose category is selected in the `categoriesSelected` object. It first checks if 
-   * there are any selected categories. If there are, it filters the `filteredProducts`
-   * array to include only products that belong to one of the selected categories.
-   * 
-   * @private
+   * Returns the catalog filtered on the main thread, built on first use: the catalog loaded last is
+   * indexed, and the operations that changed its filtered products since are replayed.
+   *
+   * @param before - Only the operations sent before this call are replayed.
    */
-  private applyCategoryFilter(categoriesSelected: { [key: string]: boolean }) {
-    const selectedCategories = Object.entries(categoriesSelected)
-      .filter(([_, isSelected]) => isSelected)
-      .map(([category, _]) => category);
+  private getMainThreadCatalog(before = Infinity): InMemoryCatalog {
+    if (!this.mainThreadCatalog) {
+      const catalog = new InMemoryCatalog(environment.search);
+      catalog.loadProducts(this.products ?? []);
+      this.filteringCalls.filter(request => request.id < before).forEach(request => handleFilteringRequest(catalog, request));
+      this.mainThreadCatalog = catalog;
+    }
+    return this.mainThreadCatalog;
+  }
 
-    if (selectedCategories.length > 0) {
-      this.filteredProducts = this.filteredProducts.filter(p => selectedCategories.includes(p.category));
+  /**
+   * Keeps track of the operations defining the filtered products, so that they can be replayed
+   * on the main thread: the catalog loaded last, and the filtering applied to it since.
+   *
+   * @param request - An operation sent to the in-memory catalog.
+   */
+  private track(request: FilteringWorkerRequest): void {
+    switch (request.method) {
+      case 'loadProducts':
+        this.products = (request as FilteringWorkerRequest<'loadProducts'>).args[0];
+        this.filteringCalls = [];
+        break;
+      case 'applyFiltersAndSearch':
+        this.filteringCalls = [request];
+        break;
+      case 'applyFilters':
+      case 'search':
+        this.filteringCalls.push(request);
+        break;
     }
   }
-    /**
-     * Filters the products based on the selected price range.
-     * 
-     * If a price range is selected, this method will filter the `filteredProducts` array
-     * to include only those products whose price falls within the specified minimum and 
-     * maximum values.
-     * 
-     * @private
-     */
-    private applyPriceRangeFilter(priceRangeSelected: PriceRange) {
-      if (priceRangeSelected) {
-      const { min, max } = priceRangeSelected;
-      if (min !== null && max !== null) {
-        this.filteredProducts = this.filteredProducts.filter(p => p.price >= min && p.price <= max);
-      }
-      }
+
+  /**
+   * Passes a response of the worker on to the caller, unless it unsubscribed meanwhile.
+   *
+   * @param response - The response of the worker.
+   */
+  private onWorkerResponse(response: FilteringWorkerResponse): void {
+    const pending = this.pendingCalls.get(response.id);
+    if (pending) {
+      this.pendingCalls.delete(response.id);
+      this.respond(pending.observer, response);
     }
+  }
 
-  search(term: string): void {
-    // Perform client-side search
-    this.filteredProducts = this.filteredProducts.filter(p =>
-      p.name.toLowerCase().includes(term.toLowerCase()) ||
-      p.category.toLowerCase().includes(term.toLowerCase()) ||
-      p.description.toLowerCase().includes(term.toLowerCase())
-    );
+  /**
+   * Emits the result of an operation, or fails with its error.
+   *
+   * @param observer - The caller.
+   * @param response - The response of the operation.
+   */
+  private respond(observer: Subscriber<unknown>, response: FilteringWorkerResponse): void {
+    if (response.error !== undefined) {
+      observer.error(new Error(response.error));
+      return;
+    }
+    observer.next(response.result);
+    observer.complete();
   }
 
-  paginate(page: number, pageSize: number): Observable<Product[]> {
-    return new Observable(observer => {
-      const startIndex = (page - 1) * pageSize;
-      const paginatedProducts = this.filteredProducts.slice(startIndex, startIndex + pageSize);
-      observer.next(paginatedProducts);
-      observer.complete();
-    });
+  /**
+   * Stops using a worker that failed, and runs its pending operations on the main thread, on the
+   * catalog as the worker left it before them.
+   */
+  private useMainThread(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.canUseWorker = false;
+    const pending = [...this.pendingCalls.values()];
+    this.pendingCalls.clear();
+    const catalog = this.getMainThreadCatalog(pending[0]?.request.id);
+    pending.forEach(({ request, observer }) => this.respond(observer, handleFilteringRequest(catalog, request)));
   }
 }
 
@@ -0,0 +1,12 @@
+/// <reference lib="webworker" />
+// client-side-filtering.worker.ts
+import { environment } from '../../../../environment/environment';
+import { FilteringWorkerRequest } from '../../interfaces/filtering-worker-message';
+import { InMemoryCatalog, handleFilteringRequest } from '../../utils/in-memory-catalog';
+
+// Filters the catalog off the main thread, so that typing in the search bar does not block rendering
+const catalog = new InMemoryCatalog(environment.search);
+
+addEventListener('message', ({ data }: MessageEvent<FilteringWorkerRequest>) => {
+  postMessage(handleFilteringRequest(catalog, data));
+});
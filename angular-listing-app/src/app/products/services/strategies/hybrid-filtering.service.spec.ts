@@ -0,0 +1,141 @@
+import { PLATFORM_ID } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, lastValueFrom, of, toArray } from 'rxjs';
+import { HybridFilteringService } from './hybrid-filtering.service';
+import { ClientSideFilteringService } from './client-side-filtering.service';
+import { ServerSideFilteringService } from './server-side-filtering.service';
+import { CatalogSyncService } from '../catalog-sync.service';
+import { ProductService } from '../../../core/services/product.service';
+import { FilterExpression } from '../../../core/models/filter-expression.model';
+import { FilterRequestPayload } from '../../interfaces/filter-payload';
+import { FilterResponse } from '../../interfaces/filter-response';
+import { environment } from '../../../../environment/environment';
+import { PRODUCTS } from '../../../mocks/products.mock';
+
+describe('HybridFilteringService', () => {
+  const noFilter: FilterExpression = { logic: 'and', filters: [] };
+  // The catalog in three chunks, each pointing to the next one
+  const chunks: Record<string, FilterResponse> = {
+    first: { products: PRODUCTS.slice(0, 2), totalItems: PRODUCTS.length, nextCursor: 'second', version: 'v1' },
+    second: { products: PRODUCTS.slice(2, 4), totalItems: PRODUCTS.length, nextCursor: 'third', version: 'v1' },
+    third: { products: PRODUCTS.slice(4), totalItems: PRODUCTS.length, nextCursor: null, version: 'v1' }
+  };
+  const page = (cursor: string): FilterResponse => ({ products: PRODUCTS.slice(0, 10), totalItems: PRODUCTS.length, nextCursor: cursor });
+
+  let service: HybridFilteringService;
+  let productService: jasmine.SpyObj<ProductService>;
+  let clientSide: jasmine.SpyObj<ClientSideFilteringService>;
+  let serverSide: jasmine.SpyObj<ServerSideFilteringService>;
+  let catalogSync: jasmine.SpyObj<CatalogSyncService>;
+  let clock: number;
+
+  /** Makes the device report its heap as used at the given share. */
+  const useHeap = (share: number) => Object.defineProperty(performance, 'memory', {
+    value: { usedJSHeapSize: share * 100, jsHeapSizeLimit: 100 },
+    configurable: true
+  });
+
+  beforeEach(() => {
+    clock = 0;
+    spyOn(performance, 'now').and.callFake(() => clock);
+    useHeap(0.1);
+    productService = jasmine.createSpyObj<ProductService>('ProductService', ['getFilteredProducts']);
+    productService.getFilteredProducts.and.callFake((payload: FilterRequestPayload) => of(chunks[payload.cursor ?? 'first']));
+    clientSide = jasmine.createSpyObj<ClientSideFilteringService>('ClientSideFilteringService', ['loadProducts', 'applyFiltersAndSearch', 'invalidateCache']);
+    clientSide.applyFiltersAndSearch.and.returnValue(of(page('client cursor')));
+    serverSide = jasmine.createSpyObj<ServerSideFilteringService>('ServerSideFilteringService', ['applyFiltersAndSearch', 'invalidateCache']);
+    serverSide.applyFiltersAndSearch.and.returnValue(of(page('server cursor')));
+    catalogSync = jasmine.createSpyObj<CatalogSyncService>('CatalogSyncService', ['getCachedProducts', 'getProducts', 'store']);
+    catalogSync.getCachedProducts.and.returnValue(of(null));
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: ProductService, useValue: productService },
+        { provide: ClientSideFilteringService, useValue: clientSide },
+        { provide: ServerSideFilteringService, useValue: serverSide },
+        { provide: CatalogSyncService, useValue: catalogSync },
+        { provide: PLATFORM_ID, useValue: 'browser' }
+      ]
+    });
+    service = TestBed.inject(HybridFilteringService);
+  });
+
+  afterEach(() => {
+    delete (performance as { memory?: unknown }).memory;
+  });
+
+  it('should stream the catalog in chunks, then store it and filter it in memory', async () => {
+    const emitted = await lastValueFrom(service.getProducts().pipe(toArray()));
+
+    expect(emitted.map(products => products.length)).toEqual([2, 4, PRODUCTS.length]);
+    expect(productService.getFilteredProducts.calls.allArgs().map(([payload]) => [payload.cursor, payload.pageSize]))
+      .toEqual([[null, environment.hybrid.chunkSize], ['second', environment.hybrid.chunkSize], ['third', environment.hybrid.chunkSize]]);
+    expect(catalogSync.store).toHaveBeenCalledOnceWith(PRODUCTS, 'v1');
+    expect(clientSide.loadProducts).toHaveBeenCalledOnceWith(PRODUCTS);
+
+    await firstValueFrom(service.applyFiltersAndSearch('', noFilter, 1, 10));
+    expect(clientSide.applyFiltersAndSearch).toHaveBeenCalledTimes(1);
+    expect(serverSide.applyFiltersAndSearch).not.toHaveBeenCalled();
+  });
+
+  it('should replay the last query in memory once the catalog is loaded, by page number', async () => {
+    await firstValueFrom(service.applyFiltersAndSearch('shoes', noFilter, 2, 10, [], ['category']));
+    expect(serverSide.applyFiltersAndSearch).toHaveBeenCalledOnceWith('shoes', noFilter, 2, 10, [], ['category'], null);
+
+    await lastValueFrom(service.getProducts());
+
+    expect(clientSide.applyFiltersAndSearch).toHaveBeenCalledOnceWith('shoes', noFilter, 2, 10, [], ['category'], null);
+  });
+
+  it('should drop the cursors of the server once filtering moved to memory', async () => {
+    const { nextCursor } = await firstValueFrom(service.applyFiltersAndSearch('', noFilter, 1, 10));
+    await lastValueFrom(service.getProducts());
+    clientSide.applyFiltersAndSearch.calls.reset();
+
+    await firstValueFrom(service.applyFiltersAndSearch('', noFilter, 2, 10, [], [], nextCursor));
+
+    expect(clientSide.applyFiltersAndSearch).toHaveBeenCalledOnceWith('', noFilter, 2, 10, [], [], null);
+  });
+
+  it('should keep filtering on the server when the device is constrained', async () => {
+    useHeap(0.9);
+
+    await lastValueFrom(service.getProducts());
+    await firstValueFrom(service.applyFiltersAndSearch('', noFilter, 1, 10));
+
+    expect(clientSide.loadProducts).not.toHaveBeenCalled();
+    expect(serverSide.applyFiltersAndSearch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the server when the device runs out of memory, and drop the cursors of the client', async () => {
+    await lastValueFrom(service.getProducts());
+    useHeap(0.9);
+
+    const { nextCursor } = await firstValueFrom(service.applyFiltersAndSearch('shoes', noFilter, 1, 10));
+
+    expect(clientSide.loadProducts).toHaveBeenCalledWith([]);
+    expect(serverSide.applyFiltersAndSearch).toHaveBeenCalledOnceWith('shoes', noFilter, 1, 10, [], [], null);
+
+    await firstValueFrom(service.applyFiltersAndSearch('shoes', noFilter, 2, 10, [], [], nextCursor));
+    expect(serverSide.applyFiltersAndSearch).toHaveBeenCalledWith('shoes', noFilter, 2, 10, [], [], null);
+    expect(clientSide.applyFiltersAndSearch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the server, for good, when filtering in memory is too slow', async () => {
+    await lastValueFrom(service.getProducts());
+    clientSide.applyFiltersAndSearch.and.callFake(() => {
+      clock += environment.hybrid.maxClientLatency * 2;
+      return of(page('client cursor'));
+    });
+
+    for (let pageNumber = 1; pageNumber <= 3; pageNumber++) {
+      await firstValueFrom(service.applyFiltersAndSearch('', noFilter, pageNumber, 10));
+    }
+    expect(serverSide.applyFiltersAndSearch).toHaveBeenCalledOnceWith('', noFilter, 3, 10, [], [], null);
+
+    await lastValueFrom(service.getProducts());
+    await firstValueFrom(service.applyFiltersAndSearch('', noFilter, 4, 10));
+    expect(clientSide.applyFiltersAndSearch).toHaveBeenCalledTimes(3);
+    expect(serverSide.applyFiltersAndSearch).toHaveBeenCalledTimes(2);
+  });
+});
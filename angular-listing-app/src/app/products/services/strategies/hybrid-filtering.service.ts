@@ -0,0 +1,225 @@
+// hybrid-filtering.service.ts
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { EMPTY, Observable, catchError, defer, expand, scan, switchMap, tap, throwError } from 'rxjs';
+import { Product } from '../../../core/models/product.model';
+import { FilteringStrategy } from '../../interfaces/filtering-strategy';
+import { ProductService } from '../../../core/services/product.service';
+import { FilterExpression } from '../../../core/models/filter-expression.model';
+import { SortKey } from '../../../core/models/sort.model';
+import { FilterResponse } from '../../interfaces/filter-response';
+import { FilterRequestPayload } from '../../interfaces/filter-payload';
+import { Suggestion } from '../../../core/models/suggestion.model';
+import { environment } from '../../../../environment/environment';
+import { ClientSideFilteringService } from './client-side-filtering.service';
+import { ServerSideFilteringService } from './server-side-filtering.service';
+import { CatalogSyncService } from '../catalog-sync.service';
+import { CatalogMetadata } from '../../interfaces/catalog-metadata';
+import { LatencyTracker, isDeviceConstrained, readDeviceMetrics, shouldFallBackToServer } from '../../utils/hybrid-metrics';
+
+type FilterQuery = Parameters<FilteringStrategy['applyFiltersAndSearch']>;
+
+/**
+ * Serves the first pages from the server right away while the catalog is streamed in chunks in the
+ * background, then filters in memory like the client-side strategy. Requests are timed, and the
+ * server filters again for good when the device lacks memory or filtering in memory is too slow.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+class HybridFilteringService implements FilteringStrategy {
+  private active: FilteringStrategy;
+  private isFallback = false;
+  private lastQuery: FilterQuery | null = null;
+  private streamedProducts: Product[] = [];
+  /** The strategy that answered last, and so created the cursors the caller holds. */
+  private cursorStrategy: FilteringStrategy | null = null;
+  private serverLatency = new LatencyTracker();
+  private clientLatency = new LatencyTracker();
+  private settings = environment.hybrid;
+
+  constructor(
+    private productService: ProductService,
+    private clientSideService: ClientSideFilteringService,
+    private serverSideService: ServerSideFilteringService,
+    private catalogSync: CatalogSyncService,
+    @Inject(PLATFORM_ID) private platformId: object
+  ) {
+    this.active = this.serverSideService;
+  }
+
+  /**
+   * Loads the catalog kept in the browser when there is one, refreshed in the background with the changes
+   * since its version (see `CatalogSyncService`), and filters in memory right away.
+   * Otherwise, streams the catalog in chunks of `environment.hybrid.chunkSize` products, following the
+   * cursors of the `/products/filter` endpoint, and emits the products loaded so far after every chunk.
+   * Once the whole catalog is loaded, it is stored for the next visits and filtering moves to memory
+   * unless the device is constrained.
+   * When a later chunk fails, the server keeps filtering.
+   * Outside the browser, nothing is downloaded and the server filters.
+   */
+  getProducts(): Observable<Product[]> {
+    if (!isPlatformBrowser(this.platformId)) {
+      return this.serverSideService.getProducts();
+    }
+    return this.catalogSync.getCachedProducts().pipe(
+      switchMap(cached => cached
+        ? this.catalogSync.getProducts().pipe(tap(products => this.upgrade(products)))
+        : this.streamProducts())
+    );
+  }
+
+  getCatalogMetadata(): Observable<CatalogMetadata> {
+    return this.serverSideService.getCatalogMetadata();
+  }
+
+  /**
+   * Delegates to the strategy in use and times the request. Filtering in memory that turns out
+   * slower than the budget, and than the server, hands filtering back to the server.
+   * A cursor created by the other strategy is dropped, so that the page is fetched by number.
+   */
+  applyFiltersAndSearch(searchTerm: string, filters: FilterExpression, pageNumber: number, pageSize: number, sort: SortKey[] = [], facets: Array<keyof Product> = [], cursor: string | null = null): Observable<FilterResponse> {
+    return defer(() => {
+      const strategy = this.active;
+      const tracker = strategy === this.clientSideService ? this.clientLatency : this.serverLatency;
+      const start = performance.now();
+      const pageCursor = strategy === this.cursorStrategy ? cursor : null;
+      this.lastQuery = [searchTerm, filters, pageNumber, pageSize, sort, facets, null];
+      return strategy.applyFiltersAndSearch(searchTerm, filters, pageNumber, pageSize, sort, facets, pageCursor).pipe(
+        tap(() => {
+          tracker.record(performance.now() - start);
+          this.cursorStrategy = strategy;
+          if (strategy === this.clientSideService && this.isStruggling()) {
+            this.fallBack();
+          }
+        })
+      );
+    });
+  }
+
+  exportProducts(searchTerm: string, filters: FilterExpression, sort: SortKey[], chunkSize: number): Observable<FilterResponse> {
+    return this.active.exportProducts(searchTerm, filters, sort, chunkSize);
+  }
+
+  applyFilters(filters: FilterExpression): void {
+    this.active.applyFilters(filters);
+  }
+
+  search(term: string): void {
+    this.active.search(term);
+  }
+
+  suggest(term: string, limit: number): Observable<Suggestion[]> {
+    return this.active.suggest(term, limit);
+  }
+
+  /**
+   * Drops the results cached by the server-side strategy and the cursors handed out, so that the next
+   * page is fetched by number, and, once filtering moved to memory, refreshes the catalog filtered there.
+   */
+  invalidateCache(predicate?: (key: string) => boolean): void {
+    this.serverSideService.invalidateCache(predicate);
+    this.cursorStrategy = null;
+    if (this.active === this.clientSideService) {
+      this.clientSideService.invalidateCache();
+    }
+  }
+
+  paginate(page: number, pageSize: number): Observable<Product[]> {
+    return this.active.paginate(page, pageSize);
+  }
+
+  /**
+   * Streams the catalog in chunks, then stores it with the version of its first chunk, so that the
+   * changes made while streaming are fetched on the next refresh.
+   */
+  private streamProducts(): Observable<Product[]> {
+    return defer(() => {
+      let version: string | undefined;
+      this.streamedProducts = [];
+      return this.fetchChunk(null).pipe(
+        tap(response => version ??= response.version),
+        expand(response => response.nextCursor ? this.fetchChunk(response.nextCursor) : EMPTY),
+        scan((products, response) => products.concat(response.products), [] as Product[]),
+        tap({
+          next: products => this.streamedProducts = products,
+          complete: () => {
+            if (version) {
+              this.catalogSync.store(this.streamedProducts, version);
+            }
+            this.upgrade(this.streamedProducts);
+          }
+        }),
+        catchError(error => {
+          if (this.streamedProducts.length === 0) {
+            return throwError(() => error);
+          }
+          this.isFallback = true;
+          return EMPTY;
+        })
+      );
+    });
+  }
+
+  /**
+   * Fetches a chunk of the catalog, in id order.
+   *
+   * @param cursor - The cursor of the previous chunk, `null` for the first one.
+   * @returns An observable emitting the chunk.
+   */
+  private fetchChunk(cursor: string | null): Observable<FilterResponse> {
+    const payload: FilterRequestPayload = {
+      searchTerm: '',
+      filters: { logic: 'and', filters: [] },
+      currentPage: 1,
+      pageSize: this.settings.chunkSize,
+      cursor
+    };
+    return this.productService.getFilteredProducts(payload);
+  }
+
+  /**
+   * Moves filtering to memory once the whole catalog is loaded. The last query is replayed, by page
+   * number, so that the client-side strategy can paginate the current results, keeping the search,
+   * filters and page.
+   *
+   * @param products - The whole catalog.
+   */
+  private upgrade(products: Product[]): void {
+    if (this.isFallback || isDeviceConstrained(readDeviceMetrics(), this.settings)) {
+      return;
+    }
+    this.clientSideService.loadProducts(products);
+    if (this.lastQuery) {
+      this.clientSideService.applyFiltersAndSearch(...this.lastQuery).subscribe();
+    }
+    this.active = this.clientSideService;
+  }
+
+  /**
+   * Checks whether the device struggles with filtering in memory: it runs out of memory,
+   * or filtering is too slow after a few requests.
+   */
+  private isStruggling(): boolean {
+    if (isDeviceConstrained(readDeviceMetrics(), this.settings)) {
+      return true;
+    }
+    return this.clientLatency.count >= 3
+      && shouldFallBackToServer(this.clientLatency.average, this.serverLatency.average, this.settings.maxClientLatency);
+  }
+
+  /**
+   * Hands filtering back to the server for good and frees the catalog held for in-memory filtering.
+   * The last query is replayed so that the server-side strategy paginates the current results.
+   */
+  private fallBack(): void {
+    this.isFallback = true;
+    this.active = this.serverSideService;
+    this.clientSideService.loadProducts([]);
+    if (this.lastQuery) {
+      this.serverSideService.applyFiltersAndSearch(...this.lastQuery).subscribe({ error: () => { /* fetched again on the next page change */ } });
+    }
+  }
+}
+
+export { HybridFilteringService };
@@ -1,79 +1,217 @@
 // server-side-product.service.ts
-import { Injectable } from '@angular/core';
-import { Observable } from 'rxjs';
-import { Filter } from '../../../core/models/filter.model';
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { EMPTY, Observable, Subscription, defer, expand, finalize, map, of, share, tap } from 'rxjs';
 import { Product } from '../../../core/models/product.model';
 import { FilteringStrategy } from '../../interfaces/filtering-strategy';
 import { environment } from '../../../../environment/environment';
 import { ProductService } from '../../../core/services/product.service';
-import { FilterType } from '../../../core/models/filter-type.model';
+import { FilterExpression } from '../../../core/models/filter-expression.model';
 import { FilterRequestPayload } from '../../interfaces/filter-payload';
+import { SortKey } from '../../../core/models/sort.model';
+import { toFilterPayload } from '../../utils/filter-expression';
+import { FilterResponse } from '../../interfaces/filter-response';
+import { Suggestion } from '../../../core/models/suggestion.model';
+import { toSuggestions } from '../../utils/suggestions';
+import { LruCache } from '../../../core/utils/lru-cache';
+import { payloadCacheKey } from '../../utils/payload-cache-key';
+import { CatalogMetadata } from '../../interfaces/catalog-metadata';
 
 @Injectable({
   providedIn: 'root'
 })
 class ServerSideFilteringService implements FilteringStrategy {
-  private products: Product[] = [];
-  private filteredProducts: Product[] = [];
-
   private currentSearchTerm = '';
-  private currentFilters: {key: FilterType, value: Filter}[] = [];
+  private currentFilters: FilterExpression = { logic: 'and', filters: [] };
   private currentPage = 1;
   private pageSize = 10;
+  private currentSort: SortKey[] = [];
+
+  /** Cursors to the pages adjacent to the ones already fetched for the current query, by page number. */
+  private pageCursors = new Map<number, string>();
+  private cursorQueryKey = '';
+
+  /** Responses of `/products/filter`, by normalized payload (see `payloadCacheKey`). */
+  private responseCache = new LruCache<FilterResponse>(environment.filterCache.maxEntries, environment.filterCache.ttl);
+  /** Requests in flight, shared by the callers asking for the same page, e.g. a page being prefetched. */
+  private pendingRequests = new Map<string, Observable<FilterResponse>>();
+  private prefetchRequest = new Subscription();
 
-  constructor(private productService: ProductService) { }
+  constructor(private productService: ProductService, @Inject(PLATFORM_ID) private platformId: object) { }
 
+  /**
+   * Prepares the strategy for a newly loaded catalog. The server filters, so the products are never
+   * downloaded: an empty list is emitted, and the cached query results are dropped, since the catalog
+   * may have changed.
+   */
   getProducts(): Observable<Product[]> {
-    return new Observable(observer => {
-      this.productService.getProducts().subscribe(products => {
-        this.products = products;
-        this.filteredProducts = products;
-        observer.next(products);
-        observer.complete();
-      });
+    return defer(() => {
+      this.invalidateCache();
+      return of([]);
     });
   }
 
-  getProductsCount(): Observable<number> {
-    return new Observable(observer => {
-      this.productService.getProductsCount().subscribe(count => {
-        observer.next(count);
-        observer.complete();
-      });
-    });
+  /**
+   * Describes the catalog with a single call to the `/products/metadata` endpoint.
+   */
+  getCatalogMetadata(): Observable<CatalogMetadata> {
+    return this.productService.getCatalogMetadata();
   }
 
-  applyFiltersAndSearch(searchTerm: string, filters: {key: FilterType, value: Filter}[], pageNumber: number, pageSize: number): Observable<{products: Product[], totalItems: number}> {
+  /**
+   * Fetches a page from the `/products/filter` endpoint. Pages next to an already fetched page are
+   * requested with the cursor the server returned for them, so that page-number navigation pages
+   * through the keyset; pages further away fall back to offset pagination.
+   * Pages are served from the cache when they were fetched recently, and the next page is
+   * prefetched in the background so that flipping to it is instant.
+   * Unsubscribing cancels the request, and failures are passed on to the subscriber.
+   */
+  applyFiltersAndSearch(searchTerm: string, filters: FilterExpression, pageNumber: number, pageSize: number, sort: SortKey[] = [], facets: Array<keyof Product> = [], cursor: string | null = null): Observable<FilterResponse> {
     this.currentSearchTerm = searchTerm;
     this.currentFilters = filters;
     this.currentPage = pageNumber;
     this.pageSize = pageSize;
+    this.currentSort = sort;
+
+    const payloadFilters = toFilterPayload(filters);
+    const queryKey = JSON.stringify([searchTerm, payloadFilters, pageSize, sort]);
+    if (queryKey !== this.cursorQueryKey) {
+      this.cursorQueryKey = queryKey;
+      this.pageCursors.clear();
+    }
 
     const payload: FilterRequestPayload = {
       searchTerm,
-      filters: {
-        logic: 'and',
-        filters: filters.map(filter => ({
-        key: filter.key,
-        values: filter.value.value ? filter.value.value : [],
-        type: filter.value.type,
-        logic: 'or'
-      }))},
+      filters: payloadFilters,
       currentPage: pageNumber,
-      pageSize
+      pageSize,
+      sort,
+      facets,
+      searchOptions: environment.search,
+      cursor: cursor ?? this.pageCursors.get(pageNumber) ?? null
     };
 
-    return new Observable(observer => {
-      this.productService.getFilteredProducts(payload).subscribe(response => {
-        this.filteredProducts = response.products;
-        observer.next({ products: response.products, totalItems: response.totalItems });
-        observer.complete();
-      });
-    });
+    return this.fetchPage(payload).pipe(
+      tap(response => {
+        this.rememberCursors(queryKey, pageNumber, response);
+        this.prefetchNextPage(payload, response);
+      }),
+      map(response => ({
+        products: response.products,
+        totalItems: response.totalItems,
+        facets: response.facets,
+        nextCursor: response.nextCursor ?? null,
+        previousCursor: response.previousCursor ?? null
+      }))
+    );
+  }
+
+  /**
+   * Pages through the `/products/filter` endpoint by following the cursors, one request after the other.
+   * The responses are not cached, and the cursors of the listing are kept.
+   */
+  exportProducts(searchTerm: string, filters: FilterExpression, sort: SortKey[], chunkSize: number): Observable<FilterResponse> {
+    const payload: FilterRequestPayload = {
+      searchTerm,
+      filters: toFilterPayload(filters),
+      currentPage: 1,
+      pageSize: chunkSize,
+      sort,
+      searchOptions: environment.search,
+      cursor: null
+    };
+    return this.productService.getFilteredProducts(payload).pipe(
+      expand((response, index) => response.nextCursor && response.products.length > 0
+        ? this.productService.getFilteredProducts({ ...payload, currentPage: index + 2, cursor: response.nextCursor })
+        : EMPTY),
+      map(response => ({ products: response.products, totalItems: response.totalItems }))
+    );
+  }
+
+  /**
+   * Drops the cached query results, e.g. after products were added, updated or removed,
+   * and cancels the prefetch in progress.
+   *
+   * @param predicate - Selects the cache keys to drop (see `payloadCacheKey`). Every result is dropped when omitted.
+   */
+  invalidateCache(predicate?: (key: string) => boolean): void {
+    this.prefetchRequest.unsubscribe();
+    if (predicate) {
+      this.responseCache.deleteWhere(predicate);
+    } else {
+      this.responseCache.clear();
+    }
+  }
+
+  /**
+   * Fetches a page from the cache, from the identical request in flight, or from the server.
+   * A cached response answers the request when it holds every requested facet.
+   *
+   * @param payload - The request payload.
+   * @returns An observable emitting the response.
+   */
+  private fetchPage(payload: FilterRequestPayload): Observable<FilterResponse> {
+    const key = payloadCacheKey(payload);
+    const facets = payload.facets ?? [];
+    const cached = this.responseCache.get(key);
+    if (cached && facets.every(facet => cached.facets?.[facet] !== undefined)) {
+      return of(cached);
+    }
+    const pending = facets.length === 0 ? this.pendingRequests.get(key) : undefined;
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.productService.getFilteredProducts(payload).pipe(
+      tap(response => this.responseCache.set(key, response)),
+      finalize(() => {
+        if (this.pendingRequests.get(key) === request) {
+          this.pendingRequests.delete(key);
+        }
+      }),
+      share()
+    );
+    this.pendingRequests.set(key, request);
+    return request;
+  }
+
+  /**
+   * Fetches the page after a response in the background, into the cache. Only the browser
+   * prefetches, so that server-side rendering does not wait for a page nobody looks at yet.
+   *
+   * @param payload - The payload of the current page.
+   * @param response - The response of the current page.
+   */
+  private prefetchNextPage(payload: FilterRequestPayload, response: FilterResponse): void {
+    if (!isPlatformBrowser(this.platformId) || !response.nextCursor) {
+      return;
+    }
+    const next: FilterRequestPayload = { ...payload, currentPage: payload.currentPage + 1, facets: [], cursor: response.nextCursor };
+    this.prefetchRequest.unsubscribe();
+    this.prefetchRequest = this.fetchPage(next).subscribe({ error: () => { /* the page is fetched again when displayed */ } });
+  }
+
+  /**
+   * Keeps the cursors of the pages around a fetched page, unless the query changed in the meantime.
+   *
+   * @param queryKey - The query the page was fetched for.
+   * @param pageNumber - The number of the fetched page.
+   * @param response - The response of the server.
+   */
+  private rememberCursors(queryKey: string, pageNumber: number, response: FilterResponse): void {
+    if (queryKey !== this.cursorQueryKey) {
+      return;
+    }
+    if (response.nextCursor) {
+      this.pageCursors.set(pageNumber + 1, response.nextCursor);
+    }
+    if (response.previousCursor && pageNumber > 1) {
+      this.pageCursors.set(pageNumber - 1, response.previousCursor);
+    }
   }
 
   
-  applyFilters(filters: {key: FilterType, value: Filter}[]): void {
+  applyFilters(filters: FilterExpression): void {
     // Server-side filtering can be passed as query parameters
     // No direct logic required here
   }
@@ -83,13 +221,22 @@ class ServerSideFilteringService implements FilteringStrategy {
     // No direct logic required here
   }
 
+  /**
+   * Suggests categories and product names with a lightweight call to the `/products/suggest` endpoint.
+   *
+   * @param term - The search term typed so far.
+   * @param limit - The maximum number of suggestions.
+   */
+  suggest(term: string, limit: number): Observable<Suggestion[]> {
+    return this.productService.getSuggestions(term, limit).pipe(
+      map(response => toSuggestions(response, limit))
+    );
+  }
+
   paginate(page: number, pageSize: number): Observable<Product[]> {
-    return new Observable(observer => {
-      this.applyFiltersAndSearch(this.currentSearchTerm, this.currentFilters, page, pageSize).subscribe(response => {
-        observer.next(response.products);
-        observer.complete();
-      });
-    });
+    return this.applyFiltersAndSearch(this.currentSearchTerm, this.currentFilters, page, pageSize, this.currentSort).pipe(
+      map(response => response.products)
+    );
   }
 }
 
@@ -0,0 +1,84 @@
+import { PLATFORM_ID } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { firstValueFrom, lastValueFrom, toArray } from 'rxjs';
+import { ClientSideFilteringService } from './client-side-filtering.service';
+import { ServerSideFilteringService } from './server-side-filtering.service';
+import { FilteringStrategy } from '../../interfaces/filtering-strategy';
+import { FilterResponse } from '../../interfaces/filter-response';
+import { mockBackendInterceptor } from '../../../core/interceptors/mock-backend.interceptor';
+import { PRODUCTS } from '../../../mocks/products.mock';
+import { FILTERING_SCENARIOS, FilteringScenario, describeDivergences, productIds } from '../../../mocks/filtering-scenarios';
+
+/**
+ * Runs the shared filtering scenarios against both strategies and reports every divergence.
+ * The client-side strategy filters the mock catalog in memory; the server-side strategy sends its
+ * requests to `mockBackendInterceptor`, the local stand-in for the API, which filters with the same
+ * engine: this checks the requests, cursors and exports of the strategies. The query builders of
+ * the API are checked against the same scenarios by `npm run parity` (see `parity/server-parity.ts`).
+ */
+describe('Filtering strategy parity', () => {
+  let clientSide: ClientSideFilteringService;
+  let serverSide: ServerSideFilteringService;
+
+  const run = (strategy: FilteringStrategy, scenario: FilteringScenario, cursor: string | null = null): Promise<FilterResponse> =>
+    firstValueFrom(strategy.applyFiltersAndSearch(scenario.searchTerm, scenario.filters, scenario.pageNumber, scenario.pageSize, scenario.sort, [], cursor));
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([mockBackendInterceptor])),
+        // Filters on the main thread, and does not prefetch pages in the background
+        { provide: PLATFORM_ID, useValue: 'server' }
+      ]
+    });
+    clientSide = TestBed.inject(ClientSideFilteringService);
+    serverSide = TestBed.inject(ServerSideFilteringService);
+    clientSide.loadProducts(PRODUCTS);
+  });
+
+  FILTERING_SCENARIOS.forEach(scenario => {
+    it(`should return the same products for ${scenario.name}`, async () => {
+      const expected = await run(clientSide, scenario);
+      const actual = await run(serverSide, scenario);
+
+      expect(describeDivergences(expected, actual)).withContext(scenario.name).toEqual([]);
+    });
+  });
+
+  it('should page through the same products by following the cursors', async () => {
+    const scenario = FILTERING_SCENARIOS.find(({ name }) => name === 'a sort by name')!;
+    const walk = async (strategy: FilteringStrategy): Promise<string[]> => {
+      const ids: string[] = [];
+      let response = await run(strategy, { ...scenario, pageNumber: 1, pageSize: 9 });
+      ids.push(...productIds(response.products));
+      for (let page = 2; response.nextCursor; page++) {
+        response = await run(strategy, { ...scenario, pageNumber: page, pageSize: 9 }, response.nextCursor);
+        ids.push(...productIds(response.products));
+      }
+      return ids;
+    };
+
+    const expected = await walk(clientSide);
+    const actual = await walk(serverSide);
+
+    expect(actual).toEqual(expected);
+    expect(new Set(actual).size).toBe(PRODUCTS.length);
+  });
+
+  it('should export the same products, across all pages, in the same order', async () => {
+    const scenario = FILTERING_SCENARIOS.find(({ name }) => name === 'a search, filters, sort and page together')!;
+    const exportIds = async (strategy: FilteringStrategy): Promise<string[]> => {
+      const chunks = await lastValueFrom(strategy.exportProducts(scenario.searchTerm, scenario.filters, scenario.sort, 4).pipe(toArray()));
+      const ids = chunks.flatMap(chunk => productIds(chunk.products));
+      expect(chunks.every(chunk => chunk.products.length <= 4 && chunk.totalItems === ids.length)).toBeTrue();
+      return ids;
+    };
+
+    const expected = await exportIds(clientSide);
+    const actual = await exportIds(serverSide);
+
+    expect(actual).toEqual(expected);
+    expect(expected.length).toBeGreaterThan(4);
+  });
+});
@@ -0,0 +1,33 @@
+import { Product } from '../../core/models/product.model';
+import { applyCatalogChanges, isUnchanged } from './catalog-changes';
+
+const product = (id: number, price = id): Product => ({ id, name: `Product ${id}`, category: 'Category', price, description: '' });
+
+describe('catalog changes', () => {
+  it('should replace updated products in place, append new ones and remove deleted ones', () => {
+    const catalog = [product(1), product(2), product(3)];
+
+    const updated = applyCatalogChanges(catalog, { version: 'v2', full: false, products: [product(4), product(2, 99)], deleted: [3] });
+
+    expect(updated).toEqual([product(1), product(2, 99), product(4)]);
+    expect(catalog).toEqual([product(1), product(2), product(3)]);
+  });
+
+  it('should replace the whole catalog with a full change', () => {
+    const updated = applyCatalogChanges([product(1), product(2)], { version: 'v2', full: true, products: [product(3)], deleted: [] });
+
+    expect(updated).toEqual([product(3)]);
+  });
+
+  it('should remove products deleted by a string id', () => {
+    const updated = applyCatalogChanges([product(1)], { version: 'v2', full: false, products: [], deleted: ['1'] });
+
+    expect(updated).toEqual([]);
+  });
+
+  it('should tell when nothing changed', () => {
+    expect(isUnchanged({ version: 'v2', full: false, products: [], deleted: [] })).toBeTrue();
+    expect(isUnchanged({ version: 'v2', full: false, products: [], deleted: [1] })).toBeFalse();
+    expect(isUnchanged({ version: 'v2', full: true, products: [], deleted: [] })).toBeFalse();
+  });
+});
@@ -0,0 +1,38 @@
+import { Product } from '../../core/models/product.model';
+import { ProductChanges } from '../interfaces/product-changes';
+
+/**
+ * Applies the changes since a catalog version to a copy of the catalog: updated products replace
+ * their previous version in place, new products are appended and deleted products are removed.
+ * A `full` change replaces the whole copy.
+ *
+ * @param products - The copy of the catalog.
+ * @param changes - The changes since the version of the copy.
+ * @returns The updated catalog.
+ */
+export function applyCatalogChanges(products: Product[], changes: ProductChanges): Product[] {
+  if (changes.full) {
+    return changes.products;
+  }
+  const changed = new Map(changes.products.map(product => [String(product.id), product]));
+  const deleted = new Set(changes.deleted.map(String));
+  const updated = products
+    .filter(product => !deleted.has(String(product.id)))
+    .map(product => {
+      const key = String(product.id);
+      const replacement = changed.get(key);
+      changed.delete(key);
+      return replacement ?? product;
+    });
+  return updated.concat([...changed.values()]);
+}
+
+/**
+ * Checks whether changes leave a copy of the catalog as it is.
+ *
+ * @param changes - The changes since the version of the copy.
+ * @returns Whether nothing was created, updated or deleted.
+ */
+export function isUnchanged(changes: ProductChanges): boolean {
+  return !changes.full && changes.products.length === 0 && changes.deleted.length === 0;
+}
@@ -0,0 +1,76 @@
+import { Product } from '../../core/models/product.model';
+import { Filter } from '../../core/models/filter.model';
+import { FilterExpression } from '../../core/models/filter-expression.model';
+import { SearchOptions } from '../../core/models/search-options.model';
+import { CatalogIndex } from './catalog-index';
+import { buildExpressionPredicate } from './filter-expression';
+import { computeFacets } from './facets';
+import { matchesSearch } from './product-search';
+
+describe('CatalogIndex', () => {
+  const products: Product[] = [
+    { id: 1, name: 'Wireless Headphones', category: 'Electronics', price: 199, description: 'Noise-cancelling over-ear headphones' },
+    { id: 2, name: 'Crème Brûlée Torch', category: 'Kitchen', price: 29, description: 'Butane torch' },
+    { id: 3, name: 'Running Shoes', category: 'Fashion', price: 99, description: 'Lightweight trainers' },
+    { id: 4, name: 'Phone Case', category: 'Electronics', price: 15, description: 'Shockproof case for phones' },
+    { id: 5, name: 'Smartphone', category: 'Electronics', price: 699, description: 'Dual camera phone' },
+    { id: 6, name: 'Trail Shoes', category: 'Fashion', price: 120, description: 'Waterproof running shoes' },
+    { id: 7, name: 'Kettle', category: 'Kitchen', price: 99, description: 'Electric kettle' }
+  ];
+  const fuzzy: SearchOptions = { mode: 'fuzzy', threshold: 0.25 };
+  const index = new CatalogIndex(products);
+
+  const filter = (overrides: Partial<Filter>): Filter =>
+    ({ type: 'value', value: null, range: null, greater: null, smaller: null, multiselect: null, ...overrides });
+
+  const scan = (term: string, filters: FilterExpression, options?: SearchOptions) => {
+    const predicate = buildExpressionPredicate(filters);
+    return products.filter(p => matchesSearch(p, term, options) && (!predicate || predicate(p))).map(p => p.id);
+  };
+
+  const noFilters: FilterExpression = { logic: 'and', filters: [] };
+
+  it('should search like a full scan, exactly and tolerating typos', () => {
+    const terms = ['', 'phone', 'PHONE CASE', 'one c', 'shoes', 'crème', 'brulee', 'hedphones', 'runing shoes', 'e-ear', 'zzz', '!!'];
+    for (const term of terms) {
+      expect(index.select(term, noFilters).map(p => p.id)).withContext(`exact "${term}"`).toEqual(scan(term, noFilters));
+      expect(index.select(term, noFilters, fuzzy).map(p => p.id)).withContext(`fuzzy "${term}"`).toEqual(scan(term, noFilters, fuzzy));
+    }
+  });
+
+  it('should filter like the filter predicates', () => {
+    const expressions: FilterExpression[] = [
+      { key: 'category', value: filter({ type: 'multiselect', multiselect: { Electronics: true, Kitchen: true, Fashion: false } }) },
+      { key: 'category', value: filter({ type: 'value', value: 'tron' }) },
+      { key: 'price', value: filter({ type: 'range', range: { min: 29, max: 120 } }) },
+      { key: 'price', value: filter({ type: 'range', range: { min: null, max: 99 } }) },
+      { key: 'price', value: filter({ type: 'range', range: { min: 200, max: 100 } }) },
+      { key: 'price', value: filter({ type: 'greater', greater: 99 }) },
+      { key: 'price', value: filter({ type: 'smaller', smaller: 99 }) },
+      { key: 'name', value: filter({ type: 'value', value: 'shoes' }) },
+      {
+        logic: 'or', filters: [
+          { key: 'price', value: filter({ type: 'smaller', smaller: 20 }) },
+          { logic: 'not', filters: [{ key: 'category', value: filter({ type: 'multiselect', multiselect: { Electronics: true } }) }] }
+        ]
+      },
+      { logic: 'and', filters: [{ key: 'price', value: filter({ type: 'range', range: { min: null, max: null } }) }, { logic: 'not', filters: [] }] }
+    ];
+    for (const expression of expressions) {
+      expect(index.select('', expression).map(p => p.id)).withContext(JSON.stringify(expression)).toEqual(scan('', expression));
+      expect(index.select('shoes', expression).map(p => p.id)).withContext(JSON.stringify(expression)).toEqual(scan('shoes', expression));
+    }
+  });
+
+  it('should count facets like computeFacets', () => {
+    const filters: FilterExpression = {
+      logic: 'and',
+      filters: [
+        { key: 'category', value: filter({ type: 'multiselect', multiselect: { Electronics: true } }) },
+        { key: 'price', value: filter({ type: 'range', range: { min: 20, max: null } }) }
+      ]
+    };
+    expect(index.facets('e', filters, ['category', 'price'])).toEqual(computeFacets(products, 'e', filters, ['category', 'price']));
+    expect(index.facets('fone', filters, ['category'], fuzzy)).toEqual(computeFacets(products, 'fone', filters, ['category'], fuzzy));
+  });
+});
@@ -0,0 +1,282 @@
+import { Product } from '../../core/models/product.model';
+import { Filter } from '../../core/models/filter.model';
+import { FilterExpression } from '../../core/models/filter-expression.model';
+import { SearchOptions } from '../../core/models/search-options.model';
+import { FacetCounts } from '../interfaces/filter-response';
+import { isFilterGroup, withoutKey } from './filter-expression';
+import { buildFilterPredicate, getFilterValues, isBound, ProductPredicate, toNumber } from './filter-predicate';
+import { EXACT_SEARCH, matchesSearch, SEARCH_FIELD_WEIGHTS } from './product-search';
+import { tokenize, tokenMatches } from './text-search';
+
+/**
+ * A set of products of the catalog: `1` at the position of every product in the set.
+ */
+type ProductMask = Uint8Array;
+
+const ASCII_PATTERN = /^[\x00-\x7f]*$/;
+
+/**
+ * Indexes an in-memory catalog once, so that searching and filtering look positions up instead of
+ * scanning every product:
+ * - an inverted index from the words of the searched attributes to the products holding them;
+ * - the products of each category;
+ * - the products ordered by price, for range lookups by binary search.
+ *
+ * Results are identical to `matchesSearch` and `buildExpressionPredicate`: exact searches use the
+ * index to narrow down candidates, which are then checked with `matchesSearch`, and filters on
+ * attributes without an index are evaluated with their predicate.
+ */
+export class CatalogIndex {
+  private tokenPostings = new Map<string, number[]>();
+  private categoryPostings = new Map<string, number[]>();
+  private vocabulary: string[];
+  private priceOrder: number[];
+  private sortedPrices: number[];
+
+  /**
+   * @param products - The catalog.
+   */
+  constructor(private products: Product[]) {
+    products.forEach((product, position) => {
+      const tokens = new Set(SEARCH_FIELD_WEIGHTS.flatMap(([field]) => tokenize(String(product[field] ?? ''))));
+      tokens.forEach(token => addPosting(this.tokenPostings, token, position));
+      addPosting(this.categoryPostings, String(product.category), position);
+    });
+    this.vocabulary = [...this.tokenPostings.keys()];
+    const prices = products.map(product => toNumber(product.price));
+    this.priceOrder = products.map((_, position) => position)
+      .filter(position => !Number.isNaN(prices[position]))
+      .sort((a, b) => prices[a] - prices[b]);
+    this.sortedPrices = this.priceOrder.map(position => prices[position]);
+  }
+
+  /**
+   * Returns the products matching a search term and a filter expression, in catalog order.
+   *
+   * @param searchTerm - The search term.
+   * @param filters - The filter expression.
+   * @param options - How the search term is matched.
+   * @returns The matching products.
+   */
+  select(searchTerm: string, filters: FilterExpression, options: SearchOptions = EXACT_SEARCH): Product[] {
+    const mask = intersect(this.search(searchTerm, options), this.filter(filters));
+    return mask ? this.products.filter((_, position) => mask[position] === 1) : this.products;
+  }
+
+  /**
+   * Counts the matching products per value of each faceted attribute, like `computeFacets`:
+   * the counts of a facet apply the search term and every filter except the ones on the facet itself.
+   *
+   * @param searchTerm - The search term.
+   * @param filters - The filter expression.
+   * @param keys - The attributes to compute facet counts for.
+   * @param options - How the search term is matched.
+   * @returns The facet counts, keyed by attribute and then by value.
+   */
+  facets(searchTerm: string, filters: FilterExpression, keys: Array<keyof Product>, options: SearchOptions = EXACT_SEARCH): FacetCounts {
+    const searched = this.search(searchTerm, options);
+    const facets: FacetCounts = {};
+    for (const key of keys) {
+      const remaining = withoutKey(filters, key);
+      const mask = intersect(searched, remaining ? this.filter(remaining) : null);
+      const counts: { [value: string]: number } = {};
+      this.products.forEach((product, position) => {
+        if (!mask || mask[position] === 1) {
+          const value = String(product[key]);
+          counts[value] = (counts[value] ?? 0) + 1;
+        }
+      });
+      facets[key] = counts;
+    }
+    return facets;
+  }
+
+  /**
+   * Finds the products matching a search term. In fuzzy mode, every word of the term must match a
+   * word of the product: the words of the index matching each word of the term are looked up and
+   * their products intersected. In exact mode the same lookup, with the index words containing each
+   * word of the term, gives the candidates checked with `matchesSearch`; terms with non-ASCII
+   * characters, which normalization may change, are checked against every product.
+   *
+   * @param term - The search term.
+   * @param options - How the search term is matched.
+   * @returns The matching products, or `null` when every product matches.
+   */
+  private search(term: string, options: SearchOptions): ProductMask | null {
+    const queryTokens = tokenize(term);
+    if (options.mode === 'fuzzy') {
+      return queryTokens.reduce<ProductMask | null>(
+        (mask, queryToken) => intersect(mask, this.lookupTokens(token => tokenMatches(queryToken, token, options.threshold))),
+        null
+      );
+    }
+    if (term === '') {
+      return null;
+    }
+    const candidates = ASCII_PATTERN.test(term)
+      ? queryTokens.reduce<ProductMask | null>((mask, queryToken) => intersect(mask, this.lookupTokens(token => token.includes(queryToken))), null)
+      : null;
+    return this.scan(product => matchesSearch(product, term, options), candidates);
+  }
+
+  /**
+   * Evaluates a filter expression tree with the same semantics as `buildExpressionPredicate`:
+   * filters without a usable operand and empty groups do not restrict the result.
+   *
+   * @param expression - The expression to evaluate.
+   * @returns The matching products, or `null` when the expression does not restrict the result.
+   */
+  private filter(expression: FilterExpression): ProductMask | null {
+    if (!isFilterGroup(expression)) {
+      return this.filterAttribute(expression.key, expression.value);
+    }
+
+    const masks = expression.filters
+      .map(member => this.filter(member))
+      .filter((mask): mask is ProductMask => mask !== null);
+
+    if (masks.length === 0) {
+      return null;
+    }
+
+    switch (expression.logic) {
+      case 'and':
+        return masks.reduce((result, mask) => intersect(result, mask)!);
+      case 'or':
+        return masks.reduce((result, mask) => result.map((marked, position) => marked | mask[position]));
+      case 'not':
+        return masks.reduce((result, mask) => intersect(result, mask)!).map(marked => marked ^ 1);
+    }
+  }
+
+  /**
+   * Evaluates a filter on a single attribute, from the category and price indexes when they apply.
+   *
+   * @param key - The product attribute.
+   * @param filter - The filter.
+   * @returns The matching products, or `null` when the filter does not restrict the result.
+   */
+  private filterAttribute(key: keyof Product, filter: Filter): ProductMask | null {
+    const predicate = buildFilterPredicate(key, filter);
+    if (!predicate) {
+      return null;
+    }
+    if (key === 'category' && filter.type === 'multiselect') {
+      // A product has a single category, so the predicate above only accepts any of the options.
+      const postings = getFilterValues(filter).map(option => this.markPositions(this.categoryPostings.get(String(option)) ?? []));
+      return postings.reduce((result, mask) => result.map((marked, position) => marked | mask[position]));
+    }
+    if (key === 'price' && filter.type !== 'value' && filter.type !== 'multiselect') {
+      return this.priceRange(filter);
+    }
+    return this.scan(predicate, null);
+  }
+
+  /**
+   * Looks the products within a price range up by binary search in the products ordered by price.
+   *
+   * @param filter - A `range`, `greater` or `smaller` filter on the price.
+   * @returns The matching products.
+   */
+  private priceRange(filter: Filter): ProductMask {
+    let start = 0;
+    let end = this.sortedPrices.length;
+    if (filter.type === 'range') {
+      const min = filter.range?.min;
+      const max = filter.range?.max;
+      start = isBound(min) ? this.firstPriceIndex(price => price >= min) : start;
+      end = isBound(max) ? this.firstPriceIndex(price => price > max) : end;
+    } else if (filter.type === 'greater') {
+      const bound = filter.greater!;
+      start = this.firstPriceIndex(price => price > bound);
+    } else {
+      const bound = filter.smaller!;
+      end = this.firstPriceIndex(price => price >= bound);
+    }
+    return this.markPositions(this.priceOrder.slice(start, Math.max(start, end)));
+  }
+
+  /**
+   * Finds the first index of the sorted prices satisfying a condition that, once true, stays true.
+   *
+   * @param condition - The condition.
+   * @returns The index, or the number of prices when none satisfies it.
+   */
+  private firstPriceIndex(condition: (price: number) => boolean): number {
+    let low = 0;
+    let high = this.sortedPrices.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (condition(this.sortedPrices[middle])) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Collects the products holding any word of the index satisfying a condition.
+   *
+   * @param condition - Selects the words of the index.
+   * @returns The products holding a selected word.
+   */
+  private lookupTokens(condition: (token: string) => boolean): ProductMask {
+    const mask: ProductMask = new Uint8Array(this.products.length);
+    for (const token of this.vocabulary) {
+      if (condition(token)) {
+        this.tokenPostings.get(token)!.forEach(position => mask[position] = 1);
+      }
+    }
+    return mask;
+  }
+
+  /**
+   * Checks products one by one.
+   *
+   * @param predicate - The check.
+   * @param candidates - The products to check, every product when `null`.
+   * @returns The products passing the check.
+   */
+  private scan(predicate: ProductPredicate, candidates: ProductMask | null): ProductMask {
+    const mask: ProductMask = new Uint8Array(this.products.length);
+    this.products.forEach((product, position) => {
+      if ((!candidates || candidates[position] === 1) && predicate(product)) {
+        mask[position] = 1;
+      }
+    });
+    return mask;
+  }
+
+  /**
+   * Turns a list of product positions into a product set.
+   */
+  private markPositions(positions: number[]): ProductMask {
+    const mask: ProductMask = new Uint8Array(this.products.length);
+    positions.forEach(position => mask[position] = 1);
+    return mask;
+  }
+}
+
+/**
+ * Appends a product position to the postings of a key.
+ */
+function addPosting(postings: Map<string, number[]>, key: string, position: number): void {
+  const positions = postings.get(key);
+  if (positions) {
+    positions.push(position);
+  } else {
+    postings.set(key, [position]);
+  }
+}
+
+/**
+ * Intersects two product sets, `null` standing for every product.
+ */
+function intersect(a: ProductMask | null, b: ProductMask | null): ProductMask | null {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return a.map((marked, position) => marked & b[position]);
+}
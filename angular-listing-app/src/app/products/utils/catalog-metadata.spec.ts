@@ -0,0 +1,45 @@
+import { Product } from '../../core/models/product.model';
+import { PRICE_HISTOGRAM_BINS, computeCatalogMetadata } from './catalog-metadata';
+
+const product = (id: number, category: string, price: number): Product => ({ id, name: `Product ${id}`, category, price, description: '' });
+
+describe('computeCatalogMetadata', () => {
+  it('should count the products and list their distinct categories in order', () => {
+    const metadata = computeCatalogMetadata([product(1, 'Toys', 5), product(2, 'Books', 10), product(3, 'Toys', 15), product(4, '', 20)]);
+
+    expect(metadata.count).toBe(4);
+    expect(metadata.categories).toEqual(['Books', 'Toys']);
+  });
+
+  it('should list the distinct tags of the products in order', () => {
+    const metadata = computeCatalogMetadata([
+      { ...product(1, 'Toys', 5), tags: ['wooden', 'gift'] },
+      { ...product(2, 'Books', 10), tags: ['gift', ''] },
+      product(3, 'Toys', 15)
+    ]);
+
+    expect(metadata.tags).toEqual(['gift', 'wooden']);
+  });
+
+  it('should count the prices in equal-width intervals between the lowest and the highest price', () => {
+    const metadata = computeCatalogMetadata([product(1, 'Toys', 0), product(2, 'Toys', 0.5), product(3, 'Toys', 50), product(4, 'Toys', 100)]);
+
+    expect(metadata.priceRange).toEqual({ min: 0, max: 100 });
+    expect(metadata.priceHistogram.length).toBe(PRICE_HISTOGRAM_BINS);
+    expect(metadata.priceHistogram[0]).toBe(2);
+    expect(metadata.priceHistogram[50]).toBe(1);
+    expect(metadata.priceHistogram[PRICE_HISTOGRAM_BINS - 1]).toBe(1);
+    expect(metadata.priceHistogram.reduce((total, count) => total + count)).toBe(4);
+  });
+
+  it('should put every product in the first interval when all prices are equal', () => {
+    const metadata = computeCatalogMetadata([product(1, 'Toys', 7), product(2, 'Toys', 7)]);
+
+    expect(metadata.priceRange).toEqual({ min: 7, max: 7 });
+    expect(metadata.priceHistogram[0]).toBe(2);
+  });
+
+  it('should describe an empty catalog', () => {
+    expect(computeCatalogMetadata([])).toEqual({ count: 0, categories: [], tags: [], priceRange: null, priceHistogram: [] });
+  });
+});
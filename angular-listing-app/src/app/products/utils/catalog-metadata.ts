@@ -0,0 +1,30 @@
+import { Product } from '../../core/models/product.model';
+import { CatalogMetadata } from '../interfaces/catalog-metadata';
+
+/**
+ * The number of equal-width price intervals counted in the catalog metadata, as on the server.
+ */
+export const PRICE_HISTOGRAM_BINS = 100;
+
+/**
+ * Describes a catalog held in memory like the `/products/metadata` endpoint does: the number of products,
+ * the distinct non-empty categories and tags in sort order, the price range and the price histogram.
+ *
+ * @param products - The catalog.
+ * @returns The catalog metadata.
+ */
+export function computeCatalogMetadata(products: Product[]): CatalogMetadata {
+  const categories = new Set(products.map(product => product.category).filter(category => typeof category === 'string' && category !== ''));
+  const tags = [...new Set(products.flatMap(product => product.tags ?? []).filter(tag => typeof tag === 'string' && tag !== ''))].sort();
+  const prices = products.map(product => product.price).filter(price => typeof price === 'number' && !Number.isNaN(price));
+  if (prices.length === 0) {
+    return { count: products.length, categories: [...categories].sort(), tags, priceRange: null, priceHistogram: [] };
+  }
+
+  const min = prices.reduce((lowest, price) => Math.min(lowest, price));
+  const max = prices.reduce((highest, price) => Math.max(highest, price));
+  const width = (max - min) / PRICE_HISTOGRAM_BINS;
+  const priceHistogram = new Array<number>(PRICE_HISTOGRAM_BINS).fill(0);
+  prices.forEach(price => priceHistogram[width > 0 ? Math.min(Math.floor((price - min) / width), PRICE_HISTOGRAM_BINS - 1) : 0]++);
+  return { count: products.length, categories: [...categories].sort(), tags, priceRange: { min, max }, priceHistogram };
+}
@@ -0,0 +1,40 @@
+import { FilterExpression } from '../../core/models/filter-expression.model';
+import { Product } from '../../core/models/product.model';
+import { SearchOptions } from '../../core/models/search-options.model';
+import { FacetCounts } from '../interfaces/filter-response';
+import { buildExpressionPredicate, withoutKey } from './filter-expression';
+import { EXACT_SEARCH, matchesSearch } from './product-search';
+
+/**
+ * Counts the matching products per value of each faceted attribute.
+ *
+ * Counts are disjunctive: the counts of a facet apply the search term and every filter
+ * except the ones on the facet itself, so selecting a value does not zero out its siblings.
+ *
+ * @param products - The full product list.
+ * @param searchTerm - The search term applied to the products.
+ * @param filters - The filter expression applied to the products.
+ * @param keys - The attributes to compute facet counts for.
+ * @param searchOptions - How the search term is matched.
+ * @returns The facet counts, keyed by attribute and then by value.
+ */
+export function computeFacets(products: Product[], searchTerm: string, filters: FilterExpression, keys: Array<keyof Product>, searchOptions: SearchOptions = EXACT_SEARCH): FacetCounts {
+  const searched = searchTerm ? products.filter(p => matchesSearch(p, searchTerm, searchOptions)) : products;
+  const facets: FacetCounts = {};
+
+  for (const key of keys) {
+    const remaining = withoutKey(filters, key);
+    const predicate = remaining ? buildExpressionPredicate(remaining) : null;
+    const counts: { [value: string]: number } = {};
+    for (const product of searched) {
+      if (predicate && !predicate(product)) {
+        continue;
+      }
+      const value = String(product[key]);
+      counts[value] = (counts[value] ?? 0) + 1;
+    }
+    facets[key] = counts;
+  }
+
+  return facets;
+}
@@ -0,0 +1,86 @@
+import { Filter } from '../../core/models/filter.model';
+import { FilterExpression } from '../../core/models/filter-expression.model';
+import { Product } from '../../core/models/product.model';
+import { buildExpressionPredicate, fromFilterPayload, toFilterPayload, withoutKey } from './filter-expression';
+
+describe('filter-expression', () => {
+  const products: Product[] = [
+    { id: 1, name: 'Laptop', category: 'Electronics', price: 999, description: 'High-end laptop' },
+    { id: 2, name: 'Phone', category: 'Electronics', price: 699, description: 'Smartphone' },
+    { id: 3, name: 'Shoes', category: 'Fashion', price: 99, description: 'Running shoes' },
+    { id: 4, name: 'T-shirt', category: 'Fashion', price: 19, description: 'Cotton t-shirt' }
+  ];
+
+  const emptyFilter: Filter = {
+    type: 'value',
+    value: null,
+    range: null,
+    greater: null,
+    smaller: null,
+    multiselect: null
+  };
+
+  const fashion: FilterExpression = { key: 'category', value: { ...emptyFilter, type: 'multiselect', multiselect: { Fashion: true } } };
+  const cheap: FilterExpression = { key: 'price', value: { ...emptyFilter, type: 'smaller', smaller: 100 } };
+  const inactive: FilterExpression = { key: 'name', value: { ...emptyFilter, type: 'value', value: '' } };
+
+  const matching = (expression: FilterExpression) => {
+    const predicate = buildExpressionPredicate(expression);
+    return predicate ? products.filter(predicate).map(p => p.id) : null;
+  };
+
+  it('should combine members with and, or and not', () => {
+    expect(matching({ logic: 'and', filters: [fashion, { key: 'name', value: { ...emptyFilter, value: 'shoe' } }] })).toEqual([3]);
+    expect(matching({ logic: 'or', filters: [cheap, { key: 'name', value: { ...emptyFilter, value: 'laptop' } }] })).toEqual([1, 3, 4]);
+    expect(matching({ logic: 'not', filters: [fashion] })).toEqual([1, 2]);
+  });
+
+  it('should evaluate nested groups', () => {
+    const expression: FilterExpression = {
+      logic: 'and',
+      filters: [
+        { logic: 'not', filters: [fashion] },
+        { logic: 'or', filters: [{ key: 'price', value: { ...emptyFilter, type: 'greater', greater: 900 } }, cheap] }
+      ]
+    };
+
+    expect(matching(expression)).toEqual([1]);
+  });
+
+  it('should treat inactive filters and empty groups as absent', () => {
+    expect(matching({ logic: 'or', filters: [inactive, cheap] })).toEqual([3, 4]);
+    expect(matching({ logic: 'not', filters: [inactive] })).toBeNull();
+    expect(matching({ logic: 'and', filters: [] })).toBeNull();
+  });
+
+  it('should serialize the expression without inactive members', () => {
+    const payload = toFilterPayload({ logic: 'and', filters: [inactive, { logic: 'not', filters: [fashion] }, { logic: 'or', filters: [] }] });
+
+    expect(payload).toEqual({
+      logic: 'and',
+      filters: [{ logic: 'not', filters: [{ key: 'category', values: ['Fashion'], type: 'multiselect', logic: 'or' }] }]
+    });
+  });
+
+  it('should wrap a single filter in an and group', () => {
+    expect(toFilterPayload(cheap)).toEqual({ logic: 'and', filters: [{ key: 'price', values: [100], type: 'smaller', logic: 'or' }] });
+    expect(toFilterPayload(inactive)).toEqual({ logic: 'and', filters: [] });
+  });
+
+  it('should parse a serialized expression back, converting numeric strings', () => {
+    const expression: FilterExpression = { logic: 'or', filters: [{ logic: 'not', filters: [fashion] }, cheap] };
+
+    expect(matching(fromFilterPayload(toFilterPayload(expression)))).toEqual(matching(expression));
+    expect(matching(fromFilterPayload({
+      logic: 'and',
+      filters: [{ key: 'price', values: ['50', ''], type: 'range', logic: 'or' }, { key: 'category', values: ['Fashion', 'Toys'], type: 'multiselect', logic: 'or' }]
+    }))).toEqual([3]);
+  });
+
+  it('should remove the filters on a key for disjunctive faceting', () => {
+    const pruned = withoutKey({ logic: 'and', filters: [fashion, { logic: 'or', filters: [cheap, fashion] }] }, 'category');
+
+    expect(pruned).toEqual({ logic: 'and', filters: [{ logic: 'or', filters: [cheap] }] });
+    expect(withoutKey(fashion, 'category')).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import { FilterExpression, FilterGroup } from '../../core/models/filter-expression.model';
+import { Filter } from '../../core/models/filter.model';
+import { Product } from '../../core/models/product.model';
+import { FilterExpressionPayload, FilterGroupPayload } from '../interfaces/filter-payload';
+import { buildFilterPredicate, getFilterValues, isFilterActive, ProductPredicate, toNumber } from './filter-predicate';
+
+/**
+ * Checks whether a filter expression node is a group rather than a single filter.
+ *
+ * @param expression - The node to check.
+ * @returns `true` when the node is a group.
+ */
+export function isFilterGroup(expression: FilterExpression): expression is FilterGroup {
+  return 'filters' in expression;
+}
+
+/**
+ * Builds a predicate evaluating a filter expression tree.
+ *
+ * Filters without a usable operand, and groups left without members, are treated as
+ * absent rather than as matching everything: `or(inactive, price < 10)` behaves
+ * like `price < 10`, and `not()` does not restrict the result.
+ *
+ * @param expression - The expression to evaluate.
+ * @returns The predicate, or `null` when the expression does not restrict the result.
+ */
+export function buildExpressionPredicate(expression: FilterExpression): ProductPredicate | null {
+  if (!isFilterGroup(expression)) {
+    return buildFilterPredicate(expression.key, expression.value);
+  }
+
+  const predicates = expression.filters
+    .map(member => buildExpressionPredicate(member))
+    .filter((predicate): predicate is ProductPredicate => predicate !== null);
+
+  if (predicates.length === 0) {
+    return null;
+  }
+
+  switch (expression.logic) {
+    case 'and':
+      return product => predicates.every(predicate => predicate(product));
+    case 'or':
+      return product => predicates.some(predicate => predicate(product));
+    case 'not':
+      return product => !predicates.every(predicate => predicate(product));
+  }
+}
+
+/**
+ * Removes every filter on the given product attribute from an expression.
+ * Used for disjunctive faceting, where the counts of a facet ignore the facet's own selection.
+ *
+ * @param expression - The expression to prune.
+ * @param key - The product attribute whose filters are removed.
+ * @returns The pruned expression, or `null` when nothing is left.
+ */
+export function withoutKey(expression: FilterExpression, key: keyof Product): FilterExpression | null {
+  if (!isFilterGroup(expression)) {
+    return expression.key === key ? null : expression;
+  }
+  const filters = expression.filters
+    .map(member => withoutKey(member, key))
+    .filter((member): member is FilterExpression => member !== null);
+  return { logic: expression.logic, filters };
+}
+
+/**
+ * Serializes a filter expression node into the `/products/filter` payload shape.
+ * Inactive filters and empty groups are dropped, so the backend evaluates exactly
+ * the conditions the client-side strategy does.
+ *
+ * @param expression - The node to serialize.
+ * @returns The serialized node, or `null` when nothing is left to send.
+ */
+function serializeExpression(expression: FilterExpression): FilterExpressionPayload | null {
+  if (!isFilterGroup(expression)) {
+    if (!isFilterActive(expression.value)) {
+      return null;
+    }
+    return {
+      key: expression.key,
+      values: getFilterValues(expression.value),
+      type: expression.value.type,
+      logic: expression.value.logic ?? 'or'
+    };
+  }
+
+  const filters = expression.filters
+    .map(member => serializeExpression(member))
+    .filter((member): member is FilterExpressionPayload => member !== null);
+
+  return filters.length > 0 ? { logic: expression.logic, filters } : null;
+}
+
+/**
+ * Serializes a filter expression into the root group of the `/products/filter` payload.
+ *
+ * @param expression - The expression to serialize.
+ * @returns The root group; a single filter is wrapped in an `and` group.
+ */
+export function toFilterPayload(expression: FilterExpression): FilterGroupPayload {
+  const serialized = serializeExpression(expression);
+  if (serialized === null) {
+    return { logic: 'and', filters: [] };
+  }
+  return 'filters' in serialized ? serialized : { logic: 'and', filters: [serialized] };
+}
+
+/**
+ * Parses a filter expression from the `/products/filter` payload shape, the reverse of `toFilterPayload`,
+ * e.g. to evaluate a request in memory. Numeric operands sent as strings are converted to numbers.
+ *
+ * @param payload - The serialized node.
+ * @returns The filter expression.
+ */
+export function fromFilterPayload(payload: FilterExpressionPayload): FilterExpression {
+  if ('filters' in payload) {
+    return { logic: payload.logic, filters: payload.filters.map(member => fromFilterPayload(member)) };
+  }
+
+  const [first = null, second = null] = payload.values;
+  const filter: Filter = { type: payload.type, value: null, range: null, greater: null, smaller: null, multiselect: null, logic: payload.logic };
+  switch (payload.type) {
+    case 'value':
+      filter.value = first !== null ? String(first) : null;
+      break;
+    case 'range':
+      filter.range = { min: toOperand(first), max: toOperand(second) };
+      break;
+    case 'greater':
+      filter.greater = toOperand(first);
+      break;
+    case 'smaller':
+      filter.smaller = toOperand(first);
+      break;
+    case 'multiselect':
+      filter.multiselect = Object.fromEntries(payload.values.filter(value => value !== null).map(value => [String(value), true]));
+      break;
+  }
+  return { key: payload.key as keyof Product, value: filter };
+}
+
+/**
+ * Converts a serialized numeric operand, `null` when it is missing or not a number.
+ */
+function toOperand(value: string | number | null): number | null {
+  const operand = toNumber(value);
+  return Number.isNaN(operand) ? null : operand;
+}
@@ -0,0 +1,79 @@
+import { Filter } from '../../core/models/filter.model';
+import { Product } from '../../core/models/product.model';
+import { buildFilterPredicate, FilterValidationError, getFilterValues, isFilterActive } from './filter-predicate';
+
+describe('filter-predicate', () => {
+  const products: Product[] = [
+    { id: 1, name: 'Laptop', category: 'Electronics', price: 999, description: 'High-end laptop', tags: ['portable'] },
+    { id: 2, name: 'Phone', category: 'Electronics', price: 699, description: 'Smartphone', tags: ['portable', 'wireless'] },
+    { id: 3, name: 'Shoes', category: 'Fashion', price: 99, description: 'Running shoes', tags: [] },
+    { id: 4, name: 'T-shirt', category: 'Fashion', price: 19, description: 'Cotton t-shirt' }
+  ];
+
+  const emptyFilter: Filter = {
+    type: 'value',
+    value: null,
+    range: null,
+    greater: null,
+    smaller: null,
+    multiselect: null
+  };
+
+  const matching = (key: keyof Product, filter: Filter) => {
+    const predicate = buildFilterPredicate(key, filter);
+    return predicate ? products.filter(predicate).map(p => p.id) : null;
+  };
+
+  it('should match string attributes case-insensitively on a substring for value filters', () => {
+    expect(matching('name', { ...emptyFilter, type: 'value', value: 'PHO' })).toEqual([2]);
+    expect(matching('description', { ...emptyFilter, type: 'value', value: 'shirt' })).toEqual([4]);
+  });
+
+  it('should match numeric attributes on equality for value filters', () => {
+    expect(matching('price', { ...emptyFilter, type: 'value', value: '99' })).toEqual([3]);
+  });
+
+  it('should apply inclusive range bounds on any numeric attribute', () => {
+    expect(matching('price', { ...emptyFilter, type: 'range', range: { min: 99, max: 699 } })).toEqual([2, 3]);
+    expect(matching('id', { ...emptyFilter, type: 'range', range: { min: 2, max: 3 } })).toEqual([2, 3]);
+  });
+
+  it('should support ranges with a single bound', () => {
+    expect(matching('price', { ...emptyFilter, type: 'range', range: { min: 500, max: null } })).toEqual([1, 2]);
+    expect(matching('price', { ...emptyFilter, type: 'range', range: { min: null, max: 99 } })).toEqual([3, 4]);
+  });
+
+  it('should apply strict bounds for greater and smaller filters', () => {
+    expect(matching('price', { ...emptyFilter, type: 'greater', greater: 699 })).toEqual([1]);
+    expect(matching('price', { ...emptyFilter, type: 'smaller', smaller: 99 })).toEqual([4]);
+  });
+
+  it('should match any selected option for multiselect filters', () => {
+    const filter: Filter = { ...emptyFilter, type: 'multiselect', multiselect: { Fashion: true, Electronics: false } };
+    expect(matching('category', filter)).toEqual([3, 4]);
+  });
+
+  it('should match any or all of the selected options on attributes holding a list of values', () => {
+    const filter: Filter = { ...emptyFilter, type: 'multiselect', multiselect: { portable: true, wireless: true } };
+    expect(matching('tags', { ...filter, logic: 'or' })).toEqual([1, 2]);
+    expect(matching('tags', { ...filter, logic: 'and' })).toEqual([2]);
+  });
+
+  it('should return null for filters without a usable operand', () => {
+    expect(buildFilterPredicate('name', { ...emptyFilter, type: 'value', value: '' })).toBeNull();
+    expect(buildFilterPredicate('price', { ...emptyFilter, type: 'range', range: { min: null, max: null } })).toBeNull();
+    expect(buildFilterPredicate('category', { ...emptyFilter, type: 'multiselect', multiselect: { Fashion: false } })).toBeNull();
+    expect(isFilterActive({ ...emptyFilter, type: 'greater' })).toBeFalse();
+  });
+
+  it('should reject and logic on single-valued attributes, which could never hold all the options', () => {
+    const filter: Filter = { ...emptyFilter, type: 'multiselect', multiselect: { Fashion: true, Electronics: true }, logic: 'and' };
+    expect(() => buildFilterPredicate('category', filter)).toThrowError(FilterValidationError);
+    expect(isFilterActive(filter)).toBeTrue();
+  });
+
+  it('should expose filter operands as a flat list', () => {
+    expect(getFilterValues({ ...emptyFilter, type: 'range', range: { min: 10, max: null } })).toEqual([10, null]);
+    expect(getFilterValues({ ...emptyFilter, type: 'multiselect', multiselect: { A: true, B: false } })).toEqual(['A']);
+  });
+});
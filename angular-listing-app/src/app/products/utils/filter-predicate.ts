@@ -0,0 +1,177 @@
+import { Filter } from '../../core/models/filter.model';
+import { FilterType } from '../../core/models/filter-type.model';
+import { Product } from '../../core/models/product.model';
+
+/**
+ * A function deciding whether a product satisfies a condition.
+ */
+export type ProductPredicate = (product: Product) => boolean;
+
+type PredicateBuilder = (key: keyof Product, filter: Filter) => ProductPredicate | null;
+
+/**
+ * The product attributes holding a list of values. Only those can hold all the options of a multiselect
+ * filter, like the attributes the API stores as arrays.
+ */
+export const MULTI_VALUED_ATTRIBUTES: ReadonlyArray<keyof Product> = ['tags'];
+
+/**
+ * Raised when a filter cannot be evaluated, e.g. requires all the options of a single-valued attribute.
+ */
+export class FilterValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterValidationError';
+  }
+}
+
+/**
+ * Converts a product attribute or filter operand into a number.
+ * Empty strings and non numeric values are converted to `NaN` so that they never match.
+ */
+export const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    return Number(value);
+  }
+  return NaN;
+};
+
+/**
+ * Checks whether a bound of a numeric filter is set.
+ */
+export const isBound = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined && !Number.isNaN(value);
+
+/**
+ * Returns the options selected in a multiselect filter.
+ */
+const selectedOptions = (filter: Filter): string[] =>
+  Object.entries(filter.multiselect ?? {})
+    .filter(([_, isSelected]) => isSelected)
+    .map(([option, _]) => option);
+
+/**
+ * One predicate builder per filter type. A builder returns `null` when the filter
+ * carries no usable operand, meaning the filter does not restrict the result.
+ *
+ * Typing the map as a `Record` over `FilterType` guarantees that adding a new filter
+ * type fails to compile until it gets a builder here.
+ */
+const predicateBuilders: Record<FilterType, PredicateBuilder> = {
+  // Strings match case-insensitively on a substring, any other attribute on equality.
+  value: (key, filter) => {
+    if (filter.value === null || filter.value === '') {
+      return null;
+    }
+    const operand = filter.value;
+    const lowerOperand = operand.toLowerCase();
+    return product => {
+      const attribute = product[key];
+      if (typeof attribute === 'string') {
+        return attribute.toLowerCase().includes(lowerOperand);
+      }
+      return toNumber(attribute) === toNumber(operand);
+    };
+  },
+
+  // Both bounds are inclusive and either of them may be omitted.
+  range: (key, filter) => {
+    const min = filter.range?.min;
+    const max = filter.range?.max;
+    const hasMin = isBound(min);
+    const hasMax = isBound(max);
+    if (!hasMin && !hasMax) {
+      return null;
+    }
+    return product => {
+      const attribute = toNumber(product[key]);
+      return (!hasMin || attribute >= min) && (!hasMax || attribute <= max);
+    };
+  },
+
+  greater: (key, filter) => {
+    const bound = filter.greater;
+    if (!isBound(bound)) {
+      return null;
+    }
+    return product => toNumber(product[key]) > bound;
+  },
+
+  smaller: (key, filter) => {
+    const bound = filter.smaller;
+    if (!isBound(bound)) {
+      return null;
+    }
+    return product => toNumber(product[key]) < bound;
+  },
+
+  // `or` matches when the attribute holds any selected option, `and` only when it holds all of them,
+  // which is rejected on single-valued attributes like the API does.
+  multiselect: (key, filter) => {
+    const selected = selectedOptions(filter);
+    if (selected.length === 0) {
+      return null;
+    }
+    const matchAllOptions = filter.logic === 'and';
+    if (matchAllOptions && !MULTI_VALUED_ATTRIBUTES.includes(key)) {
+      throw new FilterValidationError(`Filter key ${key} holds a single value: it cannot match all of the options`);
+    }
+    return product => {
+      const attribute: unknown = product[key];
+      // A missing attribute holds no value, e.g. a product without tags
+      const values = new Set(Array.isArray(attribute) ? attribute.map(String) : attribute === undefined || attribute === null ? [] : [String(attribute)]);
+      return matchAllOptions
+        ? selected.every(option => values.has(option))
+        : selected.some(option => values.has(option));
+    };
+  },
+};
+
+/**
+ * Builds a predicate checking a single product attribute against a filter.
+ *
+ * @param key - The product attribute to evaluate.
+ * @param filter - The filter to evaluate the attribute against.
+ * @returns The predicate, or `null` when the filter does not restrict the result.
+ * @throws {FilterValidationError} When a multiselect filter requires all the options of a single-valued attribute.
+ */
+export function buildFilterPredicate(key: keyof Product, filter: Filter): ProductPredicate | null {
+  return predicateBuilders[filter.type](key, filter);
+}
+
+/**
+ * Checks whether a filter restricts the result at all.
+ *
+ * @param filter - The filter to check.
+ * @returns `true` when the filter carries a usable operand.
+ */
+export function isFilterActive(filter: Filter): boolean {
+  return filter.type === 'multiselect'
+    ? selectedOptions(filter).length > 0
+    : buildFilterPredicate('id', filter) !== null;
+}
+
+/**
+ * Returns the operands of a filter as a flat list, in the shape expected by the
+ * `/products/filter` endpoint.
+ *
+ * @param filter - The filter to read.
+ * @returns The filter operands.
+ */
+export function getFilterValues(filter: Filter): Array<string | number | null> {
+  switch (filter.type) {
+    case 'value':
+      return filter.value !== null ? [filter.value] : [];
+    case 'range':
+      return [filter.range?.min ?? null, filter.range?.max ?? null];
+    case 'greater':
+      return [filter.greater];
+    case 'smaller':
+      return [filter.smaller];
+    case 'multiselect':
+      return selectedOptions(filter);
+  }
+}
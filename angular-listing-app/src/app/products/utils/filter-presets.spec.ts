@@ -0,0 +1,54 @@
+import { FilterPreset } from '../interfaces/filter-preset';
+import { exportPresets, parsePresets, PresetImportError } from './filter-presets';
+
+describe('filter-presets', () => {
+  const preset: FilterPreset = {
+    id: 'a1',
+    name: 'Home Appliances under $100',
+    state: {
+      searchTerm: '',
+      categories: ['Home Appliances'],
+      tags: ['smart', 'wireless'],
+      tagsLogic: 'and',
+      priceRange: { min: null, max: 100 },
+      pageSize: 20
+    }
+  };
+
+  it('should read back exported presets', () => {
+    expect(parsePresets(exportPresets([preset]))).toEqual([preset]);
+  });
+
+  it('should ignore the category match logic of presets saved before it was dropped', () => {
+    const [imported] = parsePresets(JSON.stringify({ version: 1, presets: [{ ...preset, state: { ...preset.state, categoriesLogic: 'and' } }] }));
+    expect(imported).toEqual(preset);
+  });
+
+  it('should read presets saved before tags were added as not filtering on tags', () => {
+    const untagged = { searchTerm: '', categories: ['Home Appliances'], priceRange: { min: null, max: 100 }, pageSize: 20 };
+    const [imported] = parsePresets(JSON.stringify({ version: 1, presets: [{ ...preset, state: untagged }] }));
+    expect(imported.state).toEqual({ ...untagged, tags: [], tagsLogic: 'or' });
+  });
+
+  it('should trim names and assign missing identifiers', () => {
+    const [imported] = parsePresets(JSON.stringify({ version: 1, presets: [{ name: '  Cheap  ', state: preset.state }] }));
+    expect(imported.name).toBe('Cheap');
+    expect(imported.id).toBeTruthy();
+  });
+
+  it('should reject documents that are not valid presets files', () => {
+    expect(() => parsePresets('{')).toThrowError(PresetImportError, 'The file is not valid JSON');
+    expect(() => parsePresets('[]')).toThrowError(PresetImportError, 'The file does not contain presets');
+    expect(() => parsePresets(JSON.stringify({ version: 2, presets: [] }))).toThrowError(PresetImportError);
+  });
+
+  it('should reject presets with an invalid state', () => {
+    const invalid = { ...preset, state: { ...preset.state, priceRange: { min: 'cheap', max: null } } };
+    expect(() => parsePresets(JSON.stringify({ version: 1, presets: [preset, invalid] })))
+      .toThrowError(PresetImportError, 'Preset 2 is invalid');
+
+    const invalidTags = { ...preset, state: { ...preset.state, tagsLogic: 'xor' } };
+    expect(() => parsePresets(JSON.stringify({ version: 1, presets: [invalidTags] })))
+      .toThrowError(PresetImportError, 'Preset 1 is invalid');
+  });
+});
@@ -0,0 +1,108 @@
+import { FilterPreset, PresetState } from '../interfaces/filter-preset';
+
+/**
+ * The version written in exported preset files, checked when importing them.
+ */
+export const PRESETS_FILE_VERSION = 1;
+
+/**
+ * Raised when a presets file cannot be imported.
+ */
+export class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetImportError';
+  }
+}
+
+/**
+ * Generates an identifier for a new preset.
+ */
+export const createPresetId = (): string =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+/**
+ * Extracts the part of a listing state saved in a preset, as a copy.
+ *
+ * @param state - The listing state, or another preset state.
+ * @returns The preset state.
+ */
+export function toPresetState(state: PresetState): PresetState {
+  return {
+    searchTerm: state.searchTerm,
+    categories: [...state.categories],
+    tags: [...state.tags],
+    tagsLogic: state.tagsLogic,
+    priceRange: { ...state.priceRange },
+    pageSize: state.pageSize
+  };
+}
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isBound = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isFinite(value));
+
+/**
+ * A preset state as stored; presets saved before tags were added have none.
+ */
+type StoredPresetState = Omit<PresetState, 'tags' | 'tagsLogic'> & Partial<Pick<PresetState, 'tags' | 'tagsLogic'>>;
+
+/**
+ * Checks the shape of a preset state read from an untrusted source.
+ */
+const isPresetState = (value: unknown): value is StoredPresetState =>
+  isObject(value)
+  && typeof value['searchTerm'] === 'string'
+  && isStringArray(value['categories'])
+  && (value['tags'] === undefined || isStringArray(value['tags']))
+  && (value['tagsLogic'] === undefined || value['tagsLogic'] === 'and' || value['tagsLogic'] === 'or')
+  && isObject(value['priceRange']) && isBound(value['priceRange']['min']) && isBound(value['priceRange']['max'])
+  && typeof value['pageSize'] === 'number' && Number.isInteger(value['pageSize']) && value['pageSize'] > 0;
+
+/**
+ * Serializes presets into the JSON document shared between teammates.
+ *
+ * @param presets - The presets to export.
+ * @returns The JSON document.
+ */
+export function exportPresets(presets: FilterPreset[]): string {
+  return JSON.stringify({ version: PRESETS_FILE_VERSION, presets }, null, 2);
+}
+
+/**
+ * Reads presets from a JSON document produced by `exportPresets`.
+ *
+ * @param json - The JSON document.
+ * @returns The presets, with their names trimmed.
+ * @throws {PresetImportError} When the document is not valid JSON or does not hold valid presets.
+ */
+export function parsePresets(json: string): FilterPreset[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new PresetImportError('The file is not valid JSON');
+  }
+  if (!isObject(document) || !Array.isArray(document['presets'])) {
+    throw new PresetImportError('The file does not contain presets');
+  }
+  if (document['version'] !== PRESETS_FILE_VERSION) {
+    throw new PresetImportError(`Unsupported presets file version: ${document['version']}`);
+  }
+
+  return document['presets'].map((preset: unknown, index: number) => {
+    if (!isObject(preset) || typeof preset['name'] !== 'string' || preset['name'].trim() === '' || !isPresetState(preset['state'])) {
+      throw new PresetImportError(`Preset ${index + 1} is invalid`);
+    }
+    return {
+      id: typeof preset['id'] === 'string' && preset['id'] !== '' ? preset['id'] : createPresetId(),
+      name: preset['name'].trim(),
+      state: toPresetState({ tags: [], tagsLogic: 'or', ...preset['state'] })
+    };
+  });
+}
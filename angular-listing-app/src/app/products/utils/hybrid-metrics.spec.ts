@@ -0,0 +1,30 @@
+import { isDeviceConstrained, LatencyTracker, shouldFallBackToServer } from './hybrid-metrics';
+
+describe('hybrid metrics', () => {
+  const limits = { minDeviceMemory: 2, maxHeapUsage: 0.7 };
+
+  it('should consider devices with little RAM or a nearly full heap constrained', () => {
+    expect(isDeviceConstrained({ deviceMemory: 1 }, limits)).toBeTrue();
+    expect(isDeviceConstrained({ deviceMemory: 8, usedHeapSize: 80, heapSizeLimit: 100 }, limits)).toBeTrue();
+    expect(isDeviceConstrained({ deviceMemory: 4, usedHeapSize: 20, heapSizeLimit: 100 }, limits)).toBeFalse();
+    expect(isDeviceConstrained({}, limits)).toBeFalse();
+  });
+
+  it('should average the last durations', () => {
+    const tracker = new LatencyTracker(3);
+    expect(tracker.average).toBeNull();
+
+    [10, 20, 30, 40].forEach(duration => tracker.record(duration));
+
+    expect(tracker.count).toBe(3);
+    expect(tracker.average).toBe(30);
+  });
+
+  it('should fall back to the server when filtering in memory is over budget and slower than the server', () => {
+    expect(shouldFallBackToServer(150, 80, 100)).toBeTrue();
+    expect(shouldFallBackToServer(150, null, 100)).toBeTrue();
+    expect(shouldFallBackToServer(150, 300, 100)).toBeFalse();
+    expect(shouldFallBackToServer(50, 20, 100)).toBeFalse();
+    expect(shouldFallBackToServer(null, 20, 100)).toBeFalse();
+  });
+});
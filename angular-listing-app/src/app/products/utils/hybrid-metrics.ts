@@ -0,0 +1,94 @@
+/**
+ * What is known of the resources of the device. Browsers only expose some of them.
+ */
+export interface DeviceMetrics {
+  /** The approximate RAM of the device, in gigabytes (`navigator.deviceMemory`). */
+  deviceMemory?: number;
+  /** The JavaScript heap in use, in bytes (`performance.memory`). */
+  usedHeapSize?: number;
+  /** The largest JavaScript heap available, in bytes (`performance.memory`). */
+  heapSizeLimit?: number;
+}
+
+/**
+ * The limits under which a device is considered too constrained to filter the catalog in memory.
+ */
+export interface DeviceLimits {
+  /** The least RAM, in gigabytes. */
+  minDeviceMemory: number;
+  /** The largest share of the heap in use, between 0 and 1. */
+  maxHeapUsage: number;
+}
+
+/**
+ * Reads the resources of the device from the non-standard browser APIs available.
+ *
+ * @returns The metrics, empty outside the browser.
+ */
+export function readDeviceMetrics(): DeviceMetrics {
+  const deviceMemory = typeof navigator !== 'undefined' ? (navigator as { deviceMemory?: number }).deviceMemory : undefined;
+  const memory = typeof performance !== 'undefined'
+    ? (performance as { memory?: { usedJSHeapSize: number; jsHeapSizeLimit: number } }).memory
+    : undefined;
+  return { deviceMemory, usedHeapSize: memory?.usedJSHeapSize, heapSizeLimit: memory?.jsHeapSizeLimit };
+}
+
+/**
+ * Checks whether a device lacks the memory to filter the catalog in memory.
+ * Unknown metrics do not count against the device.
+ *
+ * @param metrics - The resources of the device.
+ * @param limits - The limits.
+ * @returns `true` when the device has too little RAM or its heap is nearly full.
+ */
+export function isDeviceConstrained(metrics: DeviceMetrics, limits: DeviceLimits): boolean {
+  if (metrics.deviceMemory !== undefined && metrics.deviceMemory < limits.minDeviceMemory) {
+    return true;
+  }
+  return metrics.usedHeapSize !== undefined && !!metrics.heapSizeLimit
+    && metrics.usedHeapSize / metrics.heapSizeLimit > limits.maxHeapUsage;
+}
+
+/**
+ * Keeps the average of the last durations of an operation.
+ */
+export class LatencyTracker {
+  private samples: number[] = [];
+
+  /**
+   * @param windowSize - The number of durations averaged.
+   */
+  constructor(private windowSize = 10) { }
+
+  /** The number of durations averaged. */
+  get count(): number {
+    return this.samples.length;
+  }
+
+  /** The average duration, in milliseconds, or `null` before the first one. */
+  get average(): number | null {
+    return this.samples.length > 0 ? this.samples.reduce((sum, sample) => sum + sample, 0) / this.samples.length : null;
+  }
+
+  /**
+   * Records a duration, forgetting the oldest one when the window is full.
+   *
+   * @param duration - The duration, in milliseconds.
+   */
+  record(duration: number): void {
+    this.samples = [...this.samples, duration].slice(-this.windowSize);
+  }
+}
+
+/**
+ * Checks whether filtering in memory is too slow on this device: slower than the budget,
+ * and slower than asking the server when its latency is known.
+ *
+ * @param clientLatency - The average duration of in-memory filtering, in milliseconds.
+ * @param serverLatency - The average duration of server requests, in milliseconds, if measured.
+ * @param budget - The longest acceptable duration of in-memory filtering, in milliseconds.
+ * @returns `true` when the server should filter again.
+ */
+export function shouldFallBackToServer(clientLatency: number | null, serverLatency: number | null, budget: number): boolean {
+  return clientLatency !== null && clientLatency > budget && (serverLatency === null || clientLatency > serverLatency);
+}
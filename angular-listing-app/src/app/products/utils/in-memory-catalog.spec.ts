@@ -0,0 +1,41 @@
+import { Product } from '../../core/models/product.model';
+import { handleFilteringRequest, InMemoryCatalog } from './in-memory-catalog';
+import { decodeOffsetCursor } from './page-cursor';
+
+describe('InMemoryCatalog', () => {
+  const products: Product[] = [
+    { id: 1, name: 'Phone', category: 'Electronics', price: 500, description: '' },
+    { id: 2, name: 'Laptop', category: 'Electronics', price: 1200, description: '' },
+    { id: 3, name: 'Shirt', category: 'Fashion', price: 30, description: '' },
+    { id: 4, name: 'Headphones', category: 'Electronics', price: 80, description: '' }
+  ];
+  let catalog: InMemoryCatalog;
+
+  beforeEach(() => {
+    catalog = new InMemoryCatalog();
+    catalog.loadProducts(products);
+  });
+
+  it('should filter, sort and paginate the catalog with facet counts and cursors', () => {
+    const filters = { logic: 'and' as const, filters: [{ key: 'category' as const, value: { type: 'value' as const, value: 'Electronics', range: null, greater: null, smaller: null, multiselect: null } }] };
+
+    const response = catalog.applyFiltersAndSearch('', filters, 1, 2, [{ field: 'price', direction: 'asc' }], ['category']);
+
+    expect(response.products.map(p => p.id)).toEqual([4, 1]);
+    expect(response.totalItems).toBe(3);
+    expect(response.facets).toEqual({ category: { Electronics: 3, Fashion: 1 } });
+    expect(decodeOffsetCursor(response.nextCursor!)).toBe(2);
+    expect(catalog.paginate(2, 2).map(p => p.id)).toEqual([2]);
+  });
+
+  it('should answer protocol requests with the result or the error of the operation', () => {
+    expect(handleFilteringRequest(catalog, { id: 7, method: 'suggest', args: ['pho', 5] })).toEqual({
+      id: 7,
+      result: [{ type: 'product', label: 'Phone', query: 'Phone' }, { type: 'product', label: 'Headphones', query: 'Headphones' }]
+    });
+
+    const failing = handleFilteringRequest(catalog, { id: 8, method: 'applyFilters', args: [null as never] });
+    expect(failing.id).toBe(8);
+    expect(failing.error).toEqual(jasmine.any(String));
+  });
+});
@@ -0,0 +1,137 @@
+import { Product } from '../../core/models/product.model';
+import { FilterExpression } from '../../core/models/filter-expression.model';
+import { SortKey } from '../../core/models/sort.model';
+import { SearchOptions } from '../../core/models/search-options.model';
+import { Suggestion } from '../../core/models/suggestion.model';
+import { FilterResponse } from '../interfaces/filter-response';
+import { FilteringWorkerMethods, FilteringWorkerRequest, FilteringWorkerResponse } from '../interfaces/filtering-worker-message';
+import { buildExpressionPredicate } from './filter-expression';
+import { EXACT_SEARCH, matchesSearch } from './product-search';
+import { buildProductComparator } from './product-sort';
+import { CatalogIndex } from './catalog-index';
+import { MAX_CATEGORY_SUGGESTIONS, rankMatches, toSuggestions } from './suggestions';
+import { adjacentOffsetCursors, decodeOffsetCursor } from './page-cursor';
+
+/**
+ * Filters, searches, sorts and paginates a catalog held in memory. It runs in the filtering
+ * worker, or on the main thread where no worker is available (e.g. during server-side rendering).
+ * The catalog is indexed when it is loaded (see `CatalogIndex`), so that queries do not scan it.
+ */
+export class InMemoryCatalog implements FilteringWorkerMethods {
+  private products: Product[] = [];
+  private filteredProducts: Product[] = [];
+  private index = new CatalogIndex([]);
+
+  /**
+   * @param searchOptions - How the search term is matched.
+   */
+  constructor(private searchOptions: SearchOptions = EXACT_SEARCH) { }
+
+  /**
+   * Replaces the catalog and indexes it.
+   *
+   * @param products - The full catalog.
+   */
+  loadProducts(products: Product[]): void {
+    this.products = products;
+    this.filteredProducts = products;
+    this.index = new CatalogIndex(products);
+  }
+
+  /**
+   * Applies filtering, searching, sorting and pagination to the catalog, looking the matching
+   * products up in the index. Facet counts are computed over the full catalog.
+   * Cursors hold the offset of a page, since the in-memory list cannot shift under the user.
+   */
+  applyFiltersAndSearch(searchTerm: string, filters: FilterExpression, pageNumber: number, pageSize: number, sort: SortKey[] = [], facets: Array<keyof Product> = [], cursor: string | null = null): FilterResponse {
+    this.filteredProducts = this.index.select(searchTerm, filters, this.searchOptions);  // Apply filters and search term
+    this.sort(sort, searchTerm);            // Order the result
+    const filteredProductsCount = this.filteredProducts.length;
+    const offset = (cursor !== null ? decodeOffsetCursor(cursor) : null) ?? (pageNumber - 1) * pageSize;
+    const products = this.filteredProducts.slice(offset, offset + pageSize);  // Paginate
+    const facetCounts = facets.length > 0 ? this.index.facets(searchTerm, filters, facets, this.searchOptions) : undefined;
+    return { products, totalItems: filteredProductsCount, facets: facetCounts, ...adjacentOffsetCursors(offset, pageSize, filteredProductsCount) };
+  }
+
+  /**
+   * Returns every product matching a search and filters, in order, leaving the filtered products
+   * of the listing untouched.
+   */
+  exportProducts(searchTerm: string, filters: FilterExpression, sort: SortKey[]): Product[] {
+    return [...this.index.select(searchTerm, filters, this.searchOptions)].sort(buildProductComparator(sort, searchTerm, this.searchOptions));
+  }
+
+  /**
+   * Narrows the filtered products down to those matching the filter expression.
+   * Predicates are built generically from the filter type and the product attribute,
+   * so any `Product` key can be filtered on without dedicated code.
+   *
+   * @param filters - The filter expression to apply.
+   */
+  applyFilters(filters: FilterExpression): void {
+    const predicate = buildExpressionPredicate(filters);
+    if (predicate) {
+      this.filteredProducts = this.filteredProducts.filter(predicate);
+    }
+  }
+
+  /**
+   * Narrows the filtered products down to those matching the search term,
+   * exactly or tolerating typos depending on the search options.
+   *
+   * @param term - The search term.
+   */
+  search(term: string): void {
+    this.filteredProducts = this.filteredProducts.filter(p => matchesSearch(p, term, this.searchOptions));
+  }
+
+  /**
+   * Suggests the categories and product names of the catalog containing the search term.
+   *
+   * @param term - The search term typed so far.
+   * @param limit - The maximum number of suggestions.
+   */
+  suggest(term: string, limit: number): Suggestion[] {
+    const names = rankMatches(this.products.map(p => p.name), term, limit);
+    const categories = rankMatches(this.products.map(p => p.category), term, MAX_CATEGORY_SUGGESTIONS);
+    return toSuggestions({ names, categories }, limit);
+  }
+
+  /**
+   * Returns a page of the filtered products.
+   *
+   * @param page - The page number.
+   * @param pageSize - The number of products per page.
+   */
+  paginate(page: number, pageSize: number): Product[] {
+    const startIndex = (page - 1) * pageSize;
+    return this.filteredProducts.slice(startIndex, startIndex + pageSize);
+  }
+
+  /**
+   * Orders the filtered products by the given sort keys, then by `id` so that the
+   * order is total and stable across requests.
+   *
+   * @param sort - The sort keys, in priority order.
+   * @param searchTerm - The search term used to rank products by relevance.
+   */
+  private sort(sort: SortKey[], searchTerm: string): void {
+    this.filteredProducts = [...this.filteredProducts].sort(buildProductComparator(sort, searchTerm, this.searchOptions));
+  }
+}
+
+/**
+ * Runs a request of the filtering protocol against a catalog.
+ *
+ * @param catalog - The catalog.
+ * @param request - The request.
+ * @returns The response, holding the result or the message of the error thrown.
+ */
+export function handleFilteringRequest(catalog: InMemoryCatalog, request: FilteringWorkerRequest): FilteringWorkerResponse {
+  try {
+    const method = catalog[request.method] as (...args: unknown[]) => unknown;
+    return { id: request.id, result: method.apply(catalog, request.args) };
+  } catch (error) {
+    return { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,86 @@
+import { ParamMap, Params } from '@angular/router';
+import { ListingState } from '../interfaces/listing-state';
+
+/**
+ * The listing state used when the URL does not specify otherwise.
+ * Parameters equal to their default are left out of the URL.
+ */
+export const DEFAULT_LISTING_STATE: ListingState = {
+  searchTerm: '',
+  categories: [],
+  tags: [],
+  tagsLogic: 'or',
+  priceRange: { min: null, max: null },
+  sortId: 'relevance',
+  currentPage: 1,
+  pageSize: 10,
+  viewMode: 'paged'
+};
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const parsePositiveInteger = (value: string | null, fallback: number): number => {
+  const number = parseNumber(value);
+  return number !== null && Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+/**
+ * Converts the listing state into URL query parameters.
+ *
+ * @param state - The listing state.
+ * @returns The query parameters; parameters at their default value are `null`, which removes them from the URL.
+ */
+export function toQueryParams(state: ListingState): Params {
+  const defaults = DEFAULT_LISTING_STATE;
+  return {
+    q: state.searchTerm || null,
+    category: state.categories.length > 0 ? state.categories : null,
+    tag: state.tags.length > 0 ? state.tags : null,
+    tagMatch: state.tagsLogic !== defaults.tagsLogic ? 'all' : null,
+    minPrice: state.priceRange.min,
+    maxPrice: state.priceRange.max,
+    sort: state.sortId !== defaults.sortId ? state.sortId : null,
+    page: state.currentPage !== defaults.currentPage ? state.currentPage : null,
+    size: state.pageSize !== defaults.pageSize ? state.pageSize : null,
+    view: state.viewMode !== defaults.viewMode ? state.viewMode : null
+  };
+}
+
+/**
+ * Reads the listing state from URL query parameters. Missing or malformed parameters
+ * fall back to their default value.
+ *
+ * @param params - The URL query parameters.
+ * @returns The listing state.
+ */
+export function fromQueryParams(params: ParamMap): ListingState {
+  const defaults = DEFAULT_LISTING_STATE;
+  return {
+    searchTerm: params.get('q') ?? defaults.searchTerm,
+    categories: params.getAll('category'),
+    tags: params.getAll('tag'),
+    tagsLogic: params.get('tagMatch') === 'all' ? 'and' : defaults.tagsLogic,
+    priceRange: { min: parseNumber(params.get('minPrice')), max: parseNumber(params.get('maxPrice')) },
+    sortId: params.get('sort') ?? defaults.sortId,
+    currentPage: parsePositiveInteger(params.get('page'), defaults.currentPage),
+    pageSize: parsePositiveInteger(params.get('size'), defaults.pageSize),
+    viewMode: params.get('view') === 'infinite' ? 'infinite' : defaults.viewMode
+  };
+}
+
+/**
+ * Checks whether two listing states produce the same URL.
+ *
+ * @param a - The first listing state.
+ * @param b - The second listing state.
+ * @returns `true` when both states serialize to the same query parameters.
+ */
+export function isSameListingState(a: ListingState, b: ListingState): boolean {
+  return JSON.stringify(toQueryParams(a)) === JSON.stringify(toQueryParams(b));
+}
@@ -0,0 +1,26 @@
+import { adjacentOffsetCursors, decodeOffsetCursor, encodeOffsetCursor } from './page-cursor';
+
+describe('page cursors', () => {
+  it('should round-trip offsets through opaque cursors', () => {
+    expect(decodeOffsetCursor(encodeOffsetCursor(0))).toBe(0);
+    expect(decodeOffsetCursor(encodeOffsetCursor(40))).toBe(40);
+  });
+
+  it('should reject cursors that are not offset cursors', () => {
+    expect(decodeOffsetCursor('not a cursor')).toBeNull();
+    expect(decodeOffsetCursor(btoa('{"offset":-1}'))).toBeNull();
+    expect(decodeOffsetCursor(btoa('{"s":"price:1"}'))).toBeNull();
+  });
+
+  it('should point to the adjacent pages within the list', () => {
+    const first = adjacentOffsetCursors(0, 10, 25);
+    expect(decodeOffsetCursor(first.nextCursor!)).toBe(10);
+    expect(first.previousCursor).toBeNull();
+
+    const last = adjacentOffsetCursors(20, 10, 25);
+    expect(last.nextCursor).toBeNull();
+    expect(decodeOffsetCursor(last.previousCursor!)).toBe(10);
+
+    expect(decodeOffsetCursor(adjacentOffsetCursors(5, 10, 25).previousCursor!)).toBe(0);
+  });
+});
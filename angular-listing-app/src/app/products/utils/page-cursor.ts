@@ -0,0 +1,46 @@
+/**
+ * The position of a page in the client-side strategy: the index of its first product.
+ */
+interface OffsetCursor {
+  offset: number;
+}
+
+/**
+ * Encodes an offset into an opaque cursor, mirroring the cursors of the server-side strategy.
+ *
+ * @param offset - The index of the first product of the page.
+ * @returns The cursor.
+ */
+export function encodeOffsetCursor(offset: number): string {
+  return btoa(JSON.stringify({ offset } satisfies OffsetCursor));
+}
+
+/**
+ * Decodes a cursor created by `encodeOffsetCursor`.
+ *
+ * @param cursor - The cursor.
+ * @returns The offset, or `null` when the cursor is not a valid offset cursor.
+ */
+export function decodeOffsetCursor(cursor: string): number | null {
+  try {
+    const { offset } = JSON.parse(atob(cursor)) as Partial<OffsetCursor>;
+    return Number.isInteger(offset) && offset! >= 0 ? offset! : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Computes the cursors of the pages around a page of a list.
+ *
+ * @param offset - The index of the first product of the page.
+ * @param pageSize - The number of products per page.
+ * @param totalItems - The number of products in the list.
+ * @returns The cursors of the next and previous pages, `null` when there is none.
+ */
+export function adjacentOffsetCursors(offset: number, pageSize: number, totalItems: number): { nextCursor: string | null; previousCursor: string | null } {
+  return {
+    nextCursor: offset + pageSize < totalItems ? encodeOffsetCursor(offset + pageSize) : null,
+    previousCursor: offset > 0 ? encodeOffsetCursor(Math.max(0, offset - pageSize)) : null
+  };
+}
@@ -0,0 +1,32 @@
+import { FilterRequestPayload } from '../interfaces/filter-payload';
+import { payloadCacheKey } from './payload-cache-key';
+
+describe('payloadCacheKey', () => {
+  const payload: FilterRequestPayload = {
+    searchTerm: 'phone',
+    currentPage: 2,
+    pageSize: 10,
+    filters: { logic: 'and', filters: [{ key: 'category', values: ['Electronics'], type: 'multiselect', logic: 'or' }] },
+    sort: [{ field: 'price', direction: 'asc' }]
+  };
+
+  it('should ignore the order of properties, the cursor and the facets', () => {
+    const reordered: FilterRequestPayload = {
+      sort: [{ direction: 'asc', field: 'price' }],
+      filters: { filters: [{ logic: 'or', type: 'multiselect', values: ['Electronics'], key: 'category' }], logic: 'and' },
+      pageSize: 10,
+      currentPage: 2,
+      searchTerm: 'phone',
+      facets: ['category'],
+      cursor: 'eyJkIjoibmV4dCJ9'
+    };
+    expect(payloadCacheKey(reordered)).toBe(payloadCacheKey(payload));
+    expect(payloadCacheKey({ ...payload, sort: undefined })).toBe(payloadCacheKey({ ...payload, sort: [] }));
+  });
+
+  it('should tell apart different pages and queries', () => {
+    expect(payloadCacheKey({ ...payload, currentPage: 3 })).not.toBe(payloadCacheKey(payload));
+    expect(payloadCacheKey({ ...payload, searchTerm: 'phones' })).not.toBe(payloadCacheKey(payload));
+    expect(payloadCacheKey({ ...payload, filters: { logic: 'or', filters: payload.filters.filters } })).not.toBe(payloadCacheKey(payload));
+  });
+});
@@ -0,0 +1,36 @@
+import { FilterRequestPayload } from '../interfaces/filter-payload';
+
+/**
+ * Serializes a value to JSON with the object keys in alphabetical order, so that equal
+ * values always give the same text.
+ *
+ * @param value - The value to serialize.
+ * @returns The JSON text.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, member]) => member !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, member]) => `${JSON.stringify(key)}:${stableStringify(member)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Computes the key under which the response to a `/products/filter` request is cached.
+ * Requests for the same page of the same query share a key, whatever the order of the payload
+ * properties. The cursor and the facets are left out: a page requested with a cursor is the same
+ * page as when requested by number, and facets are checked separately since a response with
+ * facets also answers a request without them.
+ *
+ * @param payload - The request payload.
+ * @returns The cache key.
+ */
+export function payloadCacheKey(payload: FilterRequestPayload): string {
+  const { cursor, facets, ...page } = payload;
+  return stableStringify({ ...page, sort: page.sort ?? [] });
+}
@@ -0,0 +1,50 @@
+import { Product } from '../../core/models/product.model';
+import { createExportWriter, exportFileName } from './product-export';
+
+describe('product-export', () => {
+  const products: Product[] = [
+    { id: 1, name: 'Lamp, "desk"', category: 'Home', price: 12.5, description: 'Bright\nand small' },
+    { id: 2, name: '=HYPERLINK("x")', category: 'Home', price: 0, description: '', imgUrl: 'lamp.jpg' }
+  ];
+
+  it('should write CSV rows with escaped cells, guarding against formulas', async () => {
+    const writer = createExportWriter('csv', ['name', 'price', 'description']);
+    writer.write(products.slice(0, 1));
+    writer.write(products.slice(1));
+
+    const file = writer.finish();
+    const csv = await file.text();
+
+    // The byte order mark, dropped when the file is decoded
+    expect([...new Uint8Array(await file.arrayBuffer()).slice(0, 3)]).toEqual([0xEF, 0xBB, 0xBF]);
+    expect(csv).toBe('Name,Price,Description\r\n"Lamp, ""desk""",12.5,"Bright\nand small"\r\n"\'=HYPERLINK(""x"")",0,\r\n');
+  });
+
+  it('should write a JSON array of the selected attributes', async () => {
+    const writer = createExportWriter('json', ['id', 'imgUrl']);
+    writer.write(products);
+
+    expect(JSON.parse(await writer.finish().text())).toEqual([{ id: 1, imgUrl: null }, { id: 2, imgUrl: 'lamp.jpg' }]);
+  });
+
+  it('should write an empty JSON array when nothing matches', async () => {
+    expect(JSON.parse(await createExportWriter('json', ['id']).finish().text())).toEqual([]);
+  });
+
+  it('should write an XLSX workbook whose sheet holds a row per product', async () => {
+    const writer = createExportWriter('xlsx', ['name', 'price']);
+    writer.write(products);
+
+    const file = writer.finish();
+    const content = new TextDecoder().decode(await file.arrayBuffer());
+
+    expect(file.type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(content.startsWith('PK')).toBeTrue();
+    expect(content).toContain('[Content_Types].xml');
+    expect(content).toContain('<row><c t="inlineStr"><is><t xml:space="preserve">Lamp, &quot;desk&quot;</t></is></c><c><v>12.5</v></c></row>');
+  });
+
+  it('should name the file after the day of the export', () => {
+    expect(exportFileName('xlsx', new Date(2024, 4, 1))).toBe('products-2024-05-01.xlsx');
+  });
+});
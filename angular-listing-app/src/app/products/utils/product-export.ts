@@ -0,0 +1,177 @@
+import { Product } from '../../core/models/product.model';
+import { ExportColumn, ExportFormat } from '../interfaces/product-export';
+import { ZipEntry, buildZip, crc32, textEntry } from './zip';
+
+/**
+ * The columns that can be exported, in the order they are written.
+ */
+export const EXPORT_COLUMNS: ExportColumn[] = ['id', 'name', 'category', 'tags', 'price', 'description', 'imgUrl'];
+
+/**
+ * The header of each column in CSV and XLSX files.
+ */
+export const EXPORT_COLUMN_LABELS: Record<ExportColumn, string> = {
+  id: 'Id',
+  name: 'Name',
+  category: 'Category',
+  tags: 'Tags',
+  price: 'Price',
+  description: 'Description',
+  imgUrl: 'Image URL'
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+/**
+ * Writes exported products into a file, chunk by chunk, so that large exports are built while they are fetched.
+ */
+export interface ExportWriter {
+  /**
+   * Adds products to the file.
+   */
+  write(products: Product[]): void;
+
+  /**
+   * Completes the file.
+   */
+  finish(): Blob;
+}
+
+/**
+ * Quotes a CSV cell when it holds a comma, a quote or a line break. Text starting like a formula is
+ * prefixed with a quote, so that spreadsheets do not evaluate it.
+ */
+function toCsvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escapes text for XML, dropping the control characters XML cannot hold.
+ */
+const escapeXml = (text: string): string => text
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+function toXlsxCell(value: unknown): string {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c><v>${value}</v></c>`;
+  }
+  if (value === undefined || value === null || value === '') {
+    return '<c/>';
+  }
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function createCsvWriter(columns: ExportColumn[]): ExportWriter {
+  // The byte order mark tells spreadsheets the file is in UTF-8
+  const parts: string[] = ['\uFEFF' + columns.map(column => toCsvCell(EXPORT_COLUMN_LABELS[column])).join(',') + '\r\n'];
+  return {
+    write: products => parts.push(products.map(product => columns.map(column => toCsvCell(product[column])).join(',') + '\r\n').join('')),
+    finish: () => new Blob(parts, { type: MIME_TYPES.csv })
+  };
+}
+
+function createJsonWriter(columns: ExportColumn[]): ExportWriter {
+  const parts: string[] = ['['];
+  let count = 0;
+  return {
+    write: products => parts.push(products.map(product => {
+      const values = Object.fromEntries(columns.map(column => [column, product[column] ?? null]));
+      return (count++ > 0 ? ',\n  ' : '\n  ') + JSON.stringify(values);
+    }).join('')),
+    finish: () => new Blob([...parts, count > 0 ? '\n]\n' : ']\n'], { type: MIME_TYPES.json })
+  };
+}
+
+/**
+ * Writes a workbook with a single sheet, whose cells hold their text inline, so that no shared string
+ * table has to be kept while writing.
+ */
+function createXlsxWriter(columns: ExportColumn[]): ExportWriter {
+  const encoder = new TextEncoder();
+  const sheet: ZipEntry = { name: 'xl/worksheets/sheet1.xml', parts: [], crc: 0, size: 0 };
+  const append = (xml: string) => {
+    const data = encoder.encode(xml);
+    sheet.parts.push(data);
+    sheet.crc = crc32(data, sheet.crc);
+    sheet.size += data.length;
+  };
+  const toRow = (values: unknown[]) => `<row>${values.map(toXlsxCell).join('')}</row>`;
+
+  append('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>'
+    + toRow(columns.map(column => EXPORT_COLUMN_LABELS[column])));
+  return {
+    write: products => append(products.map(product => toRow(columns.map(column => product[column]))).join('')),
+    finish: () => {
+      append('</sheetData></worksheet>');
+      const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+      const relationships = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+      const archive = buildZip([
+        textEntry('[Content_Types].xml', xml
+          + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+          + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+          + '<Default Extension="xml" ContentType="application/xml"/>'
+          + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+          + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+          + '</Types>'),
+        textEntry('_rels/.rels', xml
+          + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+          + `<Relationship Id="rId1" Type="${relationships}/officeDocument" Target="xl/workbook.xml"/>`
+          + '</Relationships>'),
+        textEntry('xl/workbook.xml', xml
+          + `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${relationships}">`
+          + '<sheets><sheet name="Products" sheetId="1" r:id="rId1"/></sheets></workbook>'),
+        textEntry('xl/_rels/workbook.xml.rels', xml
+          + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+          + `<Relationship Id="rId1" Type="${relationships}/worksheet" Target="worksheets/sheet1.xml"/>`
+          + '</Relationships>'),
+        sheet
+      ]);
+      return new Blob(archive, { type: MIME_TYPES.xlsx });
+    }
+  };
+}
+
+/**
+ * Creates the writer of an export file.
+ *
+ * @param format - The format of the file.
+ * @param columns - The exported attributes, in order.
+ * @returns The writer.
+ */
+export function createExportWriter(format: ExportFormat, columns: ExportColumn[]): ExportWriter {
+  switch (format) {
+    case 'csv':
+      return createCsvWriter(columns);
+    case 'json':
+      return createJsonWriter(columns);
+    case 'xlsx':
+      return createXlsxWriter(columns);
+  }
+}
+
+/**
+ * Names an export file after the day it was made, e.g. `products-2024-05-01.csv`.
+ *
+ * @param format - The format of the file.
+ * @param date - The day of the export.
+ */
+export function exportFileName(format: ExportFormat, date = new Date()): string {
+  const day = [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+  return `products-${day}.${format}`;
+}
@@ -0,0 +1,89 @@
+import { Product } from '../../core/models/product.model';
+import { guessColumnMapping, parseCsv, ProductImportError, readImportFile, toImportRows } from './product-import';
+
+describe('product-import', () => {
+  const catalog: Product[] = [
+    { id: 1, name: 'Phone', category: 'Electronics', price: 499, description: '' },
+    { id: 2, name: 'Kettle', category: 'Home Appliances', price: 39, description: '' }
+  ];
+
+  it('should split CSV rows, with quoted delimiters, quotes and line breaks', () => {
+    const csv = '\uFEFFname;price;description\r\n"Lamp; desk";12;"A ""bright""\nlamp"\r\n\r\nChair;45;\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['name', 'price', 'description'],
+      ['Lamp; desk', '12', 'A "bright"\nlamp'],
+      ['Chair', '45', '']
+    ]);
+  });
+
+  it('should reject a quoted value that is never closed', () => {
+    expect(() => parseCsv('name,price\n"Lamp,12')).toThrowError(ProductImportError);
+  });
+
+  it('should read the rows of CSV and JSON files', () => {
+    expect(readImportFile('products.csv', 'Name,Price\nLamp,12\n')).toEqual({ columns: ['Name', 'Price'], rows: [{ Name: 'Lamp', Price: '12' }] });
+    expect(readImportFile('export.txt', '{ "products": [{ "name": "Lamp" }, { "name": "Chair", "price": 45 }] }')).toEqual({
+      columns: ['name', 'price'],
+      rows: [{ name: 'Lamp' }, { name: 'Chair', price: 45 }]
+    });
+  });
+
+  it('should reject files holding no products', () => {
+    expect(() => readImportFile('products.json', '{ "name": "Lamp" }')).toThrowError('The file does not hold a list of products');
+    expect(() => readImportFile('products.json', '[{ "name": ')).toThrowError('The file is not valid JSON');
+    expect(() => readImportFile('products.csv', 'name,price\n')).toThrowError('The file holds no products');
+  });
+
+  it('should map the columns named after product attributes', () => {
+    expect(guessColumnMapping(['SKU', 'Title', 'Unit Price', 'Image URL', 'Notes'])).toEqual({ name: 'Title', price: 'Unit Price', imgUrl: 'Image URL' });
+  });
+
+  it('should validate the rows and tell which ones create or update a product', () => {
+    const table = readImportFile('products.csv', [
+      'title,cost,type,id',
+      'Lamp,"$1,299.50",Home,',
+      ' phone ,450,Electronics,',
+      'Chair,-4,Home,',
+      'Sofa,cheap,Home,',
+      ',10,Home,',
+      'Desk,80,Home,99',
+      'Kettle (2L),35,Home Appliances,2'
+    ].join('\n'));
+
+    const rows = toImportRows(table, { name: 'title', price: 'cost', category: 'type', id: 'id' }, catalog);
+
+    expect(rows.map(row => row.action)).toEqual(['create', 'update', 'skip', 'skip', 'skip', 'skip', 'update']);
+    expect(rows[0].product).toEqual({ name: 'Lamp', category: 'Home', price: 1299.5, description: '' });
+    expect(rows[2].errors).toEqual(['The price cannot be negative.']);
+    expect(rows[3].errors).toEqual(['The price must be a number.']);
+    expect(rows[4].errors).toEqual(['The name is required.']);
+    expect(rows[5].errors).toEqual(['No product has this id.']);
+    expect(rows[6].product.id).toBe('2');
+  });
+
+  it('should skip the rows writing a product already written by an earlier row', () => {
+    const table = readImportFile('products.json', JSON.stringify([
+      { name: 'Lamp', price: 12 },
+      { name: 'LAMP', price: 14 },
+      { name: 'Phone', price: 450 },
+      { id: 1, name: 'Smartphone', price: 470 }
+    ]));
+
+    const rows = toImportRows(table, guessColumnMapping(table.columns), catalog);
+
+    expect(rows.map(row => row.errors)).toEqual([[], ['Duplicate of row 1.'], [], ['Duplicate of row 3.']]);
+  });
+
+  it('should skip the rows without id matching a name given by an earlier row, or held by several products', () => {
+    const table = readImportFile('products.json', JSON.stringify([
+      { id: 2, name: 'Lamp', price: 35 },
+      { name: 'lamp', price: 12 },
+      { name: 'Phone', price: 450 }
+    ]));
+
+    const rows = toImportRows(table, guessColumnMapping(table.columns), [...catalog, { ...catalog[0], id: 3 }]);
+
+    expect(rows.map(row => row.errors)).toEqual([[], ['Duplicate of row 1.'], ['2 products have this name: give the id of the one to update.']]);
+  });
+});
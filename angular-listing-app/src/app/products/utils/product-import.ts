@@ -0,0 +1,255 @@
+import { Product } from '../../core/models/product.model';
+import { ProductUpsert } from '../../core/models/product-draft.model';
+import { ColumnMapping, ImportField, ImportRow, ImportTable } from '../interfaces/product-import';
+import { validateProduct } from './product-validation';
+
+/**
+ * The attributes an imported file can set, in the order the mapping offers them.
+ */
+export const IMPORT_FIELDS: ImportField[] = ['id', 'name', 'category', 'price', 'description', 'imgUrl'];
+
+/**
+ * Raised when an imported file cannot be read.
+ */
+export class ProductImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProductImportError';
+  }
+}
+
+/**
+ * The column names recognized for each attribute, lower-cased and without separators.
+ */
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  id: ['id', '_id', 'productid'],
+  name: ['name', 'productname', 'title'],
+  category: ['category', 'categoryname', 'department'],
+  price: ['price', 'unitprice', 'cost', 'amount'],
+  description: ['description', 'desc', 'details'],
+  imgUrl: ['imgurl', 'image', 'imageurl', 'img', 'picture', 'photo']
+};
+
+const DELIMITERS = [',', ';', '\t'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeColumn = (column: string): string => column.toLowerCase().replace(/[^a-z0-9_]/g, '');
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Picks the delimiter of a CSV document: the one appearing most often in its first line, outside quotes.
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = DELIMITERS.map(delimiter => firstLine.split(delimiter).length);
+  return DELIMITERS[counts.indexOf(Math.max(...counts))];
+}
+
+/**
+ * Splits a CSV document into rows of cells. Cells may be quoted to hold delimiters, line breaks or
+ * doubled quotes; the delimiter is a comma, a semicolon or a tab, whichever the first line uses. Empty lines
+ * are skipped.
+ *
+ * @param text - The CSV document.
+ * @returns The rows, each a list of cells.
+ * @throws {ProductImportError} When a quoted cell is not closed.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new ProductImportError('The file ends inside a quoted value');
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Reads the products of a JSON document: an array of objects, or an object holding one in `products`.
+ */
+function readJson(text: string): ImportTable {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new ProductImportError('The file is not valid JSON');
+  }
+  const rows = Array.isArray(document) ? document : isObject(document) ? document['products'] : null;
+  if (!Array.isArray(rows) || !rows.every(isObject)) {
+    throw new ProductImportError('The file does not hold a list of products');
+  }
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return { columns, rows };
+}
+
+/**
+ * Reads the products of a CSV document whose first row names the columns.
+ */
+function readCsv(text: string): ImportTable {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return { columns: [], rows: [] };
+  }
+  const seen = new Set<string>();
+  const columns = header.map((name, index) => {
+    const column = name.trim() === '' || seen.has(name.trim()) ? `Column ${index + 1}` : name.trim();
+    seen.add(column);
+    return column;
+  });
+  const rows = lines.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])));
+  return { columns, rows };
+}
+
+/**
+ * Reads an imported file, as JSON when its name or content says so, as CSV otherwise.
+ *
+ * @param fileName - The name of the file.
+ * @param text - The content of the file.
+ * @returns The columns and rows of the file.
+ * @throws {ProductImportError} When the file cannot be read or holds no product.
+ */
+export function readImportFile(fileName: string, text: string): ImportTable {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const table = isJson ? readJson(text) : readCsv(text);
+  if (table.rows.length === 0) {
+    throw new ProductImportError('The file holds no products');
+  }
+  return table;
+}
+
+/**
+ * Maps the columns of a file onto the product attributes they are named after, e.g. `Title` onto the name
+ * or `Image URL` onto the image.
+ *
+ * @param columns - The columns of the file.
+ * @returns The column found for each attribute.
+ */
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const column = columns.find(candidate => COLUMN_ALIASES[field].includes(normalizeColumn(candidate)));
+    if (column !== undefined) {
+      mapping[field] = column;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Reads a price written as a number or as text, e.g. `"$1,299.90"`. Text that is not a number is kept,
+ * so that the validation reports it.
+ */
+function toPrice(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value ?? null;
+  }
+  const text = value.trim();
+  if (text === '') {
+    return null;
+  }
+  const digits = text.replace(/^[^\d.-]+|[^\d.]+$/g, '').replace(/,(?=\d{3}(\D|$))/g, '');
+  const price = Number(digits);
+  return digits === '' || Number.isNaN(price) ? text : price;
+}
+
+const toText = (value: unknown): string => isBlank(value) ? '' : String(value).trim();
+
+/**
+ * Turns the rows of an imported file into the products to write, with the reasons why a row is skipped:
+ * invalid attributes (see `validateProduct`), an id no product has, a name several products have, or a
+ * product already written by an earlier row. A row updates the product with its id or, without id, with its
+ * name ignoring case, so a row without id is also a duplicate of an earlier row giving a product its name.
+ * The whole file is checked, as its rows are then sent in separate batches.
+ *
+ * @param table - The content of the file.
+ * @param mapping - The column read for each attribute.
+ * @param catalog - The products of the catalog, to find those a row updates.
+ * @returns A row for each row of the file, in the same order.
+ */
+export function toImportRows(table: ImportTable, mapping: ColumnMapping, catalog: Product[]): ImportRow[] {
+  const byId = new Map(catalog.map(product => [String(product.id), product]));
+  const byName = new Map<string, Product[]>();
+  catalog.forEach(product => {
+    const name = product.name.trim().toLowerCase();
+    byName.set(name, [...(byName.get(name) ?? []), product]);
+  });
+  const firstRows = new Map<string, number>();
+  const read = (values: Record<string, unknown>, field: ImportField): unknown =>
+    mapping[field] === undefined ? undefined : values[mapping[field]!];
+
+  return table.rows.map((values, index) => {
+    const row = index + 1;
+    const id = toText(read(values, 'id'));
+    const price = toPrice(read(values, 'price'));
+    const imgUrl = toText(read(values, 'imgUrl'));
+    const product = {
+      ...(id ? { id } : {}),
+      name: toText(read(values, 'name')),
+      category: toText(read(values, 'category')),
+      price,
+      description: toText(read(values, 'description')),
+      ...(imgUrl ? { imgUrl } : {})
+    } as ProductUpsert;
+
+    const errors = Object.values(validateProduct({ name: product.name, price })) as string[];
+    const name = `name:${product.name.toLowerCase()}`;
+    const namesakes = id ? [] : byName.get(product.name.toLowerCase()) ?? [];
+    const existing = id ? byId.get(id) : namesakes.length === 1 ? namesakes[0] : undefined;
+    if (id && !existing) {
+      errors.push('No product has this id.');
+    }
+    if (namesakes.length > 1) {
+      errors.push(`${namesakes.length} products have this name: give the id of the one to update.`);
+    }
+    const key = existing ? `id:${existing.id}` : name;
+    if (errors.length === 0) {
+      const firstRow = firstRows.get(key) ?? (id ? undefined : firstRows.get(name));
+      if (firstRow !== undefined) {
+        errors.push(`Duplicate of row ${firstRow}.`);
+      } else {
+        firstRows.set(key, row);
+        if (!firstRows.has(name)) {
+          firstRows.set(name, row);
+        }
+      }
+    }
+    return { row, product, errors, action: errors.length > 0 ? 'skip' : existing ? 'update' : 'create' };
+  });
+}
@@ -0,0 +1,74 @@
+import { Product } from '../../core/models/product.model';
+import { SearchOptions } from '../../core/models/search-options.model';
+import { tokenize, tokenMatches } from './text-search';
+
+/**
+ * The product attributes searched by the search term, with the weight each one
+ * contributes to the relevance score when it matches.
+ */
+export const SEARCH_FIELD_WEIGHTS: ReadonlyArray<[keyof Product, number]> = [
+  ['name', 3],
+  ['category', 2],
+  ['description', 1]
+];
+
+/**
+ * The search options used when none are given: the whole term as a substring.
+ */
+export const EXACT_SEARCH: SearchOptions = { mode: 'exact', threshold: 0 };
+
+/**
+ * Returns a predicate telling whether a searched attribute matches the term.
+ * In exact mode the attribute must contain the term, ignoring case. In fuzzy mode
+ * every word of the term must match a word of the attribute, see `tokenMatches`.
+ */
+const fieldMatcher = (term: string, options: SearchOptions): (value: unknown) => boolean => {
+  if (options.mode === 'fuzzy') {
+    const queryTokens = tokenize(term);
+    return value => {
+      const fieldTokens = tokenize(String(value ?? ''));
+      return queryTokens.some(queryToken => fieldTokens.some(fieldToken => tokenMatches(queryToken, fieldToken, options.threshold)));
+    };
+  }
+  const lowerTerm = term.toLowerCase();
+  return value => String(value ?? '').toLowerCase().includes(lowerTerm);
+};
+
+/**
+ * Checks whether a product matches a search term. In exact mode any searched attribute
+ * must contain the term, ignoring case. In fuzzy mode every word of the term must match
+ * a word of some searched attribute, tolerating typos and accents. An empty term matches every product.
+ *
+ * @param product - The product to check.
+ * @param term - The search term.
+ * @param options - How the term is matched.
+ * @returns `true` when the product matches.
+ */
+export function matchesSearch(product: Product, term: string, options: SearchOptions = EXACT_SEARCH): boolean {
+  if (options.mode === 'fuzzy') {
+    const fieldTokens = SEARCH_FIELD_WEIGHTS.flatMap(([field]) => tokenize(String(product[field] ?? '')));
+    return tokenize(term).every(queryToken => fieldTokens.some(fieldToken => tokenMatches(queryToken, fieldToken, options.threshold)));
+  }
+  const matches = fieldMatcher(term, options);
+  return SEARCH_FIELD_WEIGHTS.some(([field]) => matches(product[field]));
+}
+
+/**
+ * Scores how well a product matches a search term, by summing the weights of the
+ * searched attributes matching the term. In fuzzy mode an attribute matches when any
+ * word of the term matches one of its words. The backend computes the same score.
+ *
+ * @param product - The product to score.
+ * @param term - The search term.
+ * @param options - How the term is matched.
+ * @returns The relevance score, `0` when the term is empty or does not match.
+ */
+export function relevanceScore(product: Product, term: string, options: SearchOptions = EXACT_SEARCH): number {
+  if (!term) {
+    return 0;
+  }
+  const matches = fieldMatcher(term, options);
+  return SEARCH_FIELD_WEIGHTS
+    .filter(([field]) => matches(product[field]))
+    .reduce((score, [_, weight]) => score + weight, 0);
+}
@@ -0,0 +1,86 @@
+import { Product } from '../../core/models/product.model';
+import { SortKey, SortOption } from '../../core/models/sort.model';
+import { SearchOptions } from '../../core/models/search-options.model';
+import { EXACT_SEARCH, relevanceScore } from './product-search';
+
+/**
+ * The sorts offered in the product list. The first option is the default.
+ */
+export const SORT_OPTIONS: SortOption[] = [
+  { id: 'relevance', label: 'Relevance', keys: [{ field: 'relevance', direction: 'desc' }] },
+  { id: 'price-asc', label: 'Price: low to high', keys: [{ field: 'price', direction: 'asc' }] },
+  { id: 'price-desc', label: 'Price: high to low', keys: [{ field: 'price', direction: 'desc' }] },
+  { id: 'name-asc', label: 'Name: A to Z', keys: [{ field: 'name', direction: 'asc' }] },
+  { id: 'name-desc', label: 'Name: Z to A', keys: [{ field: 'name', direction: 'desc' }] },
+  { id: 'category-price', label: 'Category, then price', keys: [{ field: 'category', direction: 'asc' }, { field: 'price', direction: 'asc' }] }
+];
+
+/**
+ * The key appended to every sort so that products comparing equal on all the
+ * requested keys keep a deterministic order, and page boundaries never shift.
+ */
+const TIE_BREAKER: SortKey = { field: 'id', direction: 'asc' };
+
+/**
+ * Appends the tie-breaker to a sort, unless the sort already ends with it.
+ *
+ * @param sort - The requested sort keys.
+ * @returns The sort keys, ending with the tie-breaker.
+ */
+export function withTieBreaker(sort: SortKey[]): SortKey[] {
+  return sort.some(key => key.field === TIE_BREAKER.field) ? sort : [...sort, TIE_BREAKER];
+}
+
+/**
+ * Compares two attribute values: strings case-insensitively by code unit,
+ * everything else numerically. Missing values sort first, as in MongoDB.
+ */
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null || a === undefined) {
+    return -1;
+  }
+  if (b === null || b === undefined) {
+    return 1;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    const lowerA = a.toLowerCase();
+    const lowerB = b.toLowerCase();
+    return lowerA < lowerB ? -1 : lowerA > lowerB ? 1 : 0;
+  }
+  return Number(a) - Number(b);
+};
+
+/**
+ * Builds a comparator ordering products by the given sort keys, then by the tie-breaker.
+ * The backend applies the same ordering, so both strategies paginate identically.
+ *
+ * @param sort - The sort keys, in priority order.
+ * @param searchTerm - The search term used to compute the relevance score.
+ * @param searchOptions - How the search term is matched when scoring relevance.
+ * @returns A comparator for `Array.prototype.sort`.
+ */
+export function buildProductComparator(sort: SortKey[], searchTerm: string, searchOptions: SearchOptions = EXACT_SEARCH): (a: Product, b: Product) => number {
+  const keys = withTieBreaker(sort);
+  const scores = new Map<Product, number>();
+  const score = (product: Product) => {
+    if (!scores.has(product)) {
+      scores.set(product, relevanceScore(product, searchTerm, searchOptions));
+    }
+    return scores.get(product)!;
+  };
+
+  return (a, b) => {
+    for (const { field, direction } of keys) {
+      const result = field === 'relevance'
+        ? score(a) - score(b)
+        : compareValues(a[field], b[field]);
+      if (result !== 0) {
+        return direction === 'asc' ? result : -result;
+      }
+    }
+    return 0;
+  };
+}
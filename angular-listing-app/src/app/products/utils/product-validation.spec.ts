@@ -0,0 +1,25 @@
+import { hasProductErrors, validateProduct } from './product-validation';
+
+describe('validateProduct', () => {
+  it('should accept a named product with a non-negative price', () => {
+    expect(validateProduct({ name: 'Phone', price: 0 })).toEqual({});
+    expect(hasProductErrors(validateProduct({ name: 'Phone', price: 499.99 }))).toBeFalse();
+  });
+
+  it('should require a name that is not blank', () => {
+    expect(validateProduct({ name: '  ', price: 10 }).name).toBe('The name is required.');
+    expect(validateProduct({ price: 10 }).name).toBe('The name is required.');
+  });
+
+  it('should require a non-negative numeric price', () => {
+    expect(validateProduct({ name: 'Phone', price: null }).price).toBe('The price is required.');
+    expect(validateProduct({ name: 'Phone', price: '12' }).price).toBe('The price must be a number.');
+    expect(validateProduct({ name: 'Phone', price: NaN }).price).toBe('The price must be a number.');
+    expect(validateProduct({ name: 'Phone', price: -1 }).price).toBe('The price cannot be negative.');
+  });
+
+  it('should only validate the attributes present in a partial update', () => {
+    expect(validateProduct({ price: 5 }, true)).toEqual({});
+    expect(validateProduct({ name: '' }, true)).toEqual({ name: 'The name is required.' });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * The reasons why the attributes of a product are rejected, by attribute.
+ */
+export interface ProductErrors {
+  name?: string;
+  price?: string;
+}
+
+/**
+ * Validates the attributes of a product like the API does: the name is required and may not be blank,
+ * and the price is a required, non-negative number.
+ *
+ * @param values - The attributes to validate, e.g. a request payload or the values of a form.
+ * @param partial - Whether only the attributes present are validated, e.g. for an update.
+ * @returns The errors, empty when the attributes are valid.
+ */
+export function validateProduct(values: { name?: unknown; price?: unknown }, partial = false): ProductErrors {
+  const errors: ProductErrors = {};
+  if (!partial || 'name' in values) {
+    if (typeof values.name !== 'string' || values.name.trim() === '') {
+      errors.name = 'The name is required.';
+    }
+  }
+  if (!partial || 'price' in values) {
+    const price = values.price;
+    if (price === null || price === undefined || price === '') {
+      errors.price = 'The price is required.';
+    } else if (typeof price !== 'number' || !Number.isFinite(price)) {
+      errors.price = 'The price must be a number.';
+    } else if (price < 0) {
+      errors.price = 'The price cannot be negative.';
+    }
+  }
+  return errors;
+}
+
+/**
+ * Checks whether a validation found any error.
+ *
+ * @param errors - The errors found by `validateProduct`.
+ * @returns `true` when at least one attribute is rejected.
+ */
+export function hasProductErrors(errors: ProductErrors): boolean {
+  return Object.keys(errors).length > 0;
+}
@@ -0,0 +1,67 @@
+import { Product } from '../../core/models/product.model';
+import { buildExpressionPredicate } from './filter-expression';
+import { parseSearchQuery } from './search-query-parser';
+
+describe('search-query-parser', () => {
+  const products: Product[] = [
+    { id: 1, name: 'Running Shoes', category: 'Fashion', price: 89, description: 'Lightweight running shoes' },
+    { id: 2, name: 'Sneakers', category: 'Fashion', price: 59, description: 'Casual running shoes' },
+    { id: 3, name: 'Trail Shoes', category: 'Sports', price: 129, description: 'Running shoes for trails' },
+    { id: 4, name: 'Phone', category: 'Electronics', price: 699, description: 'Smartphone' }
+  ];
+
+  const matching = (query: string) => {
+    const predicate = buildExpressionPredicate({ logic: 'and', filters: parseSearchQuery(query).filters });
+    return predicate ? products.filter(predicate).map(p => p.id) : products.map(p => p.id);
+  };
+
+  it('should keep bare words as the search term', () => {
+    const parsed = parseSearchQuery('running  shoes');
+    expect(parsed.searchTerm).toBe('running shoes');
+    expect(parsed.filters).toEqual([]);
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it('should scope values to a field', () => {
+    expect(matching('category:fashion')).toEqual([1, 2]);
+    expect(matching('name:"trail shoes"')).toEqual([3]);
+  });
+
+  it('should compare numeric fields', () => {
+    expect(matching('price:<89')).toEqual([2]);
+    expect(matching('price:<=89')).toEqual([1, 2]);
+    expect(matching('price:>129')).toEqual([4]);
+    expect(matching('price:>=129')).toEqual([3, 4]);
+    expect(matching('price:60..130')).toEqual([1, 3]);
+    expect(matching('price:..60')).toEqual([2]);
+    expect(matching('price:699')).toEqual([4]);
+  });
+
+  it('should require quoted phrases to appear as is', () => {
+    expect(matching('"casual running"')).toEqual([2]);
+  });
+
+  it('should exclude negated terms', () => {
+    expect(matching('-sneakers')).toEqual([1, 3, 4]);
+    expect(matching('-category:Fashion -"smart"')).toEqual([3]);
+  });
+
+  it('should combine every part of the query', () => {
+    const parsed = parseSearchQuery('category:Fashion price:<100 "running shoes" -sneakers lightweight');
+    expect(parsed.searchTerm).toBe('lightweight');
+    expect(parsed.errors).toEqual([]);
+    expect(matching('category:Fashion price:<100 "running shoes" -sneakers')).toEqual([1]);
+  });
+
+  it('should report invalid terms and ignore them', () => {
+    const parsed = parseSearchQuery('colour:red price:<abc price:cheap name: "unclosed shoes');
+    expect(parsed.errors.map(error => error.token)).toEqual(['colour:red', 'price:<abc', 'price:cheap', 'name:', '"unclosed shoes']);
+    expect(parsed.searchTerm).toBe('');
+    expect(parsed.filters).toEqual([]);
+  });
+
+  it('should ignore incomplete terms while typing', () => {
+    expect(parseSearchQuery('shoes - "').errors).toEqual([]);
+    expect(parseSearchQuery('shoes - "').searchTerm).toBe('shoes');
+  });
+});
@@ -0,0 +1,153 @@
+import { Filter } from '../../core/models/filter.model';
+import { FilterExpression } from '../../core/models/filter-expression.model';
+import { Product } from '../../core/models/product.model';
+import { ParsedSearchQuery, SearchQueryError } from '../interfaces/search-query';
+import { SEARCH_FIELD_WEIGHTS } from './product-search';
+
+/**
+ * The product attributes that can be scoped in a search query, e.g. `category:Fashion`,
+ * and whether their values are compared as text or as numbers.
+ */
+export const QUERY_FIELDS: { [field: string]: { key: keyof Product; numeric: boolean } } = {
+  name: { key: 'name', numeric: false },
+  category: { key: 'category', numeric: false },
+  description: { key: 'description', numeric: false },
+  price: { key: 'price', numeric: true }
+};
+
+/**
+ * Matches one term of a query: an optional `-` negation, an optional `field:` scope,
+ * then either a quoted phrase (whose closing quote may be missing) or a bare word.
+ */
+const TERM_PATTERN = /(-?)(?:([A-Za-z]\w*):)?(?:"([^"]*)("?)|([^\s"]*))/g;
+
+const COMPARISON_PATTERN = /^(<=|>=|<|>)(.*)$/;
+const RANGE_PATTERN = /^(.*)\.\.(.*)$/;
+
+const emptyFilter: Filter = {
+  type: 'value',
+  value: null,
+  range: null,
+  greater: null,
+  smaller: null,
+  multiselect: null
+};
+
+const toNumber = (text: string): number | null => {
+  const number = text.trim() === '' ? NaN : Number(text);
+  return Number.isNaN(number) ? null : number;
+};
+
+/**
+ * Builds the filter expressed by a scoped value such as `<100`, `10..50` or `shoes`.
+ * Comparisons and ranges only apply to numeric fields; `<=` and `>=` become ranges with a single bound.
+ *
+ * @returns The filter, or an error message when the value cannot be applied to the field.
+ */
+function buildFieldFilter(field: string, value: string, quoted: boolean): Filter | string {
+  const { numeric } = QUERY_FIELDS[field];
+  if (value === '') {
+    return `Missing value for "${field}"`;
+  }
+  if (!numeric) {
+    return { ...emptyFilter, type: 'value', value };
+  }
+
+  const comparison = quoted ? null : COMPARISON_PATTERN.exec(value);
+  if (comparison) {
+    const [, operator, operand] = comparison;
+    const bound = toNumber(operand);
+    if (bound === null) {
+      return `"${operand}" is not a number`;
+    }
+    switch (operator) {
+      case '<': return { ...emptyFilter, type: 'smaller', smaller: bound };
+      case '>': return { ...emptyFilter, type: 'greater', greater: bound };
+      case '<=': return { ...emptyFilter, type: 'range', range: { min: null, max: bound } };
+      default: return { ...emptyFilter, type: 'range', range: { min: bound, max: null } };
+    }
+  }
+
+  const range = quoted ? null : RANGE_PATTERN.exec(value);
+  if (range) {
+    const [, minText, maxText] = range;
+    const min = minText === '' ? null : toNumber(minText);
+    const max = maxText === '' ? null : toNumber(maxText);
+    if ((minText !== '' && min === null) || (maxText !== '' && max === null) || (min === null && max === null)) {
+      return `"${value}" is not a valid range`;
+    }
+    return { ...emptyFilter, type: 'range', range: { min, max } };
+  }
+
+  if (toNumber(value) === null) {
+    return `"${value}" is not a number`;
+  }
+  return { ...emptyFilter, type: 'value', value };
+}
+
+/**
+ * Builds the expression matching products whose searched attributes contain a text, ignoring case.
+ */
+const anySearchedField = (text: string): FilterExpression => ({
+  logic: 'or',
+  filters: SEARCH_FIELD_WEIGHTS.map(([key]) => ({ key, value: { ...emptyFilter, type: 'value', value: text } }))
+});
+
+/**
+ * Parses a search query written with the query syntax:
+ *
+ * - `word` is searched as usual, in every searched attribute;
+ * - `"running shoes"` must appear as is in one of the searched attributes;
+ * - `field:value` or `field:"some value"` restricts a single attribute (see `QUERY_FIELDS`);
+ * - `price:<100`, `price:>=20` and `price:20..100` compare numeric attributes, a range bound may be omitted;
+ * - a leading `-` excludes the products matching the term, e.g. `-sneakers` or `-category:Fashion`.
+ *
+ * Terms are combined with `and`. Invalid terms are reported as errors and otherwise ignored,
+ * so the rest of the query still applies while it is being typed.
+ *
+ * @param query - The query typed in the search bar.
+ * @returns The free-text search term, the filters and the errors of the query.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const words: string[] = [];
+  const filters: FilterExpression[] = [];
+  const errors: SearchQueryError[] = [];
+
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    const [token, negation, field, phrase, closingQuote, word] = match;
+    const isPhrase = phrase !== undefined;
+    const text = isPhrase ? phrase : word;
+
+    if (token === '' || (field === undefined && text.trim() === '')) {
+      continue;
+    }
+    if (isPhrase && closingQuote === '') {
+      errors.push({ token, message: 'Missing closing quote' });
+      continue;
+    }
+
+    let expression: FilterExpression;
+    if (field !== undefined) {
+      const fieldName = field.toLowerCase();
+      if (!(fieldName in QUERY_FIELDS)) {
+        errors.push({ token, message: `Unknown field "${field}", use one of: ${Object.keys(QUERY_FIELDS).join(', ')}` });
+        continue;
+      }
+      const filter = buildFieldFilter(fieldName, text, isPhrase);
+      if (typeof filter === 'string') {
+        errors.push({ token, message: filter });
+        continue;
+      }
+      expression = { key: QUERY_FIELDS[fieldName].key, value: filter };
+    } else if (isPhrase || negation) {
+      expression = anySearchedField(text);
+    } else {
+      words.push(text);
+      continue;
+    }
+
+    filters.push(negation ? { logic: 'not', filters: [expression] } : expression);
+  }
+
+  return { searchTerm: words.join(' '), filters, errors };
+}
@@ -0,0 +1,24 @@
+import { rankMatches, recentSuggestions, toSuggestions } from './suggestions';
+
+describe('suggestions', () => {
+  it('should rank distinct values starting with the term first, then alphabetically', () => {
+    const values = ['Smartphone', 'phone case', 'Phone', 'Headphones', 'Phone', 'Laptop'];
+    expect(rankMatches(values, 'PHO', 10)).toEqual(['Phone', 'phone case', 'Headphones', 'Smartphone']);
+    expect(rankMatches(values, 'pho', 2)).toEqual(['Phone', 'phone case']);
+    expect(rankMatches(values, ' ', 10)).toEqual([]);
+  });
+
+  it('should suggest categories as category queries ahead of product names', () => {
+    const suggestions = toSuggestions({ names: ['Phone', 'Smartphone'], categories: ['Phones'] }, 2);
+    expect(suggestions).toEqual([
+      { type: 'category', label: 'Phones', query: 'category:"Phones"' },
+      { type: 'product', label: 'Phone', query: 'Phone' }
+    ]);
+  });
+
+  it('should suggest the recent queries containing the term, except the term itself', () => {
+    const recent = ['running shoes', 'shoes', 'laptop'];
+    expect(recentSuggestions(recent, 'shoes', 5).map(s => s.query)).toEqual(['running shoes']);
+    expect(recentSuggestions(recent, '', 2).map(s => s.query)).toEqual(['running shoes', 'shoes']);
+  });
+});
@@ -0,0 +1,76 @@
+import { Suggestion } from '../../core/models/suggestion.model';
+import { SuggestResponse } from '../interfaces/suggest-response';
+
+/**
+ * The number of suggestions displayed at most below the search bar.
+ */
+export const MAX_SUGGESTIONS = 8;
+
+/**
+ * The number of recent queries suggested at most, ahead of the categories and product names.
+ */
+export const MAX_RECENT_SUGGESTIONS = 3;
+
+/**
+ * The number of categories suggested at most, ahead of the product names.
+ */
+export const MAX_CATEGORY_SUGGESTIONS = 3;
+
+/**
+ * Returns the distinct values containing a term, ignoring case. Values starting with the
+ * term come first, then values are ordered alphabetically, as by the `/products/suggest` endpoint.
+ *
+ * @param values - The values to search, possibly with duplicates.
+ * @param term - The search term.
+ * @param limit - The maximum number of values to return.
+ * @returns The matching values, best first.
+ */
+export function rankMatches(values: string[], term: string, limit: number): string[] {
+  const lowerTerm = term.trim().toLowerCase();
+  if (!lowerTerm) {
+    return [];
+  }
+  const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+  return [...new Set(values)]
+    .map(value => ({ value, lower: value.toLowerCase() }))
+    .filter(({ lower }) => lower.includes(lowerTerm))
+    .sort((a, b) => Number(b.lower.startsWith(lowerTerm)) - Number(a.lower.startsWith(lowerTerm))
+      || compare(a.lower, b.lower)
+      || compare(a.value, b.value))
+    .slice(0, limit)
+    .map(({ value }) => value);
+}
+
+/**
+ * Turns matching categories and product names into suggestions. A category suggestion
+ * applies a `category:` query, a product suggestion searches the product name.
+ *
+ * @param response - The matching product names and categories.
+ * @param limit - The maximum number of suggestions.
+ * @returns The suggestions, categories first.
+ */
+export function toSuggestions(response: SuggestResponse, limit: number): Suggestion[] {
+  const categories: Suggestion[] = response.categories
+    .slice(0, MAX_CATEGORY_SUGGESTIONS)
+    .map(category => ({ type: 'category', label: category, query: `category:"${category}"` }));
+  const products: Suggestion[] = response.names
+    .map(name => ({ type: 'product', label: name, query: name }));
+  return [...categories, ...products].slice(0, limit);
+}
+
+/**
+ * Turns the recent queries containing a term into suggestions, leaving out the term itself.
+ * An empty term suggests every recent query.
+ *
+ * @param recentQueries - The recent queries, most recent first.
+ * @param term - The search term.
+ * @param limit - The maximum number of suggestions.
+ * @returns The suggestions, most recent first.
+ */
+export function recentSuggestions(recentQueries: string[], term: string, limit: number): Suggestion[] {
+  const lowerTerm = term.trim().toLowerCase();
+  return recentQueries
+    .filter(query => query.toLowerCase().includes(lowerTerm) && query !== term.trim())
+    .slice(0, limit)
+    .map(query => ({ type: 'recent', label: query, query }));
+}
@@ -0,0 +1,52 @@
+import { Product } from '../../core/models/product.model';
+import { SearchOptions } from '../../core/models/search-options.model';
+import { matchesSearch, relevanceScore } from './product-search';
+import { editDistance, tokenize, tokenMatches } from './text-search';
+
+describe('text-search', () => {
+  const fuzzy: SearchOptions = { mode: 'fuzzy', threshold: 0.25 };
+
+  const products: Product[] = [
+    { id: 1, name: 'Wireless Headphones', category: 'Electronics', price: 199, description: 'Noise-cancelling over-ear headphones' },
+    { id: 2, name: 'Crème Brûlée Torch', category: 'Kitchen', price: 29, description: 'Butane torch' },
+    { id: 3, name: 'Running Shoes', category: 'Fashion', price: 99, description: 'Lightweight trainers' }
+  ];
+
+  const matching = (term: string, options?: SearchOptions) =>
+    products.filter(p => matchesSearch(p, term, options)).map(p => p.id);
+
+  it('should split texts into lowercased words without accents', () => {
+    expect(tokenize('Crème Brûlée, over-ear!')).toEqual(['creme', 'brulee', 'over', 'ear']);
+  });
+
+  it('should compute edit distances and give up past the maximum', () => {
+    expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+    expect(editDistance('kitten', 'sitting', 2)).toBe(3);
+    expect(editDistance('abc', 'abcdef', 1)).toBe(2);
+  });
+
+  it('should tolerate typos in proportion to the word length', () => {
+    expect(tokenMatches('hedphones', 'headphones', 0.25)).toBeTrue();
+    expect(tokenMatches('hedph', 'headphones', 0.25)).toBeTrue();
+    expect(tokenMatches('shoe', 'shoes', 0)).toBeTrue();
+    expect(tokenMatches('sgoe', 'shoes', 0)).toBeFalse();
+    expect(tokenMatches('tv', 'to', 0.25)).toBeFalse();
+  });
+
+  it('should require every word of the term to match in fuzzy mode', () => {
+    expect(matching('wireles hedphones', fuzzy)).toEqual([1]);
+    expect(matching('creme brulee', fuzzy)).toEqual([2]);
+    expect(matching('runing electronics', fuzzy)).toEqual([]);
+  });
+
+  it('should keep exact matching by default', () => {
+    expect(matching('hedphones')).toEqual([]);
+    expect(matching('phones')).toEqual([1]);
+  });
+
+  it('should score the fields matching any word of the term in fuzzy mode', () => {
+    expect(relevanceScore(products[0], 'hedphones', fuzzy)).toBe(4);
+    expect(relevanceScore(products[0], 'electrnics', fuzzy)).toBe(2);
+    expect(relevanceScore(products[0], 'hedphones', { mode: 'exact', threshold: 0 })).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Lowercases a text and strips its diacritics, so that "Crème" and "creme" compare equal.
+ *
+ * @param text - The text to normalize.
+ * @returns The normalized text.
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Splits a text into normalized words. Any character that is not a letter or a digit
+ * separates words, so "washing-machine" yields `washing` and `machine`.
+ *
+ * @param text - The text to split.
+ * @returns The normalized words.
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+}
+
+/**
+ * Computes the Levenshtein distance between two words, giving up once it exceeds `max`.
+ *
+ * @param a - The first word.
+ * @param b - The second word.
+ * @param max - The largest distance of interest.
+ * @returns The distance, or `max + 1` when it is larger than `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Returns how many typos are tolerated in a search word.
+ *
+ * @param token - The search word.
+ * @param threshold - The number of typos tolerated per character.
+ * @returns The number of tolerated typos.
+ */
+export function allowedEdits(token: string, threshold: number): number {
+  return Math.floor(token.length * threshold);
+}
+
+/**
+ * Checks whether a search word matches a word of the text: either the text word contains it,
+ * or it is within the tolerated number of typos of the text word or of its beginning
+ * (so that words being typed, like "hedph", still match "headphones").
+ *
+ * @param queryToken - The normalized search word.
+ * @param textToken - The normalized text word.
+ * @param threshold - The number of typos tolerated per character.
+ * @returns `true` when the words match.
+ */
+export function tokenMatches(queryToken: string, textToken: string, threshold: number): boolean {
+  if (textToken.includes(queryToken)) {
+    return true;
+  }
+  const max = allowedEdits(queryToken, threshold);
+  if (max === 0) {
+    return false;
+  }
+  return editDistance(queryToken, textToken, max) <= max
+    || editDistance(queryToken, textToken.slice(0, queryToken.length + max), max) <= max;
+}
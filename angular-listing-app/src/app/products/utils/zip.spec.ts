@@ -0,0 +1,25 @@
+import { buildZip, crc32, textEntry } from './zip';
+
+describe('zip', () => {
+  const bytes = (text: string) => new TextEncoder().encode(text);
+
+  it('should compute the CRC-32 of a content, at once or part by part', () => {
+    expect(crc32(bytes('hello'))).toBe(0x3610A686);
+    expect(crc32(bytes('llo'), crc32(bytes('he')))).toBe(0x3610A686);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('should store the files after their headers, followed by the central directory', () => {
+    const parts = buildZip([textEntry('a.txt', 'hello'), textEntry('b/c.txt', '')]);
+    const archive = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    parts.reduce((offset, part) => (archive.set(part, offset), offset + part.length), 0);
+    const view = new DataView(archive.buffer);
+    const text = new TextDecoder().decode(archive);
+
+    expect(view.getUint32(0, true)).toBe(0x04034B50);
+    expect(view.getUint32(14, true)).toBe(0x3610A686);
+    expect(text.slice(30, 40)).toBe('a.txthello');
+    expect(view.getUint32(archive.length - 22, true)).toBe(0x06054B50);
+    expect(view.getUint16(archive.length - 12, true)).toBe(2);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * A file of a ZIP archive, stored without compression. Its content is given in parts, so that large
+ * files can be built incrementally; `crc` and `size` describe the whole content (see `crc32`).
+ */
+export interface ZipEntry {
+  name: string;
+  parts: Uint8Array[];
+  crc: number;
+  size: number;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xEDB88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * Computes the CRC-32 checksum of ZIP archives, incrementally: the checksum of the previous parts
+ * of a content is passed to continue with the next part.
+ *
+ * @param data - The bytes to add to the checksum.
+ * @param previous - The checksum of the previous parts, 0 for the first part.
+ * @returns The checksum of the content so far.
+ */
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/**
+ * Makes a ZIP entry of a text, encoded in UTF-8.
+ *
+ * @param name - The path of the file in the archive.
+ * @param text - The content of the file.
+ */
+export function textEntry(name: string, text: string): ZipEntry {
+  const data = new TextEncoder().encode(text);
+  return { name, parts: [data], crc: crc32(data), size: data.length };
+}
+
+/**
+ * Writes little-endian integers of the given byte lengths.
+ */
+function header(fields: Array<[number, 2 | 4]>): Uint8Array {
+  const bytes = new Uint8Array(fields.reduce((total, [, length]) => total + length, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const [value, length] of fields) {
+    if (length === 2) {
+      view.setUint16(offset, value, true);
+    } else {
+      view.setUint32(offset, value, true);
+    }
+    offset += length;
+  }
+  return bytes;
+}
+
+/**
+ * Builds a ZIP archive holding the given files, stored without compression. Names are encoded in UTF-8,
+ * and the archive is limited to 4 GB, without ZIP64 extensions.
+ *
+ * @param entries - The files of the archive.
+ * @returns The parts of the archive, in order, e.g. to make a `Blob`.
+ */
+export function buildZip(entries: ZipEntry[]): Uint8Array[] {
+  const UTF8_NAMES = 0x0800;
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = new TextEncoder().encode(entry.name);
+    const local = header([[0x04034B50, 4], [20, 2], [UTF8_NAMES, 2], [0, 2], [0, 2], [0x21, 2], [entry.crc, 4], [entry.size, 4], [entry.size, 4], [name.length, 2], [0, 2]]);
+    parts.push(local, name, ...entry.parts);
+    directory.push(
+      header([[0x02014B50, 4], [20, 2], [20, 2], [UTF8_NAMES, 2], [0, 2], [0, 2], [0x21, 2], [entry.crc, 4], [entry.size, 4], [entry.size, 4], [name.length, 2], [0, 2], [0, 2], [0, 2], [0, 2], [0, 4], [offset, 4]]),
+      name
+    );
+    offset += local.length + name.length + entry.size;
+  }
+  const directorySize = directory.reduce((total, part) => total + part.length, 0);
+  const end = header([[0x06054B50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2], [directorySize, 4], [offset, 4], [0, 2]]);
+  return [...parts, ...directory, end];
+}
@@ -2,8 +2,10 @@ import { Component, Input, Output, EventEmitter, OnInit, OnChanges, SimpleChange
 import { Filter } from '../../../core/models/filter.model';
 import { PriceRange } from '../../../core/models/price-range.model';
 import { FilterType } from '../../../core/models/filter-type.model';
+import { FilterLogic } from '../../../core/models/filter-logic.model';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms'; // Import FormsModule
+import { RangeSliderComponent } from '../range-slider/range-slider.component';
 
 
 @Component({
@@ -11,14 +13,19 @@ import { FormsModule } from '@angular/forms'; // Import FormsModule
     templateUrl: './filter.component.html',
     styleUrls: ['./filter.component.scss'],
     standalone: true,
-    imports: [CommonModule, FormsModule], // Add FormsModule here
+    imports: [CommonModule, FormsModule, RangeSliderComponent], // Add FormsModule here
 })
 export class FilterComponent implements OnInit, OnChanges {
 
     @Input() filterType: FilterType = 'value';
     @Input() multiselectOptions?: Array<string> | null = null;
+    @Input() multiselectCounts?: { [option: string]: number } | null = null;
     @Input() rangeOptions?: PriceRange | null = null;
+    @Input() rangeDistribution: number[] | null = null;
     @Input() title: string = 'Filter';
+    @Input() selection: Filter | null = null;
+    /** Offers to match all the selected options, which only makes sense for attributes holding a list of values, such as tags. */
+    @Input() allowMatchAll: boolean = false;
     @Output() filterChange = new EventEmitter<Filter>();
 
     public filterValue: string | null = null;
@@ -27,6 +34,8 @@ export class FilterComponent implements OnInit, OnChanges {
     public filterGreater: number | null = null;
     public filterSmaller: number | null = null;
     public filterMultiselect: { [key: string]: boolean } = {};
+    public rangeSelection: PriceRange = { min: null, max: null };
+    public filterLogic: FilterLogic = 'or';
     public filterTypes: FilterType[] = ['value', 'range', 'greater', 'smaller', 'multiselect'];
     public showAllMultiselectOptions: boolean = false;
     public isSelectAllDisabled: boolean = false;
@@ -39,6 +48,24 @@ export class FilterComponent implements OnInit, OnChanges {
         if (changes['multiselectOptions']?.currentValue !== changes['multiselectOptions']?.previousValue) { 
             this.filterMultiselect = this.initializeMultiselectOptions();
         }
+        if (changes['selection'] && this.selection) {
+            this.applySelection(this.selection);
+        }
+    }
+
+    /**
+     * Whether the catalog bounds are known, in which case the range is picked with a slider
+     * instead of free number inputs.
+     */
+    get hasRangeBounds(): boolean {
+        return this.rangeOptions?.min != null && this.rangeOptions?.max != null;
+    }
+
+    /**
+     * Whether the range inputs describe an empty range (min greater than max).
+     */
+    get isRangeInvalid(): boolean {
+        return this.filterMin !== null && this.filterMax !== null && this.filterMin > this.filterMax;
     }
 
     /**
@@ -48,19 +75,24 @@ export class FilterComponent implements OnInit, OnChanges {
      * The `Filter` object includes:
      * - `type`: The type of the filter.
      * - `value`: The value of the filter.
-     * - `range`: An object containing `min` and `max` values if both `filterMin` and `filterMax` are not null, otherwise null.
+     * - `range`: An object containing `min` and `max` values if at least one of `filterMin` and `filterMax` is set, otherwise null.
      * - `greater`: A boolean indicating if the filter is for values greater than a certain threshold.
      * - `smaller`: A boolean indicating if the filter is for values smaller than a certain threshold.
      * - `multiselect`: A boolean indicating if the filter allows multiple selections.
+     * - `logic`: Whether any (`or`) or all (`and`) of the selected options must match; always `or` unless `allowMatchAll` is set.
      */
     public onFilterChange() {
+        if (this.filterType === 'range' && this.isRangeInvalid) {
+            return;
+        }
         const filter: Filter = {
             type: this.filterType,
             value: this.filterValue,
-            range: this.filterMin !== null && this.filterMax !== null ? { min: this.filterMin, max: this.filterMax } : null,
+            range: this.filterMin !== null || this.filterMax !== null ? { min: this.filterMin, max: this.filterMax } : null,
             greater: this.filterGreater,
             smaller: this.filterSmaller,
-            multiselect: this.filterMultiselect
+            multiselect: this.filterMultiselect,
+            logic: this.allowMatchAll ? this.filterLogic : 'or'
         };
         this.filterChange.emit(filter);
     }
@@ -77,6 +109,17 @@ export class FilterComponent implements OnInit, OnChanges {
         this.filterMax = max;
     }
 
+    /**
+     * Handles a range picked with the slider and emits the updated filter object.
+     *
+     * @param range - The selected range; an open side is `null`.
+     */
+    public onSliderChange(range: PriceRange) {
+        this.rangeSelection = range;
+        this.onRangeChange(range.min, range.max);
+        this.onFilterChange();
+    }
+
     /**
      * Resets all filter values to their default states.
      * Clears the filter values, range, greater, smaller, and multiselect options.
@@ -86,9 +129,11 @@ export class FilterComponent implements OnInit, OnChanges {
         this.filterValue = null;
         this.filterMin = null;
         this.filterMax = null;
+        this.rangeSelection = { min: null, max: null };
         this.filterGreater = null;
         this.filterSmaller = null;
         this.filterMultiselect = {};
+        this.filterLogic = 'or';
         for (const key in this.filterMultiselect) {
             if (this.filterMultiselect.hasOwnProperty(key)) {
             this.filterMultiselect[key] = false;
@@ -111,19 +156,38 @@ export class FilterComponent implements OnInit, OnChanges {
         }
     }
 
+    /**
+     * Displays a filter set from outside the component, e.g. restored from the URL.
+     * Does not emit a filter change.
+     * 
+     * @param selection - The filter to display.
+     */
+    private applySelection(selection: Filter) {
+        this.filterValue = selection.value;
+        this.filterMin = selection.range?.min ?? null;
+        this.filterMax = selection.range?.max ?? null;
+        this.rangeSelection = { min: this.filterMin, max: this.filterMax };
+        this.filterGreater = selection.greater;
+        this.filterSmaller = selection.smaller;
+        this.filterLogic = selection.logic ?? 'or';
+        this.filterMultiselect = { ...this.initializeMultiselectOptions(false), ...selection.multiselect };
+    }
+
     /**
      * Initializes the multiselect options.
      * 
      * This method creates an object where each key is an option from the 
-     * `multiselectOptions` array and each value is set to `false`.
+     * `multiselectOptions` array and each value is set to `false`, unless the
+     * option is currently selected and `keepSelection` is set.
      * 
-     * @returns An object with keys from `multiselectOptions` and values set to `false`.
+     * @param keepSelection - Whether currently selected options stay selected.
+     * @returns An object with keys from `multiselectOptions` and their selection state.
      */
-    private initializeMultiselectOptions(): { [key: string]: boolean } {
+    private initializeMultiselectOptions(keepSelection: boolean = true): { [key: string]: boolean } {
         const options: { [key: string]: boolean } = {};
         if (this.multiselectOptions) {
             this.multiselectOptions.forEach(option => {
-                options[option] = false;
+                options[option] = keepSelection && !!this.filterMultiselect[option];
             });
         }
         return options;
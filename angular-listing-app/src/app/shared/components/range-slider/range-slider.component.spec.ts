@@ -0,0 +1,97 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RangeSliderComponent } from './range-slider.component';
+import { PriceRange } from '../../../core/models/price-range.model';
+
+describe('RangeSliderComponent', () => {
+  let component: RangeSliderComponent;
+  let fixture: ComponentFixture<RangeSliderComponent>;
+  let emitted: PriceRange[];
+
+  const handles = (): HTMLInputElement[] => Array.from(fixture.nativeElement.querySelectorAll('input[type="range"]'));
+
+  /** Moves a handle like the browser does for a drag or a key press: input events while it moves, a change event once released. */
+  const move = (handle: HTMLInputElement, value: number) => {
+    handle.value = String(value);
+    handle.dispatchEvent(new Event('input'));
+    handle.dispatchEvent(new Event('change'));
+    fixture.detectChanges();
+  };
+
+  const render = (inputs: Partial<Pick<RangeSliderComponent, 'bounds' | 'values' | 'distribution' | 'selection' | 'bins'>>) => {
+    Object.entries(inputs).forEach(([name, value]) => fixture.componentRef.setInput(name, value));
+    fixture.detectChanges();
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [RangeSliderComponent]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(RangeSliderComponent);
+    component = fixture.componentInstance;
+    emitted = [];
+    component.rangeChange.subscribe(range => emitted.push(range));
+  });
+
+  it('should snap to a nice step and round the ends of the slider outwards to it', () => {
+    render({ bounds: { min: 3, max: 487 } });
+    expect([component.step, component.floor, component.ceiling]).toEqual([5, 0, 490]);
+
+    render({ bounds: { min: 0.13, max: 1.9 } });
+    expect([component.step, component.floor, component.ceiling]).toEqual([0.02, 0.12, 1.9]);
+
+    render({ bounds: { min: 40, max: 40 } });
+    expect([component.step, component.floor, component.ceiling]).toEqual([1, 40, 41]);
+
+    const [lower, upper] = handles();
+    expect([lower.min, lower.max, lower.step]).toEqual(['40', '41', '1']);
+    expect([upper.min, upper.max, upper.step]).toEqual(['40', '41', '1']);
+  });
+
+  it('should place the handles on the selection, within the ends of the slider', () => {
+    render({ bounds: { min: 0, max: 100 }, selection: { min: 20, max: null } });
+    expect([component.lower, component.upper]).toEqual([20, 100]);
+
+    render({ selection: { min: -10, max: 500 } });
+    expect([component.lower, component.upper]).toEqual([0, 100]);
+  });
+
+  it('should emit the range once a handle is released, open on the sides left at the ends', () => {
+    render({ bounds: { min: 0, max: 100 } });
+    const [lower, upper] = handles();
+
+    move(lower, 20);
+    move(upper, 75);
+    move(lower, 0);
+
+    expect(emitted).toEqual([{ min: 20, max: null }, { min: 20, max: 75 }, { min: null, max: 75 }]);
+  });
+
+  it('should not let a handle pass the other one', () => {
+    render({ bounds: { min: 0, max: 100 }, selection: { min: 30, max: 60 } });
+    const [lower, upper] = handles();
+
+    move(lower, 80);
+    expect([component.lower, lower.value]).toEqual([60, '60']);
+
+    move(upper, 10);
+    expect([component.upper, upper.value]).toEqual([60, '60']);
+
+    expect(emitted).toEqual([{ min: 60, max: 60 }, { min: 60, max: 60 }]);
+  });
+
+  it('should draw the histogram of the values, highlighting the bars within the selection', () => {
+    render({ bounds: { min: 0, max: 100 }, values: [5, 10, 30, 80, 100], bins: 4, selection: { min: 30, max: 60 } });
+
+    expect(component.histogram).toEqual([2, 1, 0, 2]);
+    const bars: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('.bar'));
+    expect(bars.map(bar => bar.style.height)).toEqual(['100%', '50%', '0%', '100%']);
+    expect(bars.map(bar => bar.classList.contains('selected'))).toEqual([false, true, true, false]);
+  });
+
+  it('should draw a distribution given instead of the values', () => {
+    render({ bounds: { min: 0, max: 100 }, distribution: [1, 2, 3, 4], bins: 2 });
+
+    expect(component.histogram).toEqual([3, 7]);
+  });
+});
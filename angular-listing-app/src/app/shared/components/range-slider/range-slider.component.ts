@@ -0,0 +1,186 @@
+import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PriceRange } from '../../../core/models/price-range.model';
+
+/**
+ * @component RangeSliderComponent
+ * 
+ * @description
+ * A standalone slider with two handles for selecting a numeric range, bounded by the
+ * lowest and highest available values. A histogram above the track shows how the
+ * values are distributed. Handles snap to a "nice" step (1, 2 or 5 times a power of ten)
+ * and support the keyboard through native range inputs (arrows, Page Up/Down, Home/End).
+ * 
+ * @selector range-slider
+ * 
+ * @inputs
+ * - `bounds: PriceRange | null` - The lowest and highest selectable values.
+ * - `values: number[] | null` - The values whose distribution is drawn as a histogram.
+ * - `distribution: number[] | null` - The number of values in equal-width intervals between `bounds.min`
+ *   and `bounds.max`, drawn instead of `values` when the values themselves are not at hand.
+ * - `selection: PriceRange | null` - The initially selected range.
+ * - `bins: number` - The number of histogram bars. Default is 20.
+ * 
+ * @outputs
+ * - `rangeChange: EventEmitter<PriceRange>` - Emits the selected range when a handle is released.
+ *   A bound equal to the slider's end is emitted as `null`, meaning the range is open on that side.
+ */
+@Component({
+    selector: 'range-slider',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './range-slider.component.html',
+    styleUrls: ['./range-slider.component.scss']
+})
+export class RangeSliderComponent implements OnChanges {
+    @Input() bounds: PriceRange | null = null;
+    @Input() values: number[] | null = null;
+    @Input() distribution: number[] | null = null;
+    @Input() selection: PriceRange | null = null;
+    @Input() bins: number = 20;
+    @Output() rangeChange = new EventEmitter<PriceRange>();
+
+    public floor = 0;
+    public ceiling = 0;
+    public step = 1;
+    public lower = 0;
+    public upper = 0;
+    public histogram: number[] = [];
+
+    ngOnChanges(changes: SimpleChanges): void {
+        if (changes['bounds'] || changes['bins']) {
+            this.initializeBounds();
+        }
+        if (changes['bounds'] || changes['selection']) {
+            this.lower = this.clamp(this.selection?.min ?? this.floor);
+            this.upper = this.clamp(this.selection?.max ?? this.ceiling);
+        }
+        if (changes['bounds'] || changes['values'] || changes['distribution'] || changes['bins']) {
+            this.histogram = this.buildHistogram();
+        }
+    }
+
+    /**
+     * Gets the height of each histogram bar, as a percentage of the tallest bar.
+     */
+    get barHeights(): number[] {
+        const highest = this.histogram.reduce((a, b) => Math.max(a, b), 1);
+        return this.histogram.map(count => (count / highest) * 100);
+    }
+
+    /**
+     * Gets the position of a value along the track, as a percentage.
+     * 
+     * @param value - The value to position.
+     */
+    public position(value: number): number {
+        return this.ceiling > this.floor ? ((value - this.floor) / (this.ceiling - this.floor)) * 100 : 0;
+    }
+
+    /**
+     * Checks whether a histogram bar lies within the selected range.
+     * 
+     * @param index - The index of the bar.
+     */
+    public isBarSelected(index: number): boolean {
+        const width = (this.ceiling - this.floor) / this.histogram.length;
+        const start = this.floor + index * width;
+        return start + width > this.lower && start < this.upper;
+    }
+
+    /**
+     * Moves the lower handle while it is dragged, without letting it pass the upper handle.
+     * 
+     * @param event - The input event of the lower handle.
+     */
+    public onLowerInput(event: Event) {
+        const input = event.target as HTMLInputElement;
+        this.lower = Math.min(Number(input.value), this.upper);
+        input.value = String(this.lower);
+    }
+
+    /**
+     * Moves the upper handle while it is dragged, without letting it pass the lower handle.
+     * 
+     * @param event - The input event of the upper handle.
+     */
+    public onUpperInput(event: Event) {
+        const input = event.target as HTMLInputElement;
+        this.upper = Math.max(Number(input.value), this.lower);
+        input.value = String(this.upper);
+    }
+
+    /**
+     * Emits the selected range once a handle is released.
+     */
+    public onCommit() {
+        this.rangeChange.emit({
+            min: this.lower > this.floor ? this.lower : null,
+            max: this.upper < this.ceiling ? this.upper : null
+        });
+    }
+
+    /**
+     * Computes the step and the slider ends from the bounds. The ends are rounded
+     * outwards to a multiple of the step so that every handle position is a round number.
+     */
+    private initializeBounds() {
+        const min = this.bounds?.min ?? 0;
+        const max = this.bounds?.max ?? min;
+        this.step = this.niceStep(max - min);
+        this.floor = this.round(Math.floor(min / this.step) * this.step);
+        this.ceiling = this.round(Math.max(Math.ceil(max / this.step) * this.step, this.floor + this.step));
+    }
+
+    /**
+     * Returns a step of 1, 2 or 5 times a power of ten, giving roughly 100 positions over the span.
+     * 
+     * @param span - The distance between the lowest and highest values.
+     */
+    private niceStep(span: number): number {
+        if (span <= 0) {
+            return 1;
+        }
+        const rough = span / 100;
+        const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+        const normalized = rough / magnitude;
+        const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+        return nice * magnitude;
+    }
+
+    /**
+     * Counts the values falling into each histogram bar. The intervals of a distribution are
+     * counted in the bar holding their middle.
+     */
+    private buildHistogram(): number[] {
+        const counts = new Array<number>(Math.max(this.bins, 1)).fill(0);
+        const width = (this.ceiling - this.floor) / counts.length;
+        const add = (value: number, count: number) => {
+            const index = Math.min(Math.floor((value - this.floor) / width), counts.length - 1);
+            if (index >= 0) {
+                counts[index] += count;
+            }
+        };
+        if (this.distribution) {
+            const min = this.bounds?.min ?? 0;
+            const interval = ((this.bounds?.max ?? min) - min) / this.distribution.length;
+            this.distribution.forEach((count, index) => add(min + (index + 0.5) * interval, count));
+        } else {
+            for (const value of this.values ?? []) {
+                add(value, 1);
+            }
+        }
+        return counts;
+    }
+
+    /**
+     * Removes the floating point noise of multiplying by fractional steps (e.g. 0.1 * 3).
+     */
+    private round(value: number): number {
+        return Number(value.toFixed(10));
+    }
+
+    private clamp(value: number): number {
+        return Math.min(Math.max(value, this.floor), this.ceiling);
+    }
+}
@@ -1,8 +1,9 @@
-import { Component, Output, EventEmitter, OnInit, OnDestroy, Input } from '@angular/core';
+import { Component, Output, EventEmitter, OnInit, OnDestroy, Input, OnChanges, SimpleChanges } from '@angular/core';
 import { FormsModule } from '@angular/forms'; // For ngModel
 import { CommonModule } from '@angular/common';
 import { Subject, Subscription } from 'rxjs';
 import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
+import { Suggestion, SuggestionType } from '../../../core/models/suggestion.model';
 
 /**
  * @component SearchComponent
@@ -10,33 +11,45 @@ import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
  * @description
  * A standalone Angular component that provides a search bar with debounced input.
  * It emits search terms to the parent component after a specified debounce time.
+ * While typing, it displays the suggestions provided by the parent in a dropdown,
+ * which can be navigated with the arrow keys, picked with Enter and closed with Esc.
  * 
  * @selector search-bar
  * 
  * @inputs
  * - `debounceTime: number` - The debounce time in milliseconds. Default is 300ms.
+ * - `searchTerm: string` - The search term displayed in the input, e.g. when restored from the URL.
+ * - `errors: string[]` - Problems found in the search term, displayed below the input.
+ * - `suggestions: Suggestion[]` - The suggestions for the current search term, displayed in the dropdown.
  * 
  * @outputs
  * - `search: EventEmitter<string>` - Emits the search term after the debounce time.
+ * - `searchSubmit: EventEmitter<string>` - Emits the search term when the user explicitly searches it,
+ *   with Enter, the search button or by picking a suggestion.
  * 
  * @template
- * The template contains an input field for entering search terms and a button to trigger the search.
+ * The template contains an input field for entering search terms, a button to trigger the search,
+ * the suggestions dropdown and the list of errors, if any.
  * 
  * @styles
  * The styles define the layout and appearance of the search container, input field, and button.
  * 
  * @class SearchComponent
  * 
- * @implements OnInit, OnDestroy
+ * @implements OnInit, OnChanges, OnDestroy
  * 
  * @property {string} searchTerm - The current search term entered by the user.
  * @property {Subject<string>} searchSubject - A subject to handle the debounced search terms.
  * @property {Subscription} searchSubscription - A subscription to manage the search term stream.
+ * @property {boolean} showSuggestions - Whether the suggestions dropdown may be displayed.
+ * @property {number} activeIndex - The index of the suggestion highlighted with the keyboard, `-1` if none.
  * 
  * @method ngOnInit - Initializes the component and sets up the debounced search term subscription.
  * @method ngOnDestroy - Cleans up the subscription when the component is destroyed.
  * @method onInput - Emits the current search term to the search subject.
  * @method onSearch - Immediately emits the current search term.
+ * @method onKeydown - Navigates, picks or closes the suggestions with the keyboard.
+ * @method selectSuggestion - Searches the query of a suggestion.
  */
 @Component({
     selector: 'search-bar',
@@ -45,19 +58,36 @@ import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
     templateUrl: './search-bar.component.html',
     styleUrls: ['./search-bar.component.scss']
 })
-export class SearchComponent implements OnInit, OnDestroy {
-    public searchTerm: string = '';
+export class SearchComponent implements OnInit, OnChanges, OnDestroy {
+    @Input() searchTerm: string = '';
+    @Input() errors: string[] = [];
+    @Input() suggestions: Suggestion[] = [];
     private searchSubject = new Subject<string>();
     private searchSubscription: Subscription = new Subscription;
 
     @Input() debounceTime: number = 300; // Default debounce time in milliseconds, can be overridden for faster/slower search
     @Output() search = new EventEmitter<string>();
+    @Output() searchSubmit = new EventEmitter<string>();
+
+    public showSuggestions = false;
+    public activeIndex = -1;
+    public readonly suggestionTypeLabels: Record<SuggestionType, string> = {
+        recent: 'Recent',
+        category: 'Category',
+        product: 'Product'
+    };
 
 
     ngOnInit() {
         this.initSubscription();
     }
 
+    ngOnChanges(changes: SimpleChanges) {
+        if (changes['suggestions']) {
+            this.activeIndex = -1;
+        }
+    }
+
     ngOnDestroy() {
         this.
         searchSubscription.unsubscribe();
@@ -84,9 +114,89 @@ export class SearchComponent implements OnInit, OnDestroy {
      * through the searchSubject observable.
      */
     onInput() {
+        this.showSuggestions = true;
         this.searchSubject.next(this.searchTerm);
     }
 
+    /**
+     * Whether the suggestions dropdown is displayed.
+     */
+    get isDropdownOpen(): boolean {
+        return this.showSuggestions && this.suggestions.length > 0;
+    }
+
+    /**
+     * Displays the suggestions again when the input gets the focus.
+     */
+    openSuggestions() {
+        this.showSuggestions = true;
+    }
+
+    /**
+     * Hides the suggestions and forgets the highlighted one.
+     */
+    closeSuggestions() {
+        this.showSuggestions = false;
+        this.activeIndex = -1;
+    }
+
+    /**
+     * Handles the keyboard navigation of the suggestions: the arrows move the highlight,
+     * wrapping around, Enter picks the highlighted suggestion or searches the typed term,
+     * and Esc closes the dropdown.
+     *
+     * @param {KeyboardEvent} event - The key pressed in the input.
+     */
+    onKeydown(event: KeyboardEvent) {
+        const count = this.suggestions.length;
+        switch (event.key) {
+            case 'ArrowDown':
+            case 'ArrowUp':
+                if (count === 0) {
+                    return;
+                }
+                event.preventDefault();
+                if (!this.isDropdownOpen) {
+                    this.showSuggestions = true;
+                    this.activeIndex = -1;
+                }
+                this.activeIndex = event.key === 'ArrowDown'
+                    ? (this.activeIndex + 1) % count
+                    : (this.activeIndex <= 0 ? count : this.activeIndex) - 1;
+                break;
+            case 'Enter':
+                event.preventDefault();
+                if (this.isDropdownOpen && this.activeIndex >= 0) {
+                    this.selectSuggestion(this.suggestions[this.activeIndex]);
+                } else {
+                    this.onSearch();
+                }
+                break;
+            case 'Escape':
+                this.closeSuggestions();
+                break;
+        }
+    }
+
+    /**
+     * Replaces the search term with the query of a suggestion and searches it.
+     *
+     * @param {Suggestion} suggestion - The picked suggestion.
+     */
+    selectSuggestion(suggestion: Suggestion) {
+        this.searchTerm = suggestion.query;
+        this.onSearch();
+    }
+
+    /**
+     * Drops the search term waiting for the debounce time, so that it does not
+     * override a term searched immediately.
+     */
+    private cancelPendingSearch() {
+        this.searchSubscription.unsubscribe();
+        this.initSubscription();
+    }
+
     /**
      * Emits the current search term.
      * 
@@ -95,7 +205,10 @@ export class SearchComponent implements OnInit, OnDestroy {
      * that a search has been initiated with the given term.
      */
     onSearch() {
+        this.cancelPendingSearch();
+        this.closeSuggestions();
         this.search.emit(this.searchTerm);
+        this.searchSubmit.emit(this.searchTerm);
     }
 
     /**
@@ -107,6 +220,7 @@ export class SearchComponent implements OnInit, OnDestroy {
      * that the search has been cleared.
      */
     clearSearch() {
+        this.cancelPendingSearch();
         this.searchTerm = '';
         this.search.emit(this.searchTerm);
     }
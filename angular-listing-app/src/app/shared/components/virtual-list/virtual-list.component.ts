@@ -0,0 +1,164 @@
+import {
+    AfterViewChecked, Component, ContentChild, ElementRef, EventEmitter, HostListener, Inject,
+    Input, OnChanges, Output, PLATFORM_ID, SimpleChanges, TemplateRef, ViewChild
+} from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+
+/**
+ * @component VirtualListComponent
+ * 
+ * @description
+ * A standalone scrollable list that only renders the rows within (or close to) the visible area,
+ * so that lists of thousands of items stay smooth. Rows have a fixed height; the rows above and
+ * below the rendered ones are replaced by an empty space of the same height. The list emits
+ * `endReached` when the user scrolls close to the last item, so that the parent can load more.
+ * 
+ * @selector virtual-list
+ * 
+ * @inputs
+ * - `items: T[]` - The items of the list.
+ * - `itemHeight: number` - The height of a row, in pixels. Default is 320.
+ * - `buffer: number` - The number of rows rendered above and below the visible ones. Default is 3.
+ * - `endThreshold: number` - How many rows before the last one `endReached` is emitted. Default is 5.
+ * - `scrollTarget: { offset: number } | null` - Scrolls to the given offset once the items are rendered.
+ *   A new object must be assigned to scroll again, e.g. back to the top when the items are replaced.
+ * 
+ * @outputs
+ * - `endReached: EventEmitter<void>` - Emits when the user scrolls close to the last item,
+ *   or when the items do not fill the list. Emits at most once per number of items.
+ * - `scrollChange: EventEmitter<number>` - Emits the scroll offset, in pixels, when the user scrolls.
+ * 
+ * @template
+ * The row template is given as content: `<ng-template let-item let-index="index">...</ng-template>`.
+ */
+@Component({
+    selector: 'virtual-list',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './virtual-list.component.html',
+    styleUrls: ['./virtual-list.component.scss']
+})
+export class VirtualListComponent<T> implements OnChanges, AfterViewChecked {
+    @Input() items: T[] = [];
+    @Input() itemHeight: number = 320;
+    @Input() buffer: number = 3;
+    @Input() endThreshold: number = 5;
+    @Input() scrollTarget: { offset: number } | null = null;
+    @Output() endReached = new EventEmitter<void>();
+    @Output() scrollChange = new EventEmitter<number>();
+
+    @ContentChild(TemplateRef) itemTemplate: TemplateRef<{ $implicit: T; index: number }> | null = null;
+    @ViewChild('viewport', { static: true }) viewport!: ElementRef<HTMLElement>;
+
+    public start = 0;
+    public end = 0;
+    private scrollTop = 0;
+    private viewportHeight = 800; // Until measured, e.g. during server-side rendering
+    private pendingOffset: number | null = null;
+    private endReachedLength = -1;
+
+    constructor(@Inject(PLATFORM_ID) private platformId: object) { }
+
+    ngOnChanges(changes: SimpleChanges): void {
+        if (changes['scrollTarget'] && this.scrollTarget) {
+            this.pendingOffset = this.scrollTarget.offset;
+            this.scrollTop = this.scrollTarget.offset;
+        }
+        if (changes['items']) {
+            this.endReachedLength = -1;
+        }
+        this.updateRange();
+    }
+
+    /**
+     * Applies a pending scroll once the rows are rendered, and requests more items
+     * when the rendered ones reach the end of the list.
+     */
+    ngAfterViewChecked(): void {
+        if (!isPlatformBrowser(this.platformId)) {
+            return;
+        }
+        const element = this.viewport.nativeElement;
+        if (this.pendingOffset !== null) {
+            element.scrollTop = this.pendingOffset;
+            this.pendingOffset = null;
+        }
+        if (element.clientHeight > 0 && element.clientHeight !== this.viewportHeight) {
+            // Bindings cannot change while the view is checked, the range is updated right after
+            const height = element.clientHeight;
+            Promise.resolve().then(() => {
+                this.viewportHeight = height;
+                this.updateRange();
+            });
+        }
+        this.checkEnd();
+    }
+
+    /**
+     * Gets the items of the rendered rows.
+     */
+    get visibleItems(): T[] {
+        return this.items.slice(this.start, this.end);
+    }
+
+    /**
+     * Gets the height of the whole list, in pixels.
+     */
+    get totalHeight(): number {
+        return this.items.length * this.itemHeight;
+    }
+
+    /**
+     * Gets the offset of the first rendered row, in pixels.
+     */
+    get offsetY(): number {
+        return this.start * this.itemHeight;
+    }
+
+    /**
+     * Updates the rendered rows after the user scrolled, and reports the new offset.
+     */
+    onScroll() {
+        const element = this.viewport.nativeElement;
+        this.scrollTop = element.scrollTop;
+        this.viewportHeight = element.clientHeight || this.viewportHeight;
+        this.updateRange();
+        this.scrollChange.emit(this.scrollTop);
+    }
+
+    /**
+     * Updates the rendered rows when the window, and so the list, is resized.
+     */
+    @HostListener('window:resize')
+    onResize() {
+        this.viewportHeight = this.viewport.nativeElement.clientHeight || this.viewportHeight;
+        this.updateRange();
+    }
+
+    public trackByIndex(index: number): number {
+        return this.start + index;
+    }
+
+    /**
+     * Computes the rows to render from the scroll offset and the height of the list.
+     */
+    private updateRange() {
+        const first = Math.floor(this.scrollTop / this.itemHeight);
+        const visibleCount = Math.ceil(this.viewportHeight / this.itemHeight);
+        this.start = Math.min(Math.max(0, first - this.buffer), this.items.length);
+        this.end = Math.min(this.items.length, first + visibleCount + this.buffer);
+    }
+
+    /**
+     * Emits `endReached` once per number of items when the rendered rows come close to the end.
+     * The event is emitted asynchronously, as it is usually handled by changing the items.
+     */
+    private checkEnd() {
+        const length = this.items.length;
+        if (length === 0 || this.endReachedLength === length || this.end < length - this.endThreshold) {
+            return;
+        }
+        this.endReachedLength = length;
+        Promise.resolve().then(() => this.endReached.emit());
+    }
+}
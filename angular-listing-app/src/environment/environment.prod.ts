@@ -1,6 +1,11 @@
 export const environment = {
     production: true,
     apiUrl: 'https://latch-tech-challenge.onrender.com/api',
-    clientSidePaginationTreshold: 2000
+    clientSidePaginationTreshold: 2000,
+    search: { mode: 'fuzzy', threshold: 0.25 } as const,
+    filterCache: { maxEntries: 50, ttl: 60_000 },
+    hybrid: { maxCatalogSize: 20_000, chunkSize: 500, minDeviceMemory: 2, maxHeapUsage: 0.7, maxClientLatency: 100 },
+    dataSource: { type: 'http' as 'http' | 'memory' | 'json', url: '/mock-products.json' },
+    mockBackend: false
   };
   
\ No newline at end of file
@@ -1,53 +1,368 @@
 // controllers/productController.js
 
+const mongoose = require('mongoose');
 const Product = require('../models/Product');
+const DeletedProduct = require('../models/DeletedProduct');
+const SearchWord = require('../models/SearchWord');
+const { buildFilterQuery, withoutKey, escapeRegex, FilterValidationError } = require('../utils/filterQuery');
+const {
+    parseSearchOptions,
+    buildSearchQuery,
+    buildRelevanceExpression,
+    buildFuzzySearch
+} = require('../utils/productSearch');
+const { toSearchTokens, toSearchTokensUpdate } = require('../utils/searchTokens');
+const { toSortKeys, toSortKeysUpdate } = require('../utils/sortKeys');
+const { buildSortStages } = require('../utils/productSort');
+const { encodeCursor } = require('../utils/cursor');
+const { toVersion, parseVersion, isExpiredVersion } = require('../utils/catalogVersion');
+
+const FACET_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// Bounds of the number of product names returned by the suggest endpoint, and number of categories
+const DEFAULT_SUGGESTIONS = 8;
+const MAX_SUGGESTIONS = 20;
+const CATEGORY_SUGGESTIONS = 3;
+
+// The most products returned per page, or chunk, by the filter endpoint
+const MAX_PAGE_SIZE = 500;
+
+// Number of equal-width price intervals counted by the metadata endpoint, for the price histogram
+const PRICE_HISTOGRAM_BINS = 100;
+
+// The most products accepted by a bulk upsert request
+const MAX_BULK_PRODUCTS = 500;
+// The attributes a bulk upsert may set
+const PRODUCT_FIELDS = ['name', 'description', 'price', 'category', 'imgUrl'];
+// Compares product names ignoring case, to match imported products with existing ones
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+// Combines query conditions, skipping the ones that do not restrict the result
+const combine = (...conditions) => {
+    const active = conditions.filter(condition => condition !== null);
+    return active.length > 0 ? { $and: active } : {};
+};
+
+// Counts the matching products per value of each faceted field.
+// Counts are disjunctive: each facet applies the search and every filter except its own.
+async function countFacets(facets, searchQuery, filters) {
+    if (!Array.isArray(facets) || facets.length === 0) return undefined;
+
+    const entries = await Promise.all(facets.map(async key => {
+        if (typeof key !== 'string' || !FACET_KEY_PATTERN.test(key)) {
+            throw new FilterValidationError(`Invalid facet key: ${key}`);
+        }
+        const groups = await Product.aggregate([
+            { $match: combine(searchQuery, buildFilterQuery(withoutKey(filters, key))) },
+            { $group: { _id: `$${key}`, count: { $sum: 1 } } }
+        ]);
+        return [key, Object.fromEntries(groups.map(group => [String(group._id), group.count]))];
+    }));
+
+    return Object.fromEntries(entries);
+}
+
+// Resolves the search term into a query and a relevance expression.
+// Exact searches run as regular expressions in MongoDB. Typo tolerance cannot be expressed
+// as a query, so fuzzy searches find the words of the vocabulary matching the term here, and
+// match the products holding them through the search tokens index.
+async function resolveSearch(searchTerm, searchOptions) {
+    if (!searchTerm) return { query: null, relevance: { $literal: 0 } };
+
+    if (searchOptions.mode === 'fuzzy') {
+        return buildFuzzySearch(searchTerm, searchOptions.threshold, await SearchWord.load());
+    }
+    return { query: buildSearchQuery(searchTerm), relevance: buildRelevanceExpression(searchTerm) };
+}
 
 // Filters products based on the incoming filter payload
 exports.filterProducts = async (req, res) => {
     try {
-        const { searchTerm, currentPage, pageSize, filters } = req.body;
-
-        // Base query to start with
-        let query = {};
-
-        // Search term filter (applies to name, description, category, etc.)
-        if (searchTerm) {
-            query.$or = [
-                { name: { $regex: searchTerm, $options: 'i' } },
-                { description: { $regex: searchTerm, $options: 'i' } },
-                { category: { $regex: searchTerm, $options: 'i' } }
-            ];
-        }
-
-        // Apply each filter in the filters object
-        if (filters && filters.filters.length > 0) {
-            filters.filters.forEach(filter => {
-                let filterKey = filter.key;
-                let filterValues = filter.values;
-                let filterType = filter.type;
-                let logic = filter.logic === "or" ? "$in" : "$all";
-
-                if (filterType === 'range') {
-                    // If the filter is a range, apply a range query
-                    query[filterKey] = {
-                        $gte: parseFloat(filterValues[0]),  // Minimum value
-                        $lte: parseFloat(filterValues[1])   // Maximum value
-                    };
-                } else {
-                    // For other types of filters, use logic (AND/OR)
-                    query[filterKey] = { [logic]: filterValues };
-                }
-            });
-        }
+        const { searchTerm, currentPage, pageSize, filters, sort, facets, searchOptions, cursor } = req.body;
+        const version = toVersion(new Date());
 
-        // Pagination
-        const skip = (currentPage - 1) * pageSize;
+        // Search term filter (applies to name, description, category, etc.), exact or typo-tolerant
+        const search = await resolveSearch(searchTerm, parseSearchOptions(searchOptions));
+        const searchQuery = search.query;
+
+        // Apply the filter expression tree (nested and/or/not groups of filters)
+        const query = combine(searchQuery, buildFilterQuery(filters));
+
+        // Sorting, always ending with the id tie-breaker so that page boundaries are stable.
+        // With a cursor, only the products after (or before) it are kept, instead of skipping pages.
+        const { stages: sortStages, internalFields, keys, cursor: position } = buildSortStages(sort, search.relevance, cursor || null);
+
+        // Pagination: keyset when a cursor is given, offset otherwise, with at most MAX_PAGE_SIZE products.
+        // One more product than requested is fetched to tell whether there is a page after this one.
+        const page = Math.max(parseInt(currentPage, 10) || 1, 1);
+        const limit = Math.min(Math.max(parseInt(pageSize, 10) || 10, 1), MAX_PAGE_SIZE);
+        const skip = position ? 0 : (page - 1) * limit;
         const totalItems = await Product.countDocuments(query);
-        const products = await Product.find(query).skip(skip).limit(pageSize);
+        const facetCounts = await countFacets(facets, searchQuery, filters);
+        const fetched = await Product.aggregate([
+            { $match: query },
+            ...sortStages,
+            ...(skip > 0 ? [{ $skip: skip }] : []),
+            { $limit: limit + 1 },
+            { $addFields: { id: { $toString: '$_id' } } },
+            { $project: { searchTokens: 0 } }
+        ]);
+
+        const hasMore = fetched.length > limit;
+        const pageProducts = fetched.slice(0, limit);
+        const isBackwards = position !== null && position.direction === 'prev';
+        if (isBackwards) pageProducts.reverse();
+        const hasNext = isBackwards || hasMore;
+        const hasPrevious = isBackwards ? hasMore : position !== null || skip > 0;
+
+        const first = pageProducts[0];
+        const last = pageProducts[pageProducts.length - 1];
+        const nextCursor = hasNext && last ? encodeCursor(keys, last, 'next') : null;
+        const previousCursor = hasPrevious && first ? encodeCursor(keys, first, 'prev') : null;
+        const products = pageProducts.map(product => {
+            internalFields.forEach(field => delete product[field]);
+            return product;
+        });
 
-        res.status(200).json({ products, totalItems });
+        res.status(200).json({ products, totalItems, facets: facetCounts, nextCursor, previousCursor, version });
     } catch (error) {
+        if (error instanceof FilterValidationError) {
+            return res.status(400).json({ message: error.message });
+        }
         console.error('Error filtering products:', error);
         res.status(500).json({ message: 'Failed to filter products' });
     }
 };
+
+
+// Returns up to `limit` distinct values of a field containing the term, ignoring case.
+// Values starting with the term come first, then values are ordered alphabetically,
+// like the suggestions of the client-side strategy.
+async function suggestValues(field, term, limit) {
+    const pattern = escapeRegex(term);
+    const groups = await Product.aggregate([
+        { $match: { [field]: { $regex: pattern, $options: 'i' } } },
+        { $group: { _id: `$${field}` } },
+        {
+            $addFields: {
+                isPrefix: { $regexMatch: { input: '$_id', regex: `^${pattern}`, options: 'i' } },
+                lower: { $toLower: '$_id' }
+            }
+        },
+        { $sort: { isPrefix: -1, lower: 1, _id: 1 } },
+        { $limit: limit }
+    ]);
+    return groups.map(group => group._id);
+}
+
+// Counts the products in equal-width price intervals between the lowest and highest price
+async function countPrices(min, max) {
+    const width = (max - min) / PRICE_HISTOGRAM_BINS;
+    const bin = width > 0
+        ? { $min: [{ $floor: { $divide: [{ $subtract: ['$price', min] }, width] } }, PRICE_HISTOGRAM_BINS - 1] }
+        : 0;
+    const groups = await Product.aggregate([
+        { $match: { price: { $type: 'number' } } },
+        { $group: { _id: bin, count: { $sum: 1 } } }
+    ]);
+    const histogram = new Array(PRICE_HISTOGRAM_BINS).fill(0);
+    groups.forEach(group => histogram[group._id] = group.count);
+    return histogram;
+}
+
+// Describes the catalog in a single request, so that clients can pick a filtering strategy and
+// offer the filter options without downloading the products: their number, the distinct categories
+// and tags, the price range and how prices are distributed in it.
+exports.getCatalogMetadata = async (req, res) => {
+    try {
+        const [[summary], tags] = await Promise.all([Product.aggregate([
+            {
+                $group: {
+                    _id: null,
+                    count: { $sum: 1 },
+                    categories: { $addToSet: '$category' },
+                    minPrice: { $min: '$price' },
+                    maxPrice: { $max: '$price' }
+                }
+            }
+        ]), Product.distinct('tags')]);
+        if (!summary) {
+            return res.status(200).json({ count: 0, categories: [], tags: [], priceRange: null, priceHistogram: [] });
+        }
+
+        const hasPrices = typeof summary.minPrice === 'number' && typeof summary.maxPrice === 'number';
+        res.status(200).json({
+            count: summary.count,
+            categories: summary.categories.filter(category => typeof category === 'string' && category !== '').sort(),
+            tags: tags.filter(tag => typeof tag === 'string' && tag !== '').sort(),
+            priceRange: hasPrices ? { min: summary.minPrice, max: summary.maxPrice } : null,
+            priceHistogram: hasPrices ? await countPrices(summary.minPrice, summary.maxPrice) : []
+        });
+    } catch (error) {
+        console.error('Error describing the catalog:', error);
+        res.status(500).json({ message: 'Failed to describe the catalog' });
+    }
+};
+
+// Suggests product names and categories containing the search term, for search-as-you-type
+exports.suggestProducts = async (req, res) => {
+    try {
+        const term = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+        const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || DEFAULT_SUGGESTIONS, 1), MAX_SUGGESTIONS);
+        if (!term) {
+            return res.status(200).json({ names: [], categories: [] });
+        }
+
+        const [names, categories] = await Promise.all([
+            suggestValues('name', term, limit),
+            suggestValues('category', term, Math.min(limit, CATEGORY_SUGGESTIONS))
+        ]);
+
+        res.status(200).json({ names, categories });
+    } catch (error) {
+        console.error('Error suggesting products:', error);
+        res.status(500).json({ message: 'Failed to suggest products' });
+    }
+};
+
+// Returns the products created or updated, and the ids of the products deleted, since a catalog
+// version, so that clients holding a copy of the catalog refresh it without downloading it again.
+// Without a version, or with one older than the deletions remembered, the whole catalog is returned
+// and flagged as `full`. The returned version is read before the queries run, so that changes made
+// meanwhile are listed again next time rather than missed.
+exports.getProductChanges = async (req, res) => {
+    try {
+        const now = new Date();
+        const since = parseVersion(req.query.since);
+        const full = since === null || isExpiredVersion(since, now);
+
+        const [products, deletions] = await Promise.all([
+            Product.find(full ? {} : { updatedAt: { $gte: since } }),
+            full ? [] : DeletedProduct.find({ deletedAt: { $gte: since } }, 'productId').lean()
+        ]);
+
+        res.status(200).json({
+            version: toVersion(now),
+            full,
+            products,
+            deleted: deletions.map(deletion => deletion.productId)
+        });
+    } catch (error) {
+        if (error instanceof FilterValidationError) {
+            return res.status(400).json({ message: error.message });
+        }
+        console.error('Error listing product changes:', error);
+        res.status(500).json({ message: 'Failed to list product changes' });
+    }
+};
+
+// Runs the writes of a bulk upsert unordered, so that a failing write does not stop the others, and returns
+// the errors of the failed writes keyed by the id of their product. The errors are matched by id rather than
+// by their index, which counts the writes in the order Mongoose sends them rather than the given one.
+async function bulkWriteProducts(operations) {
+    try {
+        await Product.bulkWrite(operations, { ordered: false });
+        return new Map();
+    } catch (error) {
+        if (!(error instanceof mongoose.mongo.MongoBulkWriteError)) {
+            throw error;
+        }
+        console.error('Error writing imported products:', error);
+        return new Map(error.writeErrors.map(writeError => {
+            const operation = writeError.getOperation();
+            return [String(operation.q?._id ?? operation._id), writeError];
+        }));
+    }
+}
+
+// Creates or updates products in one request, for catalog imports. A product with an `id` updates
+// that product; otherwise it updates the product of the same name, ignoring case, or is created.
+// New products are validated like on creation, updates only on the attributes they set. The rejected
+// products are reported with their index in the request, and the others are still written: among them
+// a name held by several products, which only an id tells apart, and a product written by an earlier
+// row, reported with the index of that row in `duplicateOf`. A product the database fails to write, e.g.
+// because it breaks a unique index, is reported too, and the others are still counted and searchable.
+exports.upsertProducts = async (req, res) => {
+    const items = req.body?.products;
+    if (!Array.isArray(items) || items.length === 0 || items.length > MAX_BULK_PRODUCTS) {
+        return res.status(400).json({ message: `Expected between 1 and ${MAX_BULK_PRODUCTS} products` });
+    }
+    try {
+        const failed = [];
+        const rows = [];
+        items.forEach((item, index) => {
+            const values = Object.fromEntries(PRODUCT_FIELDS.filter(field => item?.[field] !== undefined).map(field => [field, item[field]]));
+            const id = item?.id === undefined || item.id === null || item.id === '' ? null : String(item.id);
+            if (id !== null && !mongoose.Types.ObjectId.isValid(id)) {
+                failed.push({ index, message: 'Product not found' });
+                return;
+            }
+            // Cast and trimmed values, validated once it is known whether they create or update a product
+            rows.push({ index, id, product: new Product(values), fields: Object.keys(values) });
+        });
+
+        const nameKey = (name) => (typeof name === 'string' ? name.toLowerCase() : null);
+        const existing = await Product.find({
+            $or: [
+                { _id: { $in: rows.filter(row => row.id).map(row => row.id) } },
+                { name: { $in: rows.filter(row => !row.id && nameKey(row.product.name)).map(row => row.product.name) } }
+            ]
+        }, 'name').collation(NAME_COLLATION).lean();
+        const byId = new Map(existing.map(product => [String(product._id), product]));
+        const byName = new Map();
+        existing.forEach(product => byName.set(nameKey(product.name), [...(byName.get(nameKey(product.name)) ?? []), product]));
+
+        const operations = [];
+        const writes = [];
+        // The index of the row writing each product, keyed by id, or by name for the products created
+        const firstRows = new Map();
+        for (const { index, id, product, fields } of rows) {
+            const matches = id ? [byId.get(id)].filter(Boolean) : byName.get(nameKey(product.name)) ?? [];
+            const target = matches.length === 1 ? matches[0] : null;
+            const error = matches.length > 1 ? null : product.validateSync(target ? fields : undefined);
+            const key = target ? String(target._id) : nameKey(product.name);
+            if (id && !target) {
+                failed.push({ index, message: 'Product not found' });
+            } else if (matches.length > 1) {
+                failed.push({ index, message: `${matches.length} products are named ${product.name}: give the id of the one to update` });
+            } else if (error) {
+                failed.push({ index, message: Object.values(error.errors).map(e => e.message).join(' ') });
+            } else if (target && fields.length === 0) {
+                failed.push({ index, message: 'No attribute to update' });
+            } else if (firstRows.has(key)) {
+                const duplicateOf = firstRows.get(key);
+                failed.push({ index, message: `Duplicate of the product at index ${duplicateOf}`, duplicateOf });
+            } else {
+                firstRows.set(key, index);
+                const values = Object.fromEntries(fields.map(field => [field, product[field]]));
+                const _id = target ? target._id : product._id;
+                writes.push({ index, _id, values, isUpdate: Boolean(target) });
+                if (target) {
+                    operations.push({ updateOne: { filter: { _id }, update: { $set: { ...values, ...toSearchTokensUpdate(values), ...toSortKeysUpdate(values) } } } });
+                } else {
+                    operations.push({ insertOne: { document: { _id, ...values, searchTokens: toSearchTokens(values), sortKeys: toSortKeys(values) } } });
+                }
+            }
+        }
+        const writeErrors = operations.length > 0 ? await bulkWriteProducts(operations) : new Map();
+        const written = writes.filter(({ index, _id }) => {
+            const writeError = writeErrors.get(String(_id));
+            if (writeError) {
+                failed.push({ index, message: writeError.code === 11000 ? 'Conflicts with an existing product' : 'Could not be saved' });
+            }
+            return !writeError;
+        });
+        if (written.length > 0) {
+            await SearchWord.register(written.map(({ values }) => toSearchTokens(values)));
+        }
+
+        res.status(200).json({
+            created: written.filter(write => !write.isUpdate).length,
+            updated: written.filter(write => write.isUpdate).length,
+            failed: failed.sort((a, b) => a.index - b.index)
+        });
+    } catch (error) {
+        console.error('Error importing products:', error);
+        res.status(500).json({ message: 'Failed to import products' });
+    }
+};
@@ -0,0 +1,19 @@
+const mongoose = require('mongoose');
+const { DELETION_RETENTION_MS } = require('../utils/catalogVersion');
+
+// Records the deletion of a product, so that clients holding a copy of the catalog can drop it.
+// Records expire after the retention period.
+const deletedProductSchema = new mongoose.Schema({
+  productId: {
+    type: String,
+    required: true
+  },
+  deletedAt: {
+    type: Date,
+    default: Date.now,
+    expires: DELETION_RETENTION_MS / 1000
+  },
+});
+
+const DeletedProduct = mongoose.model('DeletedProduct', deletedProductSchema);
+module.exports = DeletedProduct;
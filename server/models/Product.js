@@ -1,17 +1,123 @@
 const mongoose = require('mongoose');
+const SearchWord = require('./SearchWord');
+const { SEARCH_FIELDS, toSearchTokens, toSearchTokensUpdate } = require('../utils/searchTokens');
+const { SORTED_STRING_FIELDS, toSortKeys, toSortKeysUpdate } = require('../utils/sortKeys');
+
+// The fields the derived fields (search tokens and sort keys) are computed from
+const SOURCE_FIELDS = [...new Set([...SEARCH_FIELDS, ...SORTED_STRING_FIELDS])];
+
+// Products are read and written in batches of this size when their derived fields are backfilled
+const BACKFILL_BATCH_SIZE = 500;
 
 const productSchema = new mongoose.Schema({
   name: {
     type: String,
-    required: true
+    required: true,
+    trim: true
   },
   description: String,
   price: {
     type: Number,
-    required: true
+    required: true,
+    min: 0
   },
   category: String,
+  imgUrl: String,
+  // Labels such as `wireless`: a product has any number of them, so filters can require all of the selected ones
+  tags: [String],
+  // The words of the searched fields, derived by the hooks below for typo-tolerant searches, and never returned
+  searchTokens: {
+    type: new mongoose.Schema(Object.fromEntries(SEARCH_FIELDS.map(field => [field, [String]])), { _id: false }),
+    select: false
+  },
+  // The lowercased string fields, derived by the hooks below to sort case-insensitively with an index, and never returned
+  sortKeys: {
+    type: new mongoose.Schema(Object.fromEntries(SORTED_STRING_FIELDS.map(field => [field, String])), { _id: false }),
+    select: false
+  },
+}, {
+  // Stamp `createdAt` and `updatedAt`, so that clients can fetch the products changed since their copy
+  timestamps: true,
+  // Expose the `id` virtual so that clients can sort and link products by a stable identifier
+  toJSON: {
+    virtuals: true,
+    transform: (doc, ret) => {
+      delete ret.searchTokens;
+      delete ret.sortKeys;
+      return ret;
+    }
+  },
+});
+
+SEARCH_FIELDS.forEach(field => productSchema.index({ [`searchTokens.${field}`]: 1 }));
+// The sorts offered by the client, each ending with the id tie-breaker, in both directions
+productSchema.index({ price: 1, _id: 1 });
+productSchema.index({ price: -1, _id: 1 });
+productSchema.index({ 'sortKeys.name': 1, _id: 1 });
+productSchema.index({ 'sortKeys.name': -1, _id: 1 });
+productSchema.index({ 'sortKeys.category': 1, price: 1, _id: 1 });
+
+// Derive the search tokens and sort keys of new products, and of products whose source fields changed
+productSchema.pre('save', function () {
+  this.$locals.hasNewTokens = this.isNew || SEARCH_FIELDS.some(field => this.isModified(field));
+  if (this.$locals.hasNewTokens) {
+    this.searchTokens = toSearchTokens(this);
+  }
+  if (this.isNew || SORTED_STRING_FIELDS.some(field => this.isModified(field))) {
+    this.sortKeys = toSortKeys(this);
+  }
 });
 
+productSchema.post('save', async function () {
+  if (this.$locals.hasNewTokens) {
+    await SearchWord.register([this.searchTokens]);
+  }
+});
+
+// Derive the search tokens and sort keys of the source fields an update sets or removes, from the values
+// the schema stores (e.g. trimmed), ignoring derived fields sent by clients
+productSchema.pre('findOneAndUpdate', function () {
+  const update = this.getUpdate();
+  [update, update.$set ?? {}].forEach(values => {
+    delete values.searchTokens;
+    delete values.sortKeys;
+  });
+  const changed = { ...update, ...update.$set };
+  const values = Object.fromEntries(SOURCE_FIELDS
+    .filter(field => changed[field] !== undefined || field in (update.$unset ?? {}))
+    .map(field => [field, changed[field] === undefined ? null : productSchema.path(field).applySetters(changed[field], null)]));
+  const derived = { ...toSearchTokensUpdate(values), ...toSortKeysUpdate(values) };
+  if (Object.keys(derived).length > 0) {
+    this.set(derived);
+  }
+});
+
+productSchema.post('findOneAndUpdate', async function () {
+  const update = this.getUpdate().$set ?? {};
+  const tokens = Object.fromEntries(SEARCH_FIELDS
+    .filter(field => update[`searchTokens.${field}`] !== undefined)
+    .map(field => [field, update[`searchTokens.${field}`]]));
+  await SearchWord.register([tokens]);
+});
+
+// Derives the search tokens and sort keys of the products stored without them, e.g. inserted by the
+// migration or before these fields existed, and adds their words to the vocabulary
+productSchema.statics.backfillDerivedFields = async function () {
+  let batch = [];
+  const flush = async () => {
+    await this.bulkWrite(batch.map(({ _id, ...derived }) => ({
+      updateOne: { filter: { _id }, update: { $set: derived }, timestamps: false }
+    })), { ordered: false });
+    await SearchWord.register(batch.map(product => product.searchTokens));
+    batch = [];
+  };
+  const missing = { $or: [{ searchTokens: { $exists: false } }, { sortKeys: { $exists: false } }] };
+  for await (const product of this.find(missing, SOURCE_FIELDS.join(' ')).lean()) {
+    batch.push({ _id: product._id, searchTokens: toSearchTokens(product), sortKeys: toSortKeys(product) });
+    if (batch.length === BACKFILL_BATCH_SIZE) await flush();
+  }
+  if (batch.length > 0) await flush();
+};
+
 const Product = mongoose.model('Product', productSchema);
 module.exports = Product;
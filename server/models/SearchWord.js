@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+// A word of a searched field of the catalog, for typo-tolerant searches (see utils/searchTokens.js).
+// The vocabulary only grows: the words no product holds anymore simply match no product.
+const searchWordSchema = new mongoose.Schema({
+  field: {
+    type: String,
+    required: true
+  },
+  word: {
+    type: String,
+    required: true
+  },
+});
+
+searchWordSchema.index({ field: 1, word: 1 }, { unique: true });
+
+// The vocabulary read last, kept until words are added: as it only grows, its size tells whether it changed
+let cached = { size: -1, words: {} };
+
+// Adds the words of products to the vocabulary, given as the `searchTokens` of each product
+searchWordSchema.statics.register = async function (searchTokens) {
+  const entries = new Map();
+  searchTokens.forEach(tokens => Object.entries(tokens ?? {}).forEach(([field, words]) =>
+    words.forEach(word => entries.set(`${field}:${word}`, { field, word }))));
+  if (entries.size === 0) return;
+  await this.bulkWrite([...entries.values()].map(entry => ({
+    updateOne: { filter: entry, update: { $setOnInsert: entry }, upsert: true }
+  })), { ordered: false });
+};
+
+// Returns the words of each searched field, e.g. { name: ['iphone', ...], category: [...], ... }
+searchWordSchema.statics.load = async function () {
+  const size = await this.estimatedDocumentCount();
+  if (size !== cached.size) {
+    const words = {};
+    const entries = await this.find({}, 'field word').lean();
+    entries.forEach(({ field, word }) => (words[field] ??= []).push(word));
+    cached = { size, words };
+  }
+  return cached.words;
+};
+
+const SearchWord = mongoose.model('SearchWord', searchWordSchema);
+module.exports = SearchWord;
@@ -1,5 +1,7 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const Product = require('../models/Product');
+const DeletedProduct = require('../models/DeletedProduct');
 const router = express.Router();
 const productController = require('../controllers/productController');
 
@@ -10,6 +12,9 @@ router.post('/products', async (req, res) => {
         const savedProduct = await newProduct.save();
         res.status(201).json(savedProduct);
     } catch (error) {
+        if (error instanceof mongoose.Error.ValidationError) {
+            return res.status(400).json({ error: error.message });
+        }
         res.status(500).json({ error: 'Failed to create product' });
     }
 });
@@ -48,6 +53,12 @@ router.post('/products', async (req, res) => {
  *                     type: string
  *                     description: The product image URL.
  *                     example: http://example.com/image.jpg
+ *                   tags:
+ *                     type: array
+ *                     description: The product tags.
+ *                     items:
+ *                       type: string
+ *                     example: ["smart", "wireless"]
  *       500:
  *         description: Failed to fetch products.
  */
@@ -91,12 +102,314 @@ router.get('/products/count', async (req, res) => {
     }
 });
 
-// Update a product
+/**
+ * @swagger
+ * /api/products/metadata:
+ *   get:
+ *     summary: Describe the catalog without listing its products.
+ *     description: >
+ *       Returns the number of products, the distinct categories and tags (sorted), the lowest and highest price, and the
+ *       number of products in 100 equal-width price intervals between them, so that clients can pick a filtering
+ *       strategy and offer the filter options in a single request.
+ *     tags:
+ *     - Products
+ *     responses:
+ *       200:
+ *         description: The catalog metadata.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 count:
+ *                   type: number
+ *                   example: 90
+ *                 categories:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ["Electronics", "Fashion"]
+ *                 tags:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ["smart", "wireless"]
+ *                 priceRange:
+ *                   type: object
+ *                   nullable: true
+ *                   properties:
+ *                     min:
+ *                       type: number
+ *                       example: 9
+ *                     max:
+ *                       type: number
+ *                       example: 1999
+ *                 priceHistogram:
+ *                   type: array
+ *                   description: The number of products in each price interval, from the lowest to the highest price.
+ *                   items:
+ *                     type: number
+ *       500:
+ *         description: Failed to describe the catalog.
+ */
+router.get('/products/metadata', productController.getCatalogMetadata);
+
+/**
+ * @swagger
+ * /api/products/bulk:
+ *   post:
+ *     summary: Create or update products in bulk, for catalog imports.
+ *     description: >
+ *       A product with an `id` updates that product; otherwise it updates the product with the same name,
+ *       ignoring case, or is created. New products are validated like on creation, updates only on the
+ *       attributes they set. The rejected products are reported with their index in the request, and the
+ *       others are still written. A name held by several products is rejected, as only an id tells them
+ *       apart, and so is a product written by an earlier row, whose index is given in `duplicateOf`.
+ *       A product the database fails to write, e.g. because it conflicts with an existing product, is
+ *       reported too, and the counts only include the products written.
+ *     tags:
+ *     - Products
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               products:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 500
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     name:
+ *                       type: string
+ *                       example: iPhone
+ *                     price:
+ *                       type: number
+ *                       example: 999
+ *                     category:
+ *                       type: string
+ *                       example: Electronics
+ *                     description:
+ *                       type: string
+ *                     imgUrl:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: The number of products created and updated, and the rejected ones.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 created:
+ *                   type: integer
+ *                   example: 12
+ *                 updated:
+ *                   type: integer
+ *                   example: 3
+ *                 failed:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       index:
+ *                         type: integer
+ *                         example: 4
+ *                       message:
+ *                         type: string
+ *                         example: Path `price` (-1) is less than minimum allowed value (0).
+ *                       duplicateOf:
+ *                         type: integer
+ *                         description: The index of the earlier row writing the same product, for duplicates.
+ *                         example: 1
+ *       400:
+ *         description: The request does not hold between 1 and 500 products.
+ *       500:
+ *         description: Failed to import the products.
+ */
+router.post('/products/bulk', productController.upsertProducts);
+
+/**
+ * @swagger
+ * /api/products/suggest:
+ *   get:
+ *     summary: Suggest product names and categories for search-as-you-type.
+ *     description: >
+ *       Returns the distinct product names and categories containing the search term, ignoring case.
+ *       Values starting with the term come first, then values are ordered alphabetically.
+ *     tags:
+ *     - Products
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The search term typed so far.
+ *         example: "pho"
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 20
+ *           default: 8
+ *         description: The maximum number of product names to return. At most 3 categories are returned.
+ *     responses:
+ *       200:
+ *         description: The suggested product names and categories.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 names:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ["Phone", "Smartphone case"]
+ *                 categories:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ["Phones"]
+ *       500:
+ *         description: Failed to suggest products.
+ */
+router.get('/products/suggest', productController.suggestProducts);
+
+/**
+ * @swagger
+ * /api/products/changes:
+ *   get:
+ *     summary: List the products changed since a catalog version.
+ *     description: >
+ *       Returns the products created or updated, and the ids of the products deleted, since the given version,
+ *       so that clients holding a copy of the catalog refresh it without downloading it again. Without a version,
+ *       or with a version older than the deletions remembered (30 days), the whole catalog is returned and `full` is true.
+ *     tags:
+ *     - Products
+ *     parameters:
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *         description: The `version` of a previous response (of this endpoint or of /api/products/filter).
+ *         example: "2024-05-01T12:00:00.000Z"
+ *     responses:
+ *       200:
+ *         description: The changes since the version.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 version:
+ *                   type: string
+ *                   description: The version of the catalog including these changes, to send as `since` next time.
+ *                   example: "2024-05-02T08:30:00.000Z"
+ *                 full:
+ *                   type: boolean
+ *                   description: Whether `products` is the whole catalog, replacing the copy of the client.
+ *                   example: false
+ *                 products:
+ *                   type: array
+ *                   description: The products created or updated since the version.
+ *                 deleted:
+ *                   type: array
+ *                   description: The ids of the products deleted since the version.
+ *                   items:
+ *                     type: string
+ *                   example: ["661f1c2e9b1d8a0012345678"]
+ *       400:
+ *         description: Bad request if the version is not a valid date.
+ *       500:
+ *         description: Failed to list product changes.
+ */
+router.get('/products/changes', productController.getProductChanges);
+
+/**
+ * @swagger
+ * /api/products/{id}:
+ *   get:
+ *     summary: Retrieve a single product
+ *     description: Retrieve a product by its id, for the product detail page.
+ *     tags:
+ *     - Products
+ *     parameters:
+ *     - in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         type: string
+ *       description: The product id.
+ *     responses:
+ *       200:
+ *         description: The product.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                   example: 66b1f0c2a4e5d3b2c1a09f87
+ *                 name:
+ *                   type: string
+ *                   example: iPhone
+ *                 description:
+ *                   type: string
+ *                   example: A smartphone.
+ *                 price:
+ *                   type: number
+ *                   example: 999
+ *                 category:
+ *                   type: string
+ *                   example: Electronics
+ *                 imgUrl:
+ *                   type: string
+ *                   example: http://example.com/image.jpg
+ *                 tags:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ["smart", "wireless"]
+ *       404:
+ *         description: No product has this id.
+ *       500:
+ *         description: Failed to fetch the product.
+ */
+router.get('/products/:id', async (req, res) => {
+    try {
+        const product = mongoose.Types.ObjectId.isValid(req.params.id) ? await Product.findById(req.params.id) : null;
+        if (!product) {
+            return res.status(404).json({ error: 'Product not found' });
+        }
+        res.json(product);
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to fetch product' });
+    }
+});
+
+// Update a product, validating the changed fields like on creation
 router.put('/products/:id', async (req, res) => {
     try {
-        const updatedProduct = await Product.findByIdAndUpdate(req.params.id, req.body, { new: true });
+        const updatedProduct = mongoose.Types.ObjectId.isValid(req.params.id)
+            ? await Product.findByIdAndUpdate(req.params.id, req.body, { new: true, runValidators: true })
+            : null;
+        if (!updatedProduct) {
+            return res.status(404).json({ error: 'Product not found' });
+        }
         res.json(updatedProduct);
     } catch (error) {
+        if (error instanceof mongoose.Error.ValidationError || error instanceof mongoose.Error.CastError) {
+            return res.status(400).json({ error: error.message });
+        }
         res.status(500).json({ error: 'Failed to update product' });
     }
 });
@@ -104,7 +417,11 @@ router.put('/products/:id', async (req, res) => {
 // Delete a product
 router.delete('/products/:id', async (req, res) => {
     try {
-        await Product.findByIdAndDelete(req.params.id);
+        const deletedProduct = await Product.findByIdAndDelete(req.params.id);
+        if (deletedProduct) {
+            // Remembered so that clients holding a copy of the catalog drop the product too
+            await DeletedProduct.create({ productId: deletedProduct.id });
+        }
         res.json({ message: 'Product deleted' });
     } catch (error) {
         res.status(500).json({ error: 'Failed to delete product' });
@@ -136,31 +453,89 @@ router.delete('/products/:id', async (req, res) => {
  *                 example: 1
  *               pageSize:
  *                 type: integer
- *                 description: The number of products to display per page.
+ *                 description: The number of products to display per page, at most 500.
  *                 example: 10
  *               filters:
+ *                 type: object
+ *                 description: >
+ *                   The root of a filter expression tree. A group combines its members with "and", "or",
+ *                   or "not" (negation of their conjunction); members are either conditions or nested groups.
+ *                 properties:
+ *                   logic:
+ *                     type: string
+ *                     enum: [and, or, not]
+ *                     example: "and"
+ *                   filters:
+ *                     type: array
+ *                     description: Filter conditions or nested groups.
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         key:
+ *                           type: string
+ *                           description: The field on which to apply the filter (e.g., "price", "category", "tags").
+ *                           example: "price"
+ *                         values:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           example: ["500", "1000"]
+ *                         type:
+ *                           type: string
+ *                           description: The type of filter ("value", "range", "greater", "smaller" or "multiselect").
+ *                           example: "range"
+ *                         logic:
+ *                           type: string
+ *                           description: >
+ *                             For conditions, whether "all" ("and") or "any" ("or") of the values must match; "and" is only accepted
+ *                             on fields holding a list of values, such as "tags", and answered with a 400 on the others. For groups, how the members are combined.
+ *                           example: "or"
+ *                         filters:
+ *                           type: array
+ *                           description: Members of a nested group.
+ *                           items:
+ *                             type: object
+ *               sort:
  *                 type: array
- *                 description: A list of filters to apply.
+ *                 description: >
+ *                   Sort keys in priority order. "relevance" ranks products by how well they match the search term.
+ *                   Products are always ordered by id last, so that page boundaries are stable.
  *                 items:
  *                   type: object
  *                   properties:
- *                     key:
+ *                     field:
  *                       type: string
- *                       description: The field on which to apply the filter (e.g., "price", "category").
  *                       example: "price"
- *                     values:
- *                       type: array
- *                       items:
- *                         type: string
- *                       example: ["500", "1000"]
- *                     type:
- *                       type: string
- *                       description: The type of filter (e.g., "range" for price, "multiselect" for categories).
- *                       example: "range"
- *                     logic:
+ *                     direction:
  *                       type: string
- *                       description: Whether the filter applies with "and" or "or" logic.
- *                       example: "and"
+ *                       enum: [asc, desc]
+ *                       example: "asc"
+ *               facets:
+ *                 type: array
+ *                 description: Fields to return disjunctive facet counts for (each facet ignores its own filters).
+ *                 items:
+ *                   type: string
+ *                 example: ["category"]
+ *               searchOptions:
+ *                 type: object
+ *                 description: >
+ *                   How the search term is matched. "exact" (the default) looks for the whole term in the searched fields,
+ *                   "fuzzy" matches every word of the term while ignoring accents and tolerating floor(length * threshold) typos per word.
+ *                 properties:
+ *                   mode:
+ *                     type: string
+ *                     enum: [exact, fuzzy]
+ *                     example: "fuzzy"
+ *                   threshold:
+ *                     type: number
+ *                     description: Typos tolerated per character of a search word, between 0 and 1.
+ *                     example: 0.25
+ *               cursor:
+ *                 type: string
+ *                 description: >
+ *                   A nextCursor or previousCursor from a previous response, to fetch the page after or before it
+ *                   (keyset pagination) instead of currentPage. It must be used with the same sort.
+ *                 example: "eyJzIjoicHJpY2U6MSxpZDoxIiwiZCI6Im5leHQiLCJ2IjpbOTk5LCI2NjFmLi4uIl19"
  *     responses:
  *       200:
  *         description: A list of filtered products and the total number of products that match the criteria.
@@ -176,8 +551,23 @@ router.delete('/products/:id', async (req, res) => {
  *                   type: integer
  *                   description: The total number of products that match the filtering criteria.
  *                   example: 50
+ *                 facets:
+ *                   type: object
+ *                   description: Number of matching products per value of each requested facet.
+ *                   example: { "category": { "Electronics": 12, "Fashion": 4 } }
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor to the next page, or null on the last page.
+ *                 previousCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor to the previous page, or null on the first page.
+ *                 version:
+ *                   type: string
+ *                   description: The catalog version the results reflect, usable as `since` with /api/products/changes.
  *       400:
- *         description: Bad request if the payload is malformed.
+ *         description: Bad request if the payload is malformed, or if the cursor is invalid or was created for another sort.
  *       500:
  *         description: Internal server error if filtering fails.
  */
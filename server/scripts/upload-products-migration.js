@@ -2,16 +2,7 @@ const fs = require('fs');
 const mongoose = require('mongoose');
 require('dotenv').config(); // Load environment variables
 
-// MongoDB Product Schema (Adjust based on your product model)
-const productSchema = new mongoose.Schema({
-  name: String,
-  description: String,
-  price: Number,
-  category: String,
-  imgUrl: String,
-});
-
-const Product = mongoose.model('Product', productSchema);
+const Product = require('../models/Product');
 
 // Load mock products from the JSON file
 const mockProducts = JSON.parse(fs.readFileSync('./scripts/product-data.json', 'utf-8'));
@@ -31,6 +22,8 @@ async function uploadMockProducts() {
 
     // Insert mock products into the database
     await Product.insertMany(mockProducts);
+    // Derive the search tokens and sort keys of the products
+    await Product.backfillDerivedFields();
     console.log('Mock products uploaded successfully!');
   } catch (error) {
     console.error('Error uploading mock products:', error);
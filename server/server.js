@@ -3,6 +3,7 @@ const mongoose = require('mongoose');
 const dotenv = require('dotenv');
 const cors = require('cors');
 const setupSwagger = require('./swagger');
+const Product = require('./models/Product');
 
 // Load environment variables
 dotenv.config();
@@ -14,6 +15,8 @@ app.use(express.json()); // Middleware to parse JSON data
 const mongoURI = process.env.MONGO_URI || 'your-mongodb-atlas-connection-string';
 mongoose.connect(mongoURI)
   .then(() => console.log('Connected to MongoDB Atlas'))
+  // Products stored before the derived fields existed get their search tokens and sort keys
+  .then(() => Product.backfillDerivedFields())
   .catch(err => console.log('Failed to connect to MongoDB Atlas:', err));
 
 
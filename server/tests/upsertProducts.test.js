@@ -0,0 +1,99 @@
+// tests/upsertProducts.test.js
+
+const { describe, it, beforeEach, afterEach, mock } = require('node:test');
+const assert = require('node:assert');
+const mongoose = require('mongoose');
+const Product = require('../models/Product');
+const SearchWord = require('../models/SearchWord');
+const { upsertProducts } = require('../controllers/productController');
+
+const existing = { _id: new mongoose.Types.ObjectId(), name: 'Desk' };
+
+// A write error as the driver reports it, for the write of the given operation
+const writeError = (code, operation) => ({ code, errmsg: `E${code}`, getOperation: () => operation });
+
+// Calls the controller with the given products, and resolves with the status and body of its response
+async function upsert(products) {
+    const response = {};
+    const res = {
+        status(code) {
+            response.status = code;
+            return this;
+        },
+        json(body) {
+            response.body = body;
+        }
+    };
+    await upsertProducts({ body: { products } }, res);
+    return response;
+}
+
+describe('upsertProducts', () => {
+    let registered;
+
+    beforeEach(() => {
+        registered = [];
+        mock.method(Product, 'find', () => ({ collation: () => ({ lean: async () => [existing] }) }));
+        mock.method(SearchWord, 'register', async (searchTokens) => { registered.push(...searchTokens); });
+        mock.method(console, 'error', () => { });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('writes the valid products and reports the invalid ones', async () => {
+        mock.method(Product, 'bulkWrite', async () => ({}));
+
+        const { status, body } = await upsert([
+            { name: 'Lamp', price: 20 },
+            { id: String(existing._id), price: 150 },
+            { name: 'Chair' }
+        ]);
+
+        assert.strictEqual(status, 200);
+        assert.deepStrictEqual(body, { created: 1, updated: 1, failed: [{ index: 2, message: 'Path `price` is required.' }] });
+        assert.strictEqual(Product.bulkWrite.mock.callCount(), 1);
+        assert.strictEqual(registered.length, 2);
+    });
+
+    it('reports the products the database fails to write, and still counts and registers the others', async () => {
+        mock.method(Product, 'bulkWrite', async (operations) => {
+            const insert = operations.find(operation => operation.insertOne?.document.name === 'Chair').insertOne.document;
+            const update = operations.find(operation => operation.updateOne).updateOne;
+            throw new mongoose.mongo.MongoBulkWriteError({
+                message: 'E11000 duplicate key error',
+                code: 11000,
+                writeErrors: [writeError(11000, insert), writeError(121, { q: update.filter, u: update.update })]
+            }, {});
+        });
+
+        const { status, body } = await upsert([
+            { name: 'Lamp', price: 20 },
+            { name: 'Chair', price: 40 },
+            { id: String(existing._id), price: 150 },
+            { name: 'Sofa', price: 300 }
+        ]);
+
+        assert.strictEqual(status, 200);
+        assert.deepStrictEqual(body, {
+            created: 2,
+            updated: 0,
+            failed: [
+                { index: 1, message: 'Conflicts with an existing product' },
+                { index: 2, message: 'Could not be saved' }
+            ]
+        });
+        assert.deepStrictEqual(registered.map(tokens => tokens.name), [['lamp'], ['sofa']]);
+    });
+
+    it('fails the request when the database cannot be written at all', async () => {
+        mock.method(Product, 'bulkWrite', async () => { throw new Error('Connection lost'); });
+
+        const { status, body } = await upsert([{ name: 'Lamp', price: 20 }]);
+
+        assert.strictEqual(status, 500);
+        assert.deepStrictEqual(body, { message: 'Failed to import products' });
+        assert.strictEqual(registered.length, 0);
+    });
+});
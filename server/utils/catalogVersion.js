@@ -0,0 +1,26 @@
+// utils/catalogVersion.js
+// Catalog versions let clients holding a copy of the catalog fetch only what changed since they
+// got it. A version is the ISO date at which the catalog was read; changes are found by comparing
+// it with the `updatedAt` of products and the `deletedAt` of deletion records.
+const { FilterValidationError } = require('./filterQuery');
+
+// How long deletions are remembered. Clients whose copy is older get the whole catalog again.
+const DELETION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Returns the version of the catalog read at the given time
+const toVersion = (date) => date.toISOString();
+
+// Parses a version sent by a client, `null` when there is none
+function parseVersion(version) {
+    if (version === undefined || version === '') return null;
+    const date = typeof version === 'string' ? new Date(version) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+        throw new FilterValidationError('Invalid catalog version');
+    }
+    return date;
+}
+
+// Whether changes since a version can no longer be listed, because its deletions were forgotten
+const isExpiredVersion = (since, now) => now.getTime() - since.getTime() > DELETION_RETENTION_MS;
+
+module.exports = { DELETION_RETENTION_MS, toVersion, parseVersion, isExpiredVersion };
@@ -0,0 +1,69 @@
+// utils/cursor.js
+// Opaque cursors for keyset pagination: a cursor holds the sort values of the product a page
+// starts after (or ends before), so that pages do not shift when products are added or removed.
+const mongoose = require('mongoose');
+const { FilterValidationError } = require('./filterQuery');
+
+// Identifies the sort a cursor was created for, so that it is not reused with another sort
+const sortSignature = (keys) => keys.map(({ field, direction }) => `${field}:${direction}`).join(',');
+
+// Reads a field of a product, e.g. `sortKeys.name`
+const valueAt = (product, path) => path.split('.').reduce((value, key) => value?.[key], product);
+
+// Encodes the position of a product in the sorted result.
+// "next" cursors point after the product, "prev" cursors before it.
+function encodeCursor(keys, product, direction) {
+    const values = keys.map(({ path }) => (path === '_id' ? String(product._id) : valueAt(product, path) ?? null));
+    const payload = { s: sortSignature(keys), d: direction, v: values };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// Decodes a cursor created by encodeCursor for the same sort keys
+function decodeCursor(cursor, keys) {
+    let payload;
+    try {
+        payload = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    } catch (error) {
+        throw new FilterValidationError('Invalid cursor');
+    }
+    if (!payload || !Array.isArray(payload.v) || payload.v.length !== keys.length || (payload.d !== 'next' && payload.d !== 'prev')) {
+        throw new FilterValidationError('Invalid cursor');
+    }
+    if (payload.s !== sortSignature(keys)) {
+        throw new FilterValidationError('Cursor does not match the requested sort');
+    }
+
+    const values = payload.v.map((value, index) => {
+        if (keys[index].path !== '_id') return value;
+        if (!mongoose.Types.ObjectId.isValid(value)) throw new FilterValidationError('Invalid cursor');
+        return new mongoose.Types.ObjectId(value);
+    });
+    return { direction: payload.d, values };
+}
+
+// Builds the condition on a sorted field selecting the values after (or before) a cursor value.
+// Query comparisons only match values of the type compared with, and the schema gives every field a
+// single type, but missing values sort before any other: they are selected explicitly before a value,
+// and every value comes after a missing one. Returns null when no value can come before.
+function compareWith(path, value, isAfter) {
+    if (value === null) return isAfter ? { [path]: { $ne: null } } : null;
+    return isAfter ? { [path]: { $gt: value } } : { $or: [{ [path]: { $lt: value } }, { [path]: null }] };
+}
+
+// Builds the condition selecting the products after (or before, for "prev" cursors) the cursor
+// position in the sort order: (k1 > v1) or (k1 = v1 and k2 > v2) or ..., each comparison following
+// the direction of its key. Plain comparisons on the sorted fields let the sort index find the page.
+function buildKeysetMatch(keys, cursor) {
+    const alternatives = keys
+        .map(({ path, direction }, index) => {
+            const isAfter = (direction === 1) === (cursor.direction === 'next');
+            const comparison = compareWith(path, cursor.values[index], isAfter);
+            if (!comparison) return null;
+            const equalities = keys.slice(0, index).map((key, i) => ({ [key.path]: cursor.values[i] }));
+            return Object.assign({}, ...equalities, comparison);
+        })
+        .filter(alternative => alternative !== null);
+    return alternatives.length > 0 ? { $or: alternatives } : { _id: { $in: [] } };
+}
+
+module.exports = { encodeCursor, decodeCursor, buildKeysetMatch };
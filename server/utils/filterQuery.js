@@ -0,0 +1,112 @@
+// utils/filterQuery.js
+const Product = require('../models/Product');
+
+// Raised when the filter payload cannot be turned into a query
+class FilterValidationError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'FilterValidationError';
+    }
+}
+
+// Escapes user input so it can be used literally inside a regular expression
+const escapeRegex = (value) => String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toNumber = (value) => (value === null || value === undefined || value === '' ? NaN : Number(value));
+
+const isGroup = (node) => Array.isArray(node.filters);
+
+// Only attributes holding a list of values can hold all the options of a multiselect:
+// on a single-valued attribute such as `category`, "and" could never match two options
+const isMultiValued = (key) => Product.schema.path(key)?.instance === 'Array';
+
+// Builds the query for a single filter condition, or null when the condition has no usable values.
+// Mirrors the predicates of the client-side strategy so both strategies return the same products.
+function buildConditionQuery(condition) {
+    const { key, type } = condition;
+    const values = Array.isArray(condition.values) ? condition.values : [];
+
+    if (typeof key !== 'string' || key.startsWith('$')) {
+        throw new FilterValidationError(`Invalid filter key: ${key}`);
+    }
+
+    switch (type) {
+        case 'value': {
+            const value = values[0];
+            if (value === null || value === undefined || value === '') return null;
+            // Strings match case-insensitively on a substring, numbers on equality
+            const alternatives = [{ [key]: { $regex: escapeRegex(value), $options: 'i' } }];
+            const number = toNumber(value);
+            if (!isNaN(number)) alternatives.push({ [key]: number });
+            return { $or: alternatives };
+        }
+        case 'range': {
+            // Both bounds are inclusive and either of them may be omitted
+            const min = toNumber(values[0]);
+            const max = toNumber(values[1]);
+            const range = {};
+            if (!isNaN(min)) range.$gte = min;  // Minimum value
+            if (!isNaN(max)) range.$lte = max;  // Maximum value
+            return Object.keys(range).length > 0 ? { [key]: range } : null;
+        }
+        case 'greater': {
+            const bound = toNumber(values[0]);
+            return isNaN(bound) ? null : { [key]: { $gt: bound } };
+        }
+        case 'smaller': {
+            const bound = toNumber(values[0]);
+            return isNaN(bound) ? null : { [key]: { $lt: bound } };
+        }
+        case 'multiselect': {
+            if (values.length === 0) return null;
+            if (condition.logic === 'and' && !isMultiValued(key)) {
+                throw new FilterValidationError(`Filter key ${key} holds a single value: it cannot match all of the options`);
+            }
+            // "and" requires all the selected values, "or" any of them
+            const operator = condition.logic === 'and' ? '$all' : '$in';
+            return { [key]: { [operator]: values.map(String) } };
+        }
+        default:
+            throw new FilterValidationError(`Unsupported filter type: ${type}`);
+    }
+}
+
+// Builds the query for a filter expression tree, or null when the expression does not restrict the result.
+// Conditions without values and empty groups are treated as absent, like on the client.
+function buildFilterQuery(node) {
+    if (!node || typeof node !== 'object') return null;
+
+    if (!isGroup(node)) {
+        return buildConditionQuery(node);
+    }
+
+    const members = node.filters.map(buildFilterQuery).filter(query => query !== null);
+    if (members.length === 0) return null;
+
+    switch (node.logic) {
+        case 'and':
+            return members.length === 1 ? members[0] : { $and: members };
+        case 'or':
+            return members.length === 1 ? members[0] : { $or: members };
+        case 'not':
+            // Negates the conjunction of the members
+            return { $nor: [members.length === 1 ? members[0] : { $and: members }] };
+        default:
+            throw new FilterValidationError(`Unsupported filter group logic: ${node.logic}`);
+    }
+}
+
+// Removes every condition on the given key from a filter expression tree.
+// Used for disjunctive faceting, where the counts of a facet ignore the facet's own selection.
+function withoutKey(node, key) {
+    if (!node || typeof node !== 'object') return null;
+    if (!isGroup(node)) {
+        return node.key === key ? null : node;
+    }
+    return {
+        logic: node.logic,
+        filters: node.filters.map(member => withoutKey(member, key)).filter(member => member !== null)
+    };
+}
+
+module.exports = { buildFilterQuery, withoutKey, escapeRegex, FilterValidationError };
@@ -0,0 +1,86 @@
+// utils/productSearch.js
+const { escapeRegex, FilterValidationError } = require('./filterQuery');
+const { tokenize, tokenMatches } = require('./textSearch');
+const { SEARCH_FIELD_WEIGHTS, SEARCH_FIELDS } = require('./searchTokens');
+
+const EXACT_SEARCH = { mode: 'exact', threshold: 0 };
+
+// Validates the search options of the payload, defaulting to an exact search
+function parseSearchOptions(searchOptions) {
+    if (searchOptions === undefined || searchOptions === null) return EXACT_SEARCH;
+
+    const { mode, threshold } = searchOptions;
+    if (mode !== 'exact' && mode !== 'fuzzy') {
+        throw new FilterValidationError(`Invalid search mode: ${mode}`);
+    }
+    if (mode === 'fuzzy' && (typeof threshold !== 'number' || !(threshold >= 0 && threshold < 1))) {
+        throw new FilterValidationError(`Invalid search threshold: ${threshold}`);
+    }
+    return { mode, threshold: mode === 'fuzzy' ? threshold : 0 };
+}
+
+// Builds the query matching products whose searched fields contain the term, ignoring case
+function buildSearchQuery(searchTerm) {
+    const pattern = escapeRegex(searchTerm);
+    return {
+        $or: SEARCH_FIELDS.map(field => ({ [field]: { $regex: pattern, $options: 'i' } }))
+    };
+}
+
+// Builds the aggregation expression scoring a product against the term:
+// the sum of the weights of the searched fields containing it
+function buildRelevanceExpression(searchTerm) {
+    if (!searchTerm) return { $literal: 0 };
+    const pattern = escapeRegex(searchTerm);
+    return {
+        $add: SEARCH_FIELD_WEIGHTS.map(([field, weight]) => ({
+            $cond: [
+                { $regexMatch: { input: { $ifNull: [`$${field}`, ''] }, regex: pattern, options: 'i' } },
+                weight,
+                0
+            ]
+        }))
+    };
+}
+
+// Matches products against the term tolerating typos, like the client-side strategy in fuzzy mode.
+// A product matches when every word of the term matches a word of some searched field; its score
+// is the sum of the weights of the fields matching any word of the term. The words of the term are
+// compared with the vocabulary of the catalog, and the products holding the matching words are looked
+// up in the search tokens index, so that neither the query nor the score depends on the catalog size.
+function buildFuzzySearch(searchTerm, threshold, vocabulary) {
+    const queryTokens = tokenize(searchTerm);
+    if (queryTokens.length === 0) return { query: null, relevance: { $literal: 0 } };
+
+    // The words of each field matching each word of the term
+    const matchedWords = queryTokens.map(queryToken => Object.fromEntries(SEARCH_FIELDS.map(field =>
+        [field, (vocabulary[field] ?? []).filter(word => tokenMatches(queryToken, word, threshold))])));
+    if (matchedWords.some(words => SEARCH_FIELDS.every(field => words[field].length === 0))) {
+        return { query: { _id: { $in: [] } }, relevance: { $literal: 0 } };
+    }
+
+    const query = {
+        $and: matchedWords.map(words => ({
+            $or: SEARCH_FIELDS
+                .filter(field => words[field].length > 0)
+                .map(field => ({ [`searchTokens.${field}`]: { $in: words[field] } }))
+        }))
+    };
+    const relevance = {
+        $add: SEARCH_FIELD_WEIGHTS.map(([field, weight]) => {
+            const words = [...new Set(matchedWords.flatMap(matched => matched[field]))];
+            const matches = { $setIntersection: [{ $ifNull: [`$searchTokens.${field}`, []] }, { $literal: words }] };
+            return { $cond: [{ $gt: [{ $size: matches }, 0] }, weight, 0] };
+        })
+    };
+    return { query, relevance };
+}
+
+module.exports = {
+    SEARCH_FIELD_WEIGHTS,
+    SEARCH_FIELDS,
+    parseSearchOptions,
+    buildSearchQuery,
+    buildRelevanceExpression,
+    buildFuzzySearch
+};
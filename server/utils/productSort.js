@@ -0,0 +1,68 @@
+// utils/productSort.js
+const { FilterValidationError } = require('./filterQuery');
+const { decodeCursor, buildKeysetMatch } = require('./cursor');
+const { SORTED_STRING_FIELDS } = require('./sortKeys');
+
+const FIELD_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// Appended to every sort so that equal products keep a deterministic order and pages never overlap
+const TIE_BREAKER = { field: 'id', direction: 'asc' };
+
+const withTieBreaker = (sort) => (sort.some(key => key.field === TIE_BREAKER.field) ? sort : [...sort, TIE_BREAKER]);
+
+// Builds the aggregation stages ordering products by the requested keys, then by id.
+// Fields are sorted as stored, so that the sort indexes of the model apply: strings by the lowercased
+// copy stored in `sortKeys` (see sortKeys.js), like the client compares them, and other fields by their
+// value. Only the relevance is computed, scored like on the client; its expression depends on the
+// search mode, see productSearch.js. Both filtering strategies thus produce the same ordering.
+// When a cursor is given, the stages only keep the products after it (or before it, in reverse
+// order, for "prev" cursors), see cursor.js. Returns the stages, the internal fields to remove from
+// the result, the sort keys (to create cursors from the result) and the decoded cursor.
+function buildSortStages(sort, relevance = { $literal: 0 }, cursor = null) {
+    if (sort !== undefined && !Array.isArray(sort)) {
+        throw new FilterValidationError('Sort must be an array of { field, direction } keys');
+    }
+
+    const computed = {};
+    const keys = [];
+
+    withTieBreaker(sort || []).forEach(({ field, direction }, index) => {
+        if (typeof field !== 'string' || !FIELD_PATTERN.test(field)) {
+            throw new FilterValidationError(`Invalid sort field: ${field}`);
+        }
+        if (direction !== 'asc' && direction !== 'desc') {
+            throw new FilterValidationError(`Invalid sort direction: ${direction}`);
+        }
+
+        const sortDirection = direction === 'asc' ? 1 : -1;
+        if (field === 'id') {
+            keys.push({ field, path: '_id', direction: sortDirection });
+            return;
+        }
+
+        if (field === 'relevance') {
+            const sortField = `_sort${index}`;
+            computed[sortField] = relevance;
+            keys.push({ field, path: sortField, direction: sortDirection });
+            return;
+        }
+
+        const path = SORTED_STRING_FIELDS.includes(field) ? `sortKeys.${field}` : field;
+        keys.push({ field, path, direction: sortDirection });
+    });
+
+    const position = cursor ? decodeCursor(cursor, keys) : null;
+    const isReversed = position !== null && position.direction === 'prev';
+
+    const stages = [];
+    if (Object.keys(computed).length > 0) {
+        stages.push({ $addFields: computed });
+    }
+    if (position) {
+        stages.push({ $match: buildKeysetMatch(keys, position) });
+    }
+    stages.push({ $sort: Object.fromEntries(keys.map(({ path, direction }) => [path, isReversed ? -direction : direction])) });
+    return { stages, internalFields: [...Object.keys(computed), 'sortKeys'], keys, cursor: position };
+}
+
+module.exports = { buildSortStages };
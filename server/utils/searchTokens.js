@@ -0,0 +1,30 @@
+// utils/searchTokens.js
+// Every product stores the words of its searched fields, indexed, and every word of the catalog is
+// kept in a vocabulary (see models/SearchWord.js). Typo-tolerant searches compare the words of the
+// term with the vocabulary only, then look the products holding the matching words up in the index.
+const { tokenize } = require('./textSearch');
+
+// Searched fields and the weight each one contributes to the relevance score when it matches.
+// Kept in sync with SEARCH_FIELD_WEIGHTS in the Angular client.
+const SEARCH_FIELD_WEIGHTS = [
+    ['name', 3],
+    ['category', 2],
+    ['description', 1]
+];
+
+const SEARCH_FIELDS = SEARCH_FIELD_WEIGHTS.map(([field]) => field);
+
+// The distinct words of a field value
+const fieldTokens = (value) => [...new Set(tokenize(value ?? ''))];
+
+// The words of every searched field of a product, e.g. { name: ['iphone', '15'], category: [...], ... }
+const toSearchTokens = (product) =>
+    Object.fromEntries(SEARCH_FIELDS.map(field => [field, fieldTokens(product[field])]));
+
+// The `$set` of the words of the searched fields changed by an update, e.g. { 'searchTokens.name': [...] }
+const toSearchTokensUpdate = (values) =>
+    Object.fromEntries(SEARCH_FIELDS
+        .filter(field => values[field] !== undefined)
+        .map(field => [`searchTokens.${field}`, fieldTokens(values[field])]));
+
+module.exports = { SEARCH_FIELD_WEIGHTS, SEARCH_FIELDS, toSearchTokens, toSearchTokensUpdate };
@@ -0,0 +1,21 @@
+// utils/sortKeys.js
+// String fields sort case-insensitively. Their lowercased values are stored with every product and
+// indexed, so that sorts and cursors compare stored values instead of lowercasing every product.
+// Lowercased like the client-side strategy does, so that both strategies order strings identically.
+
+// The string fields of products, sorted by their stored lowercased value
+const SORTED_STRING_FIELDS = ['name', 'category', 'description', 'imgUrl'];
+
+const toSortKey = (value) => (typeof value === 'string' ? value.toLowerCase() : value ?? null);
+
+// The lowercased string fields of a product, e.g. { name: 'iphone 15', category: 'electronics', ... }
+const toSortKeys = (product) =>
+    Object.fromEntries(SORTED_STRING_FIELDS.map(field => [field, toSortKey(product[field])]));
+
+// The `$set` of the lowercased string fields changed by an update, e.g. { 'sortKeys.name': 'iphone 15' }
+const toSortKeysUpdate = (values) =>
+    Object.fromEntries(SORTED_STRING_FIELDS
+        .filter(field => values[field] !== undefined)
+        .map(field => [`sortKeys.${field}`, toSortKey(values[field])]));
+
+module.exports = { SORTED_STRING_FIELDS, toSortKeys, toSortKeysUpdate };
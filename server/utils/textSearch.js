@@ -0,0 +1,41 @@
+// utils/textSearch.js
+// Typo-tolerant word matching, kept in sync with text-search.ts in the Angular client.
+
+// Lowercases a text and strips its diacritics, so that "Crème" and "creme" compare equal
+const normalizeText = (text) => String(text).normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Splits a text into normalized words, any character that is not a letter or a digit separating them
+const tokenize = (text) => normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+
+// Levenshtein distance between two words, giving up with max + 1 once it exceeds max
+function editDistance(a, b, max) {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMinimum = i;
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+            rowMinimum = Math.min(rowMinimum, current[j]);
+        }
+        if (rowMinimum > max) return max + 1;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Number of typos tolerated in a search word
+const allowedEdits = (token, threshold) => Math.floor(token.length * threshold);
+
+// A search word matches a text word when the text word contains it, or when it is within
+// the tolerated number of typos of the text word or of its beginning
+function tokenMatches(queryToken, textToken, threshold) {
+    if (textToken.includes(queryToken)) return true;
+    const max = allowedEdits(queryToken, threshold);
+    if (max === 0) return false;
+    return editDistance(queryToken, textToken, max) <= max
+        || editDistance(queryToken, textToken.slice(0, queryToken.length + max), max) <= max;
+}
+
+module.exports = { normalizeText, tokenize, editDistance, allowedEdits, tokenMatches };